@@ -0,0 +1,94 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import { runQuery } from '../database/init';
+
+useTestDatabase();
+
+describe('API keys', () => {
+  let user: TestUser;
+
+  beforeAll(async () => {
+    user = await registerUser();
+  });
+
+  const createKey = async (scopes: string[]) => {
+    const response = await api().post('/api/keys').set(user.auth).send({ name: 'Script', scopes }).expect(201);
+    return response.body.data as { apiKey: { id: string; prefix: string }; key: string };
+  };
+
+  it('shows the key once and lists only its prefix', async () => {
+    const { apiKey, key } = await createKey(['tasks:read']);
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+
+    const list = await api().get('/api/keys').set(user.auth).expect(200);
+    const listed = list.body.data.find((item: any) => item.id === apiKey.id);
+    expect(listed).toMatchObject({ prefix: apiKey.prefix, scopes: ['tasks:read'] });
+    expect(JSON.stringify(list.body.data)).not.toContain(key);
+  });
+
+  it('authenticates with either the Bearer or ApiKey scheme and records use', async () => {
+    const { apiKey, key } = await createKey(['tasks:read']);
+
+    await api().get('/api/tasks').set('Authorization', `Bearer ${key}`).expect(200);
+    await api().get('/api/tasks').set('Authorization', `ApiKey ${key}`).expect(200);
+
+    const list = await api().get('/api/keys').set(user.auth).expect(200);
+    expect(list.body.data.find((item: any) => item.id === apiKey.id).lastUsedAt).toBeDefined();
+  });
+
+  it('records use at most once a minute', async () => {
+    const { apiKey, key } = await createKey(['tasks:read']);
+    const getLastUsedAt = async () => {
+      const list = await api().get('/api/keys').set(user.auth).expect(200);
+      return list.body.data.find((item: any) => item.id === apiKey.id).lastUsedAt;
+    };
+
+    await api().get('/api/tasks').set('Authorization', `Bearer ${key}`).expect(200);
+    const firstUse = await getLastUsedAt();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await api().get('/api/tasks').set('Authorization', `Bearer ${key}`).expect(200);
+    expect(await getLastUsedAt()).toBe(firstUse);
+
+    const longAgo = new Date(Date.now() - 2 * 60 * 1000).toISOString();
+    await runQuery('UPDATE api_keys SET lastUsedAt = ? WHERE id = ?', [longAgo, apiKey.id]);
+    await api().get('/api/tasks').set('Authorization', `Bearer ${key}`).expect(200);
+    expect(new Date(await getLastUsedAt()).getTime()).toBeGreaterThan(new Date(firstUse).getTime());
+  });
+
+  it('enforces scopes', async () => {
+    const { key: readKey } = await createKey(['tasks:read']);
+    const readAuth = { Authorization: `Bearer ${readKey}` };
+
+    await api().post('/api/tasks').set(readAuth).send({ title: 'Nope' }).expect(403);
+    await api().get('/api/categories').set(readAuth).expect(200);
+    await api().get('/api/events').set(readAuth).expect(200);
+    await api().post('/api/categories').set(readAuth).send({ name: 'Nope', color: '#3366ff' }).expect(403);
+    await api().get('/api/keys').set(readAuth).expect(403);
+
+    const { key: writeKey } = await createKey(['tasks:write']);
+    const writeAuth = { Authorization: `Bearer ${writeKey}` };
+    await api().post('/api/tasks').set(writeAuth).send({ title: 'Allowed' }).expect(201);
+    await api().get('/api/tasks').set(writeAuth).expect(403);
+    await api().post('/api/categories').set(writeAuth).send({ name: 'Allowed', color: '#3366ff' }).expect(201);
+    await api().get('/api/categories').set(writeAuth).expect(403);
+
+    const { key: adminKey } = await createKey(['admin']);
+    await api().get('/api/categories').set('Authorization', `Bearer ${adminKey}`).expect(200);
+    await api().get('/api/keys').set('Authorization', `Bearer ${adminKey}`).expect(200);
+  });
+
+  it('rejects revoked and unknown keys', async () => {
+    const { apiKey, key } = await createKey(['tasks:read']);
+
+    await api().delete(`/api/keys/${apiKey.id}`).set(user.auth).expect(200);
+    await api().get('/api/tasks').set('Authorization', `Bearer ${key}`).expect(401);
+    await api().delete(`/api/keys/${apiKey.id}`).set(user.auth).expect(404);
+
+    await api().get('/api/tasks').set('Authorization', 'Bearer dp_unknown').expect(401);
+  });
+
+  it("cannot revoke another user's key", async () => {
+    const { apiKey } = await createKey(['tasks:read']);
+    const other = await registerUser();
+    await api().delete(`/api/keys/${apiKey.id}`).set(other.auth).expect(404);
+  });
+});
@@ -0,0 +1,176 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import * as TaskModel from '../models/Task';
+import * as WebhookModel from '../models/Webhook';
+import * as taskStream from '../utils/taskStream';
+
+useTestDatabase();
+
+describe('Task audit log', () => {
+  let user: TestUser;
+
+  beforeEach(async () => {
+    user = await registerUser();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createTask = async (fields: Record<string, unknown> = {}) => {
+    const response = await api().post('/api/tasks').set(user.auth).send({ title: 'Audited task', ...fields }).expect(201);
+    return response.body.data;
+  };
+
+  const createCategory = async (name: string) => {
+    const response = await api().post('/api/categories').set(user.auth).send({ name, color: '#3366ff' }).expect(201);
+    return response.body.data;
+  };
+
+  const getHistory = async (taskId: string, query: Record<string, string> = {}) => {
+    const response = await api().get(`/api/tasks/${taskId}/history`).query(query).set(user.auth).expect(200);
+    return response.body.data.items;
+  };
+
+  it('records field changes and their origin, newest first', async () => {
+    const task = await createTask({ priority: 'low' });
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).set('User-Agent', 'audit-test').send({ priority: 'high' }).expect(200);
+    // Saving the same values changes nothing and is not recorded
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).send({ priority: 'high' }).expect(200);
+
+    const history = await getHistory(task.id);
+    expect(history.map((entry: any) => entry.action)).toEqual(['update', 'create']);
+    expect(history[0].changes).toEqual({ priority: { before: 'low', after: 'high' } });
+    expect(history[0].origin).toMatchObject({ actorId: user.id, method: 'PUT', path: `/api/tasks/${task.id}`, userAgent: 'audit-test' });
+    expect(history[1].changes.title).toEqual({ before: null, after: 'Audited task' });
+  });
+
+  it('keeps history after a task is deleted', async () => {
+    const task = await createTask();
+    await api().delete(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+
+    const history = await getHistory(task.id, { action: 'delete' });
+    expect(history).toHaveLength(1);
+  });
+
+  it('lists and filters changes across tasks', async () => {
+    const first = await createTask({ title: 'First' });
+    const second = await createTask({ title: 'Second' });
+    await api().put(`/api/tasks/${second.id}`).set(user.auth).send({ dueDate: '2030-01-01T00:00:00.000Z' }).expect(200);
+
+    const all = await api().get('/api/audit').set(user.auth).expect(200);
+    expect(all.body.data.pagination.total).toBe(3);
+
+    const byField = await api().get('/api/audit').query({ field: 'dueDate' }).set(user.auth).expect(200);
+    expect(byField.body.data.items.map((entry: any) => entry.taskId)).toEqual([second.id]);
+
+    const byTask = await api().get('/api/audit').query({ taskId: first.id }).set(user.auth).expect(200);
+    expect(byTask.body.data.items.map((entry: any) => entry.action)).toEqual(['create']);
+
+    const otherUser = await registerUser();
+    const others = await api().get('/api/audit').set(otherUser.auth).expect(200);
+    expect(others.body.data.pagination.total).toBe(0);
+  });
+
+  it('records, announces and webhooks every task detached by a category force delete', async () => {
+    const category = await createCategory('Garden');
+    const webhook = await api().post('/api/webhooks').set(user.auth)
+      .send({ url: 'https://hooks.example.com/planner', events: ['task.updated'] })
+      .expect(201);
+    const tasks = [await createTask({ categoryId: category.id }), await createTask({ categoryId: category.id })];
+    const trashed = await createTask({ categoryId: category.id });
+    await api().delete(`/api/tasks/${trashed.id}`).set(user.auth).expect(200);
+    const publish = jest.spyOn(taskStream, 'publishTaskEvent');
+
+    const forced = await api().delete(`/api/categories/${category.id}/force`).set(user.auth).expect(200);
+    expect(forced.body.data).toEqual({ detachedTasks: 2, detachedEvents: 0 });
+
+    for (const task of tasks) {
+      const [entry] = await getHistory(task.id);
+      expect(entry).toMatchObject({ action: 'update', changes: { categoryId: { before: category.id, after: null } } });
+      expect(publish).toHaveBeenCalledWith(user.id, 'task.updated', { task: expect.objectContaining({ id: task.id, categoryId: null }) });
+    }
+    expect(publish).toHaveBeenCalledTimes(2);
+
+    const [trashedEntry] = await getHistory(trashed.id);
+    expect(trashedEntry.changes).toEqual({ categoryId: { before: category.id, after: null } });
+
+    const deliveries = await api().get(`/api/webhooks/${webhook.body.data.webhook.id}/deliveries`).set(user.auth).expect(200);
+    expect(deliveries.body.data.items.map((delivery: any) => delivery.event)).toEqual(['task.updated', 'task.updated']);
+  });
+
+  it('leaves the category and its tasks untouched when a force delete fails', async () => {
+    const category = await createCategory('Workshop');
+    const tasks = [await createTask({ categoryId: category.id }), await createTask({ categoryId: category.id })];
+    // The first task is detached before the second fails
+    const actualUpdateTask = TaskModel.updateTask;
+    jest.spyOn(TaskModel, 'updateTask')
+      .mockImplementationOnce(actualUpdateTask)
+      .mockRejectedValueOnce(new Error('Disk full'));
+    const publish = jest.spyOn(taskStream, 'publishTaskEvent');
+
+    await api().delete(`/api/categories/${category.id}/force`).set(user.auth).expect(500);
+
+    expect(publish).not.toHaveBeenCalled();
+    await api().get(`/api/categories/${category.id}`).set(user.auth).expect(200);
+    for (const task of tasks) {
+      const fetched = await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+      expect(fetched.body.data.categoryId).toBe(category.id);
+      expect((await getHistory(task.id)).map((entry: any) => entry.action)).toEqual(['create']);
+    }
+  });
+
+  // Fails to queue the given webhook event, after every other statement of the write has run
+  const failWebhookEvent = (failing: string) => {
+    const actual = WebhookModel.enqueueWebhookEvent;
+    jest.spyOn(WebhookModel, 'enqueueWebhookEvent').mockImplementation(async (userId, event, data) => {
+      if (event === failing) {
+        throw new Error('Disk full');
+      }
+      return actual(userId, event, data);
+    });
+  };
+
+  const countAuditEntries = async (): Promise<number> => {
+    const response = await api().get('/api/audit').set(user.auth).expect(200);
+    return response.body.data.pagination.total;
+  };
+
+  it('keeps nothing of a task that fails to be created', async () => {
+    failWebhookEvent('task.created');
+    const publish = jest.spyOn(taskStream, 'publishTaskEvent');
+
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Half saved', tags: ['errand'] }).expect(500);
+
+    expect(publish).not.toHaveBeenCalled();
+    const tasks = await api().get('/api/tasks').set(user.auth).expect(200);
+    expect(tasks.body.data.items).toHaveLength(0);
+    expect(await countAuditEntries()).toBe(0);
+  });
+
+  it('keeps a recurring task open when its next occurrence fails to be scheduled', async () => {
+    const task = await createTask({ dueDate: '2031-01-01T09:00:00.000Z', recurrence: { frequency: 'daily' } });
+    failWebhookEvent('task.created');
+    const publish = jest.spyOn(taskStream, 'publishTaskEvent');
+
+    await api().patch(`/api/tasks/${task.id}/toggle`).set(user.auth).expect(500);
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).send({ completed: true }).expect(500);
+
+    expect(publish).not.toHaveBeenCalled();
+    const fetched = await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    expect(fetched.body.data).toMatchObject({ completed: false, version: task.version });
+    expect(fetched.body.data.nextOccurrenceId).toBeFalsy();
+    const tasks = await api().get('/api/tasks').set(user.auth).expect(200);
+    expect(tasks.body.data.items).toHaveLength(1);
+    expect((await getHistory(task.id)).map((entry: any) => entry.action)).toEqual(['create']);
+  });
+
+  it('keeps a task out of the trash when deleting it fails', async () => {
+    const task = await createTask();
+    failWebhookEvent('task.deleted');
+
+    await api().delete(`/api/tasks/${task.id}`).set(user.auth).expect(500);
+
+    await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    expect((await getHistory(task.id)).map((entry: any) => entry.action)).toEqual(['create']);
+  });
+});
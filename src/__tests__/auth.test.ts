@@ -0,0 +1,49 @@
+import { api, useTestDatabase, registerUser } from './helpers';
+
+useTestDatabase();
+
+describe('user accounts', () => {
+  const credentials = { email: 'Ada@Example.com', password: 'analytical-engine' };
+
+  it('registers, logs in and returns the current user', async () => {
+    const registered = await api().post('/api/auth/register').send({ ...credentials, name: 'Ada' }).expect(201);
+    expect(registered.body.data.user).toMatchObject({ email: 'Ada@Example.com', name: 'Ada' });
+    expect(registered.body.data.user).not.toHaveProperty('passwordHash');
+
+    // Emails are matched case-insensitively
+    const login = await api()
+      .post('/api/auth/login')
+      .send({ email: 'ada@example.com', password: credentials.password })
+      .expect(200);
+
+    const me = await api().get('/api/auth/me').set('Authorization', `Bearer ${login.body.data.token}`).expect(200);
+    expect(me.body.data.id).toBe(registered.body.data.user.id);
+  });
+
+  it('rejects duplicate emails and wrong passwords', async () => {
+    await api().post('/api/auth/register').send({ ...credentials, email: 'ADA@example.com' }).expect(409);
+    await api().post('/api/auth/login').send({ ...credentials, password: 'wrong-password' }).expect(401);
+    await api().post('/api/auth/login').send({ email: 'nobody@example.com', password: 'whatever1' }).expect(401);
+  });
+
+  it('requires a valid token for the API', async () => {
+    await api().get('/api/tasks').expect(401);
+    await api().get('/api/tasks').set('Authorization', 'Bearer not-a-token').expect(401);
+    await api().get('/api/categories').set('Authorization', 'Basic abc').expect(401);
+  });
+
+  it("keeps users' tasks apart", async () => {
+    const alice = await registerUser();
+    const bob = await registerUser();
+
+    const created = await api().post('/api/tasks').set(alice.auth).send({ title: "Alice's task" }).expect(201);
+    const task = created.body.data;
+    expect(task.userId).toBe(alice.id);
+
+    const bobList = await api().get('/api/tasks').set(bob.auth).expect(200);
+    expect(bobList.body.data.items).toEqual([]);
+    await api().get(`/api/tasks/${task.id}`).set(bob.auth).expect(404);
+    await api().put(`/api/tasks/${task.id}`).set(bob.auth).send({ title: 'Mine' }).expect(404);
+    await api().delete(`/api/tasks/${task.id}`).set(bob.auth).expect(404);
+  });
+});
@@ -0,0 +1,74 @@
+import { useTestDatabase } from './helpers';
+import * as TaskModel from '../models/Task';
+import * as ReminderModel from '../models/Reminder';
+import * as WebhookModel from '../models/Webhook';
+import { startTrashPurger, stopTrashPurger, purgeExpiredTasks } from '../utils/trashPurger';
+import { startReminderScheduler, stopReminderScheduler } from '../utils/reminderScheduler';
+import { processDueDeliveries, stopWebhookWorker } from '../utils/webhooks';
+
+useTestDatabase();
+
+describe('Stopping background jobs', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Long enough for a stop to arrive while the run is still going
+  const pause = () => new Promise(resolve => setTimeout(resolve, 50));
+
+  it('waits for a trash purge in progress', async () => {
+    const actual = TaskModel.purgeTasksDeletedBefore;
+    let finished = false;
+    const purge = jest.spyOn(TaskModel, 'purgeTasksDeletedBefore').mockImplementation(async (...args) => {
+      await pause();
+      const purged = await actual(...args);
+      finished = true;
+      return purged;
+    });
+
+    startTrashPurger();
+    expect(await purgeExpiredTasks()).toBe(0);
+    await stopTrashPurger();
+
+    expect(finished).toBe(true);
+    expect(purge).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for a reminder run in progress', async () => {
+    const actual = ReminderModel.findDueReminders;
+    let finished = false;
+    jest.spyOn(ReminderModel, 'findDueReminders').mockImplementation(async (...args) => {
+      await pause();
+      const reminders = await actual(...args);
+      finished = true;
+      return reminders;
+    });
+
+    startReminderScheduler();
+    await stopReminderScheduler();
+
+    expect(finished).toBe(true);
+  });
+
+  it('waits for a webhook delivery run in progress', async () => {
+    const actual = WebhookModel.findDueDeliveries;
+    let finished = false;
+    jest.spyOn(WebhookModel, 'findDueDeliveries').mockImplementation(async (...args) => {
+      await pause();
+      const deliveries = await actual(...args);
+      finished = true;
+      return deliveries;
+    });
+
+    const processing = processDueDeliveries();
+    expect(await processDueDeliveries()).toBe(0);
+    await stopWebhookWorker();
+
+    expect(finished).toBe(true);
+    expect(await processing).toBe(0);
+  });
+
+  it('resolves at once when nothing is running', async () => {
+    await Promise.all([stopTrashPurger(), stopReminderScheduler(), stopWebhookWorker()]);
+  });
+});
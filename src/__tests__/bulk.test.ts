@@ -0,0 +1,144 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import * as TaskModel from '../models/Task';
+
+useTestDatabase();
+
+describe('Bulk task operations', () => {
+  let user: TestUser;
+
+  beforeEach(async () => {
+    user = await registerUser();
+  });
+
+  const createTask = async (fields: Record<string, unknown> = {}) => {
+    const response = await api().post('/api/tasks').set(user.auth).send({ title: 'Bulk task', ...fields }).expect(201);
+    return response.body.data;
+  };
+
+  const getTask = async (id: string) => {
+    const response = await api().get(`/api/tasks/${id}`).set(user.auth).expect(200);
+    return response.body.data;
+  };
+
+  const bulk = (body: Record<string, unknown>) => api().post('/api/tasks/bulk').set(user.auth).send(body);
+
+  it('applies an action to tasks selected by id', async () => {
+    const low = await createTask({ priority: 'low' });
+    const high = await createTask({ priority: 'high' });
+
+    const response = await bulk({ action: 'setPriority', priority: 'high', ids: [low.id, high.id] }).expect(200);
+
+    expect(response.body.data).toEqual({
+      action: 'setPriority',
+      committed: true,
+      matched: 2,
+      affected: 1,
+      failed: 0,
+      results: [{ id: low.id, status: 'updated' }, { id: high.id, status: 'unchanged' }]
+    });
+    expect((await getTask(low.id)).priority).toBe('high');
+  });
+
+  it('selects tasks with a filter', async () => {
+    const done = await createTask({ title: 'Done' });
+    const open = await createTask({ title: 'Open' });
+    await api().patch(`/api/tasks/${done.id}/toggle`).set(user.auth).expect(200);
+
+    const response = await bulk({ action: 'delete', filter: { completed: true } }).expect(200);
+
+    expect(response.body.data.results).toEqual([{ id: done.id, status: 'deleted' }]);
+    await api().get(`/api/tasks/${done.id}`).set(user.auth).expect(404);
+    await getTask(open.id);
+    const trash = await api().get('/api/trash').set(user.auth).expect(200);
+    expect(trash.body.data.items.map((task: any) => task.id)).toEqual([done.id]);
+  });
+
+  it('sets and clears due dates, and completes tasks', async () => {
+    const task = await createTask();
+    const dueDate = '2031-06-01T09:00:00.000Z';
+
+    await bulk({ action: 'setDueDate', dueDate, ids: [task.id] }).expect(200);
+    expect((await getTask(task.id)).dueDate).toBe(dueDate);
+
+    await bulk({ action: 'setDueDate', dueDate: null, ids: [task.id] }).expect(200);
+    expect((await getTask(task.id)).dueDate).toBeFalsy();
+
+    await bulk({ action: 'complete', ids: [task.id] }).expect(200);
+    expect((await getTask(task.id)).completed).toBe(true);
+    await bulk({ action: 'uncomplete', ids: [task.id] }).expect(200);
+    expect((await getTask(task.id)).completed).toBe(false);
+  });
+
+  it('schedules the next occurrence when completing a recurring task', async () => {
+    const task = await createTask({ title: 'Water plants', dueDate: '2031-01-01T09:00:00.000Z', recurrence: { frequency: 'weekly' } });
+
+    await bulk({ action: 'complete', ids: [task.id] }).expect(200);
+
+    const open = await api().get('/api/tasks').query({ completed: false }).set(user.auth).expect(200);
+    expect(open.body.data.items).toEqual([expect.objectContaining({ title: 'Water plants', dueDate: '2031-01-08T09:00:00.000Z' })]);
+  });
+
+  it('saves nothing when any task is missing or fails', async () => {
+    const plain = await createTask({ dueDate: '2031-01-01T09:00:00.000Z' });
+    const recurring = await createTask({ dueDate: '2031-01-01T09:00:00.000Z', recurrence: { frequency: 'daily' } });
+    const otherUsersTask = (await api().post('/api/tasks').set((await registerUser()).auth).send({ title: 'Not mine' }).expect(201)).body.data;
+
+    const failed = await bulk({ action: 'setDueDate', dueDate: null, ids: [plain.id, recurring.id] }).expect(400);
+    expect(failed.body.data).toMatchObject({ committed: false, matched: 2, affected: 0, failed: 1 });
+    expect(failed.body.data.results[1]).toEqual({ id: recurring.id, status: 'failed', error: 'A recurring task requires a dueDate' });
+
+    const missing = await bulk({ action: 'complete', ids: [plain.id, otherUsersTask.id] }).expect(400);
+    expect(missing.body.data.results[1]).toEqual({ id: otherUsersTask.id, status: 'not_found' });
+
+    const unchanged = await getTask(plain.id);
+    expect(unchanged).toMatchObject({ dueDate: '2031-01-01T09:00:00.000Z', completed: false, version: plain.version });
+  });
+
+  it('validates the request', async () => {
+    const task = await createTask();
+
+    await bulk({ action: 'complete' }).expect(400);
+    await bulk({ action: 'complete', ids: [task.id], filter: { priority: 'low' } }).expect(400);
+    await bulk({ action: 'complete', filter: {} }).expect(400);
+    await bulk({ action: 'setPriority', ids: [task.id] }).expect(400);
+    await bulk({ action: 'complete', priority: 'high', ids: [task.id] }).expect(400);
+    await bulk({ action: 'archive', ids: [task.id] }).expect(400);
+  });
+
+  it('does not fail writes that arrive while a bulk transaction is open', async () => {
+    const tasks = [];
+    for (let index = 0; index < 20; index++) {
+      tasks.push(await createTask({ title: `Bulk ${index}`, priority: 'low' }));
+    }
+
+    // Each bulk update pauses before being saved, so the other requests
+    // arrive while the bulk transaction is open
+    const updateTask = TaskModel.updateTask;
+    const spy = jest.spyOn(TaskModel, 'updateTask').mockImplementation(async (...args) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return updateTask(...args);
+    });
+
+    try {
+      const updating = bulk({ action: 'setPriority', priority: 'high', ids: tasks.map(task => task.id) }).then(response => response);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      const created = await Promise.all([
+        api().post('/api/tasks').set(user.auth).send({ title: 'Created meanwhile' }),
+        api().post('/api/tasks').set(user.auth).send({ title: 'Also created meanwhile' })
+      ]);
+      const updated = await updating;
+
+      expect(updated.status).toBe(200);
+      expect(updated.body.data.affected).toBe(20);
+      expect(created.map(response => response.status)).toEqual([201, 201]);
+    } finally {
+      spy.mockRestore();
+    }
+
+    const high = await api().get('/api/tasks').query({ priority: 'high', limit: 1 }).set(user.auth).expect(200);
+    expect(high.body.data.pagination.total).toBe(20);
+    const all = await api().get('/api/tasks').query({ limit: 1 }).set(user.auth).expect(200);
+    expect(all.body.data.pagination.total).toBe(22);
+  });
+});
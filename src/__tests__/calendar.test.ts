@@ -0,0 +1,181 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import { parseDateTime, parseDateTimeProperty } from '../utils/ical';
+import { subscribeToTaskEvents } from '../utils/taskStream';
+import { TaskStreamEvent } from '../types';
+
+useTestDatabase();
+
+const calendar = (...items: string[]): string => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  ...items,
+  'END:VCALENDAR',
+  ''
+].join('\r\n');
+
+const todo = (uid: string, summary: string, ...lines: string[]): string => [
+  'BEGIN:VTODO',
+  `UID:${uid}`,
+  `SUMMARY:${summary}`,
+  ...lines,
+  'END:VTODO'
+].join('\r\n');
+
+describe('iCalendar time zones', () => {
+  it('reads UTC times and dates as they are', () => {
+    expect(parseDateTime('20240115T100000Z')).toBe('2024-01-15T10:00:00.000Z');
+    expect(parseDateTime('20240115')).toBe('2024-01-15T00:00:00.000Z');
+  });
+
+  it('converts local times from their zone, including across DST', () => {
+    expect(parseDateTime('20240115T100000', 'Europe/Berlin')).toBe('2024-01-15T09:00:00.000Z');
+    expect(parseDateTime('20240715T100000', 'America/New_York')).toBe('2024-07-15T14:00:00.000Z');
+    // 02:30 does not exist on the spring-forward day; it lands after the gap
+    expect(parseDateTime('20240310T023000', 'America/New_York')).toBe('2024-03-10T07:30:00.000Z');
+  });
+
+  it('does not guess local times without a known zone', () => {
+    expect(parseDateTime('20240115T100000')).toBeNull();
+    expect(parseDateTime('20240115T100000', 'Mars/Olympus_Mons')).toBeNull();
+  });
+
+  it('prefers TZID over the default zone and reports unresolved times', () => {
+    const property = (value: string, params: Record<string, string> = {}) => ({ name: 'DUE', params, value });
+
+    expect(parseDateTimeProperty(property('20240115T100000', { TZID: 'America/New_York' }), 'Europe/Berlin'))
+      .toEqual({ value: '2024-01-15T15:00:00.000Z' });
+    expect(parseDateTimeProperty(property('20240115T100000'), 'Europe/Berlin'))
+      .toEqual({ value: '2024-01-15T09:00:00.000Z' });
+    expect(parseDateTimeProperty(property('20240115T100000', { TZID: 'Custom Zone' })).error)
+      .toBe('Unknown time zone "Custom Zone" in DUE');
+    expect(parseDateTimeProperty(property('20240115T100000')).error).toMatch(/no time zone/);
+  });
+});
+
+describe('Calendar feed', () => {
+  let user: TestUser;
+
+  beforeAll(async () => {
+    user = await registerUser();
+    await api().post('/api/tasks').set(user.auth).send({ title: 'In the feed', priority: 'high' }).expect(201);
+  });
+
+  const createFeedToken = async (): Promise<{ id: string; key: string }> => {
+    const response = await api().post('/api/keys').set(user.auth).send({ name: 'Calendar', kind: 'feed' }).expect(201);
+    expect(response.body.data.apiKey).toMatchObject({ kind: 'feed', scopes: ['tasks:read'] });
+    return { id: response.body.data.apiKey.id, key: response.body.data.key };
+  };
+
+  it('serves the feed with a feed token in the URL', async () => {
+    const { key } = await createFeedToken();
+    expect(key.startsWith('dpf_')).toBe(true);
+
+    const response = await api().get(`/api/tasks.ics?token=${key}`).expect(200);
+    expect(response.headers['content-type']).toMatch(/text\/calendar/);
+    expect(response.text).toContain('SUMMARY:In the feed');
+    expect(response.text).toContain('PRIORITY:1');
+  });
+
+  it('only issues read-only feed tokens', async () => {
+    await api().post('/api/keys').set(user.auth).send({ name: 'Calendar', kind: 'feed', scopes: ['tasks:write'] }).expect(400);
+  });
+
+  it('refuses API keys in the URL', async () => {
+    const created = await api().post('/api/keys').set(user.auth).send({ name: 'Script', scopes: ['tasks:read'] }).expect(201);
+
+    const response = await api().get(`/api/tasks.ics?key=${created.body.data.key}`).expect(401);
+    expect(response.body.error).toMatch(/feed token/);
+  });
+
+  it('accepts feed tokens nowhere else', async () => {
+    const { key } = await createFeedToken();
+
+    await api().get('/api/tasks').set('Authorization', `Bearer ${key}`).expect(401);
+    await api().get(`/api/tasks.ics`).set('Authorization', `Bearer ${key}`).expect(401);
+  });
+
+  it('stops accepting revoked feed tokens', async () => {
+    const { id, key } = await createFeedToken();
+    await api().delete(`/api/keys/${id}`).set(user.auth).expect(200);
+
+    await api().get(`/api/tasks.ics?token=${key}`).expect(401);
+  });
+
+  it('still accepts the Authorization header', async () => {
+    await api().get('/api/tasks.ics').set(user.auth).expect(200);
+  });
+});
+
+describe('Calendar import', () => {
+  let user: TestUser;
+
+  beforeEach(async () => {
+    user = await registerUser();
+  });
+
+  const importIcs = (body: string, query: string = '') => api()
+    .post(`/api/import/ics${query}`)
+    .set(user.auth)
+    .set('Content-Type', 'text/calendar')
+    .send(body);
+
+  const listTasks = async () => {
+    const response = await api().get('/api/tasks?sortBy=title&sortOrder=asc').set(user.auth).expect(200);
+    return response.body.data.items as { title: string; dueDate?: string; completed: boolean }[];
+  };
+
+  it('converts TZID times and skips items it cannot place in time', async () => {
+    const response = await importIcs(calendar(
+      todo('1', 'Zoned', 'DUE;TZID=America/New_York:20240715T100000'),
+      todo('2', 'Unknown zone', 'DUE;TZID=Nowhere/Special:20240715T100000'),
+      todo('3', 'Floating', 'DUE:20240715T100000'),
+      todo('4', 'Utc', 'DUE:20240715T100000Z', 'STATUS:COMPLETED')
+    )).expect(201);
+
+    expect(response.body.data).toMatchObject({ created: 2, skipped: 2 });
+    expect(response.body.data.errors).toEqual([
+      { index: 1, uid: '2', reason: 'Unknown time zone "Nowhere/Special" in DUE' },
+      { index: 2, uid: '3', reason: expect.stringMatching(/no time zone/) }
+    ]);
+
+    const tasks = await listTasks();
+    expect(tasks.map(task => [task.title, task.dueDate, task.completed])).toEqual([
+      ['Utc', '2024-07-15T10:00:00.000Z', true],
+      ['Zoned', '2024-07-15T14:00:00.000Z', false]
+    ]);
+  });
+
+  it('reads floating times in the timezone parameter', async () => {
+    await importIcs(calendar(todo('1', 'Floating', 'DUE:20240115T100000')), '?timezone=Europe/Berlin').expect(201);
+    expect((await listTasks())[0].dueDate).toBe('2024-01-15T09:00:00.000Z');
+
+    await importIcs(calendar(todo('2', 'Bad zone', 'DUE:20240115T100000')), '?timezone=Not/AZone').expect(400);
+  });
+
+  it('notifies streams once the import has committed', async () => {
+    const events: TaskStreamEvent[] = [];
+    const unsubscribe = subscribeToTaskEvents(user.id, event => events.push(event));
+
+    try {
+      await importIcs(calendar(todo('1', 'First'), todo('2', 'Second'))).expect(201);
+    } finally {
+      unsubscribe();
+    }
+
+    expect(events.map(event => [event.type, (event.data as any).task.title])).toEqual([
+      ['task.created', 'First'],
+      ['task.created', 'Second']
+    ]);
+  });
+
+  it('replays a retry with the same Idempotency-Key', async () => {
+    const body = calendar(todo('1', 'Once'));
+
+    const first = await importIcs(body).set('Idempotency-Key', 'ics-import-1').expect(201);
+    const retry = await importIcs(body).set('Idempotency-Key', 'ics-import-1').expect(201);
+
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+    expect(await listTasks()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+
+useTestDatabase();
+
+describe('categories API', () => {
+  let user: TestUser;
+
+  beforeAll(async () => {
+    user = await registerUser();
+  });
+
+  const createCategory = async (name: string) => {
+    const response = await api()
+      .post('/api/categories')
+      .set(user.auth)
+      .send({ name, color: '#3366ff' })
+      .expect(201);
+    return response.body.data;
+  };
+
+  const createTask = async (categoryId: string) => {
+    const response = await api()
+      .post('/api/tasks')
+      .set(user.auth)
+      .send({ title: 'Categorised task', categoryId })
+      .expect(201);
+    return response.body.data;
+  };
+
+  it('creates, lists, updates and gets categories', async () => {
+    const category = await createCategory('Work');
+
+    const list = await api().get('/api/categories').set(user.auth).expect(200);
+    expect(list.body.data.map((item: any) => item.id)).toContain(category.id);
+
+    const updated = await api()
+      .put(`/api/categories/${category.id}`)
+      .set(user.auth)
+      .send({ name: 'Office' })
+      .expect(200);
+    expect(updated.body.data).toMatchObject({ id: category.id, name: 'Office', color: '#3366ff' });
+
+    const fetched = await api().get(`/api/categories/${category.id}`).set(user.auth).expect(200);
+    expect(fetched.body.data.name).toBe('Office');
+  });
+
+  it('rejects invalid colors', async () => {
+    await api().post('/api/categories').set(user.auth).send({ name: 'Bad', color: 'blue' }).expect(400);
+  });
+
+  it('filters tasks by category and reports usage', async () => {
+    const category = await createCategory('Errands');
+    const task = await createTask(category.id);
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Uncategorised task' }).expect(201);
+
+    const tasks = await api().get('/api/tasks').query({ categoryId: category.id }).set(user.auth).expect(200);
+    expect(tasks.body.data.items.map((item: any) => item.id)).toEqual([task.id]);
+
+    const usage = await api().get(`/api/categories/${category.id}/usage`).set(user.auth).expect(200);
+    expect(usage.body.data).toMatchObject({ categoryId: category.id, taskCount: 1, completedTaskCount: 0, eventCount: 0 });
+  });
+
+  it('refuses to delete a category in use, and force delete detaches its tasks', async () => {
+    const category = await createCategory('Home');
+    const task = await createTask(category.id);
+
+    await api().delete(`/api/categories/${category.id}`).set(user.auth).expect(409);
+
+    const forced = await api().delete(`/api/categories/${category.id}/force`).set(user.auth).expect(200);
+    expect(forced.body.data).toEqual({ detachedTasks: 1, detachedEvents: 0 });
+
+    await api().get(`/api/categories/${category.id}`).set(user.auth).expect(404);
+    const detached = await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    expect(detached.body.data.categoryId).toBeNull();
+  });
+
+  it('deletes an unused category', async () => {
+    const category = await createCategory('Someday');
+    await api().delete(`/api/categories/${category.id}`).set(user.auth).expect(200);
+    await api().get(`/api/categories/${category.id}`).set(user.auth).expect(404);
+  });
+
+  it('summarises usage across categories', async () => {
+    const summary = await api().get('/api/categories/stats/summary').set(user.auth).expect(200);
+    expect(summary.body.data.total).toBe(summary.body.data.inUse + summary.body.data.unused);
+    expect(summary.body.data.usage).toHaveLength(summary.body.data.total);
+  });
+});
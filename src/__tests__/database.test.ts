@@ -0,0 +1,126 @@
+import { existsSync, unlinkSync } from 'fs';
+import { createClient } from '@libsql/client';
+import { getDatabase, initializeDatabase, closeDatabase } from '../database/init';
+
+const getDatabasePath = (): string => (process.env.LIBSQL_URL || '').replace(/^file:/, '');
+
+describe('upgrading a database created before user accounts', () => {
+  const categoryId = 'c0ffee00-0000-4000-8000-000000000000';
+  const taskId = '7a5c0000-0000-4000-8000-000000000000';
+  const tagId = '7a900000-0000-4000-8000-000000000000';
+
+  beforeAll(async () => {
+    const legacy = createClient({ url: process.env.LIBSQL_URL! });
+    const now = new Date().toISOString();
+
+    await legacy.batch([
+      `CREATE TABLE categories (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        color TEXT NOT NULL,
+        description TEXT,
+        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE tasks (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        completed BOOLEAN NOT NULL DEFAULT 0,
+        priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+        dueDate TEXT,
+        categoryId TEXT REFERENCES categories(id),
+        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE tags (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE task_tags (
+        taskId TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+        tagId TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        PRIMARY KEY (taskId, tagId)
+      )`,
+      `CREATE TABLE events (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        startDate TEXT NOT NULL,
+        endDate TEXT NOT NULL,
+        allDay BOOLEAN NOT NULL DEFAULT 0,
+        location TEXT,
+        categoryId TEXT REFERENCES categories(id),
+        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        CHECK (endDate > startDate)
+      )`,
+      {
+        sql: "INSERT INTO categories (id, name, color, createdAt, updatedAt) VALUES (?, 'Legacy', '#000000', ?, ?)",
+        args: [categoryId, now, now]
+      },
+      {
+        sql: "INSERT INTO tasks (id, title, categoryId, createdAt, updatedAt) VALUES (?, 'Legacy task', ?, ?, ?)",
+        args: [taskId, categoryId, now, now]
+      },
+      { sql: "INSERT INTO tags (id, name, createdAt) VALUES (?, 'legacy', ?)", args: [tagId, now] },
+      { sql: 'INSERT INTO task_tags (taskId, tagId) VALUES (?, ?)', args: [taskId, tagId] },
+      {
+        sql: `INSERT INTO events (id, title, startDate, endDate, categoryId, createdAt, updatedAt)
+              VALUES ('e0e00000-0000-4000-8000-000000000000', 'Legacy event', '2031-01-01T10:00:00.000Z',
+                '2031-01-01T11:00:00.000Z', ?, ?, ?)`,
+        args: [categoryId, now, now]
+      }
+    ], 'write');
+
+    legacy.close();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    const path = getDatabasePath();
+    [path, `${path}-journal`, `${path}-wal`, `${path}-shm`].filter(existsSync).forEach(unlinkSync);
+  });
+
+  it('refuses to start without BOOTSTRAP_USER_PASSWORD and leaves the data as it was', async () => {
+    const password = process.env.BOOTSTRAP_USER_PASSWORD;
+    delete process.env.BOOTSTRAP_USER_PASSWORD;
+    try {
+      await expect(initializeDatabase()).rejects.toThrow(
+        'BOOTSTRAP_USER_PASSWORD must be set to create the bootstrap user owner@planner.local'
+      );
+    } finally {
+      process.env.BOOTSTRAP_USER_PASSWORD = password;
+    }
+
+    const db = getDatabase();
+    const applied = await db.execute('SELECT version FROM schema_migrations');
+    expect(applied.rows).toEqual([]);
+    const users = await db.execute("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'users'");
+    expect(users.rows).toEqual([]);
+    const categories = await db.execute('PRAGMA table_info(categories)');
+    expect(categories.rows.map(row => row.name)).not.toContain('userId');
+
+    await closeDatabase();
+  });
+
+  it('gives tasks, categories, events and tags to the bootstrap user', async () => {
+    await initializeDatabase();
+    const db = getDatabase();
+
+    const bootstrap = await db.execute("SELECT id FROM users WHERE email = 'owner@planner.local'");
+    const bootstrapUserId = bootstrap.rows[0].id;
+
+    for (const table of ['tasks', 'categories', 'events', 'tags']) {
+      const owners = await db.execute(`SELECT DISTINCT userId FROM ${table}`);
+      expect(owners.rows.map(row => row.userId)).toEqual([bootstrapUserId]);
+    }
+
+    const links = await db.execute('SELECT taskId, tagId FROM task_tags');
+    expect(links.rows.map(row => [row.taskId, row.tagId])).toEqual([[taskId, tagId]]);
+
+    const violations = await db.execute('PRAGMA foreign_key_check');
+    expect(violations.rows).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import { updateTask } from '../models/Task';
+
+useTestDatabase();
+
+describe('Task ETags', () => {
+  let user: TestUser;
+
+  beforeEach(async () => {
+    user = await registerUser();
+  });
+
+  afterEach(() => {
+    delete process.env.REQUIRE_IF_MATCH;
+  });
+
+  const createTask = async () => {
+    const response = await api().post('/api/tasks').set(user.auth).send({ title: 'Shared task' }).expect(201);
+    return response.body.data;
+  };
+
+  it('tags task responses with the task version', async () => {
+    const task = await createTask();
+
+    const fetched = await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    expect(fetched.headers.etag).toBe(`"${task.version}"`);
+
+    const updated = await api().put(`/api/tasks/${task.id}`).set(user.auth).send({ title: 'Renamed' }).expect(200);
+    expect(updated.body.data.version).toBe(task.version + 1);
+    expect(updated.headers.etag).toBe(`"${task.version + 1}"`);
+  });
+
+  it('answers If-None-Match with 304 until the task changes', async () => {
+    const task = await createTask();
+    const { headers } = await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+
+    await api().get(`/api/tasks/${task.id}`).set(user.auth).set('If-None-Match', headers.etag).expect(304);
+
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).send({ title: 'Changed' }).expect(200);
+    const changed = await api().get(`/api/tasks/${task.id}`).set(user.auth).set('If-None-Match', headers.etag).expect(200);
+    expect(changed.body.data.title).toBe('Changed');
+  });
+
+  it('changes the tag when a subtask changes', async () => {
+    const parent = await createTask();
+    const child = (await api().post('/api/tasks').set(user.auth).send({ title: 'Child', parentId: parent.id }).expect(201)).body.data;
+    const grandchild = (await api().post('/api/tasks').set(user.auth).send({ title: 'Grandchild', parentId: child.id }).expect(201)).body.data;
+
+    const before = await api().get(`/api/tasks/${parent.id}`).set(user.auth).expect(200);
+    await api().patch(`/api/tasks/${grandchild.id}/toggle`).set(user.auth).expect(200);
+
+    const after = await api().get(`/api/tasks/${parent.id}`).set(user.auth).set('If-None-Match', before.headers.etag).expect(200);
+    expect(after.headers.etag).not.toBe(before.headers.etag);
+    expect(after.body.data.subtasks[0].subtasks[0].completed).toBe(true);
+    await api().put(`/api/tasks/${parent.id}`).set(user.auth).set('If-Match', before.headers.etag).send({ title: 'Stale' }).expect(412);
+
+    const toggled = await api().patch(`/api/tasks/${child.id}/toggle`).set(user.auth).expect(200);
+    const withProgress = await api().get(`/api/tasks/${parent.id}`).set(user.auth).set('If-None-Match', after.headers.etag).expect(200);
+    expect(withProgress.body.data.progress).toEqual({ completed: 1, total: 1 });
+
+    await api().delete(`/api/tasks/${toggled.body.data.id}`).set(user.auth).expect(200);
+    await api().get(`/api/tasks/${parent.id}`).set(user.auth).set('If-None-Match', withProgress.headers.etag).expect(200);
+  });
+
+  it('rejects writes against an outdated version with the current task', async () => {
+    const task = await createTask();
+    const staleETag = `"${task.version}"`;
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).set('If-Match', staleETag).send({ title: 'First edit' }).expect(200);
+
+    const conflict = await api().put(`/api/tasks/${task.id}`).set(user.auth).set('If-Match', staleETag)
+      .send({ title: 'Second edit' })
+      .expect(412);
+    expect(conflict.body.data).toMatchObject({ id: task.id, title: 'First edit', version: task.version + 1 });
+    expect(conflict.headers.etag).toBe(`"${task.version + 1}"`);
+
+    await api().patch(`/api/tasks/${task.id}/toggle`).set(user.auth).set('If-Match', staleETag).expect(412);
+    await api().delete(`/api/tasks/${task.id}`).set(user.auth).set('If-Match', staleETag).expect(412);
+
+    const current = await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    expect(current.body.data).toMatchObject({ title: 'First edit', completed: false });
+  });
+
+  it('accepts the current tag, a list containing it, or *', async () => {
+    const task = await createTask();
+
+    const toggled = await api().patch(`/api/tasks/${task.id}/toggle`).set(user.auth).set('If-Match', `"${task.version}"`).expect(200);
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).set('If-Match', `"0", ${toggled.headers.etag}`).send({ priority: 'high' }).expect(200);
+    await api().delete(`/api/tasks/${task.id}`).set(user.auth).set('If-Match', '*').expect(200);
+  });
+
+  it('never matches weak tags', async () => {
+    const task = await createTask();
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).set('If-Match', `W/"${task.version}"`).send({ title: 'Weak' }).expect(412);
+  });
+
+  it('requires If-Match when REQUIRE_IF_MATCH is set', async () => {
+    const task = await createTask();
+    process.env.REQUIRE_IF_MATCH = 'true';
+
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).send({ title: 'Blind write' }).expect(428);
+    await api().patch(`/api/tasks/${task.id}/toggle`).set(user.auth).expect(428);
+    await api().delete(`/api/tasks/${task.id}`).set(user.auth).expect(428);
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).set('If-Match', `"${task.version}"`).send({ title: 'Checked write' }).expect(200);
+  });
+
+  it('does not write when the version changes between the check and the update', async () => {
+    const task = await createTask();
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).send({ title: 'Meanwhile' }).expect(200);
+
+    expect(await updateTask(user.id, task.id, { title: 'Too late' }, task.version)).toBeNull();
+    const current = await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    expect(current.body.data.title).toBe('Meanwhile');
+  });
+});
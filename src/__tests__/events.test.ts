@@ -0,0 +1,124 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+
+useTestDatabase();
+
+describe('events API', () => {
+  let user: TestUser;
+
+  beforeAll(async () => {
+    user = await registerUser();
+  });
+
+  const createEvent = async (title: string, startDate: string, endDate: string, extra: Record<string, unknown> = {}) => {
+    const response = await api()
+      .post('/api/events')
+      .set(user.auth)
+      .send({ title, startDate, endDate, ...extra })
+      .expect(201);
+    return response.body.data;
+  };
+
+  it('creates an event and gets it by id', async () => {
+    const event = await createEvent('Standup', '2031-03-10T09:00:00.000Z', '2031-03-10T09:15:00.000Z', {
+      location: 'Room 1'
+    });
+    expect(event).toMatchObject({ title: 'Standup', allDay: false, location: 'Room 1' });
+
+    const fetched = await api().get(`/api/events/${event.id}`).set(user.auth).expect(200);
+    expect(fetched.body.data.id).toBe(event.id);
+  });
+
+  it('rejects events that end before they start', async () => {
+    await api()
+      .post('/api/events')
+      .set(user.auth)
+      .send({ title: 'Backwards', startDate: '2031-03-10T10:00:00.000Z', endDate: '2031-03-10T09:00:00.000Z' })
+      .expect(400);
+  });
+
+  it('returns events overlapping a range', async () => {
+    const before = await createEvent('Before', '2031-04-01T08:00:00.000Z', '2031-04-01T09:00:00.000Z');
+    const spanning = await createEvent('Spanning', '2031-04-01T23:00:00.000Z', '2031-04-02T01:00:00.000Z');
+    const inside = await createEvent('Inside', '2031-04-02T10:00:00.000Z', '2031-04-02T11:00:00.000Z');
+    await createEvent('After', '2031-04-03T10:00:00.000Z', '2031-04-03T11:00:00.000Z');
+
+    const response = await api()
+      .get('/api/events/range/2031-04-02T00:00:00.000Z/2031-04-02T23:59:59.999Z')
+      .set(user.auth)
+      .expect(200);
+
+    const ids = response.body.data.events.map((event: any) => event.id);
+    expect(ids).toEqual([spanning.id, inside.id]);
+    expect(ids).not.toContain(before.id);
+  });
+
+  it('rejects a range whose end is before its start', async () => {
+    await api()
+      .get('/api/events/range/2031-04-02T00:00:00.000Z/2031-04-01T00:00:00.000Z')
+      .set(user.auth)
+      .expect(400);
+  });
+
+  it('returns a month view', async () => {
+    const event = await createEvent('Month end', '2031-05-31T22:00:00.000Z', '2031-06-01T02:00:00.000Z');
+
+    const may = await api().get('/api/events/month/2031/5').set(user.auth).expect(200);
+    expect(may.body.data.range).toEqual({ start: '2031-05-01T00:00:00.000Z', end: '2031-05-31T23:59:59.999Z' });
+    expect(may.body.data.events.map((item: any) => item.id)).toContain(event.id);
+
+    const june = await api().get('/api/events/month/2031/6').set(user.auth).expect(200);
+    expect(june.body.data.events.map((item: any) => item.id)).toContain(event.id);
+
+    await api().get('/api/events/month/2031/13').set(user.auth).expect(400);
+  });
+
+  it("returns today's and this week's events", async () => {
+    const now = Date.now();
+    const event = await createEvent(
+      'Now',
+      new Date(now - 60 * 1000).toISOString(),
+      new Date(now + 60 * 1000).toISOString()
+    );
+
+    const today = await api().get('/api/events/filter/today').set(user.auth).expect(200);
+    expect(today.body.data.events.map((item: any) => item.id)).toContain(event.id);
+
+    const week = await api().get('/api/events/filter/week').set(user.auth).expect(200);
+    expect(week.body.data.events.map((item: any) => item.id)).toContain(event.id);
+  });
+
+  it('filters range views by category', async () => {
+    const category = await api()
+      .post('/api/categories')
+      .set(user.auth)
+      .send({ name: 'Meetings', color: '#00aa00' })
+      .expect(201);
+    const categorised = await createEvent('Review', '2031-07-01T10:00:00.000Z', '2031-07-01T11:00:00.000Z', {
+      categoryId: category.body.data.id
+    });
+    await createEvent('Lunch', '2031-07-01T12:00:00.000Z', '2031-07-01T13:00:00.000Z');
+
+    const response = await api()
+      .get('/api/events/month/2031/7')
+      .query({ categoryId: category.body.data.id })
+      .set(user.auth)
+      .expect(200);
+    expect(response.body.data.events.map((item: any) => item.id)).toEqual([categorised.id]);
+  });
+
+  it('updates and deletes events', async () => {
+    const event = await createEvent('Draft', '2031-08-01T10:00:00.000Z', '2031-08-01T11:00:00.000Z');
+
+    await api()
+      .put(`/api/events/${event.id}`)
+      .set(user.auth)
+      .send({ endDate: '2031-08-01T09:00:00.000Z' })
+      .expect(400);
+
+    const updated = await api().put(`/api/events/${event.id}`).set(user.auth).send({ title: 'Final' }).expect(200);
+    expect(updated.body.data.title).toBe('Final');
+
+    await api().delete(`/api/events/${event.id}`).set(user.auth).expect(200);
+    await api().get(`/api/events/${event.id}`).set(user.auth).expect(404);
+  });
+});
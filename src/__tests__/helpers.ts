@@ -0,0 +1,45 @@
+import request from 'supertest';
+import { existsSync, unlinkSync } from 'fs';
+import app from '../app';
+import { initializeDatabase, closeDatabase } from '../database/init';
+
+export const api = () => request(app);
+
+const getDatabasePath = (): string => (process.env.LIBSQL_URL || '').replace(/^file:/, '');
+
+/**
+ * Migrates the test file's database before its tests and removes it after
+ */
+export const useTestDatabase = (): void => {
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await closeDatabase();
+    const path = getDatabasePath();
+    [path, `${path}-journal`, `${path}-wal`, `${path}-shm`].filter(existsSync).forEach(unlinkSync);
+  });
+};
+
+export interface TestUser {
+  id: string;
+  token: string;
+  auth: { Authorization: string };
+}
+
+let userCount = 0;
+
+/**
+ * Registers a new account and returns its id and bearer token
+ */
+export const registerUser = async (): Promise<TestUser> => {
+  userCount++;
+  const response = await api()
+    .post('/api/auth/register')
+    .send({ email: `user${userCount}-${Date.now()}@example.com`, password: 'correct-horse-battery', name: `User ${userCount}` })
+    .expect(201);
+
+  const { token, user } = response.body.data;
+  return { id: user.id, token, auth: { Authorization: `Bearer ${token}` } };
+};
@@ -0,0 +1,120 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import * as Database from '../database/init';
+import * as TaskModel from '../models/Task';
+
+useTestDatabase();
+
+describe('Idempotency keys', () => {
+  let user: TestUser;
+  let keyCount = 0;
+  let key: string;
+
+  beforeEach(async () => {
+    user = await registerUser();
+    key = `retry-${++keyCount}`;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const countTasks = async (auth = user.auth): Promise<number> => {
+    const response = await api().get('/api/tasks').query({ limit: 1 }).set(auth).expect(200);
+    return response.body.data.pagination.total;
+  };
+
+  const createTask = (body: Record<string, unknown>, auth = user.auth) => {
+    return api().post('/api/tasks').set(auth).set('Idempotency-Key', key).send(body);
+  };
+
+  it('replays the first response to a repeated create instead of creating a duplicate', async () => {
+    const first = await createTask({ title: 'Buy milk' }).expect(201);
+    const repeat = await createTask({ title: 'Buy milk' }).expect(201);
+
+    expect(repeat.body).toEqual(first.body);
+    expect(repeat.headers['idempotent-replayed']).toBe('true');
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(repeat.headers.etag).toBe(first.headers.etag);
+    expect(await countTasks()).toBe(1);
+  });
+
+  it('processes requests without a key every time', async () => {
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Buy milk' }).expect(201);
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Buy milk' }).expect(201);
+
+    expect(await countTasks()).toBe(2);
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    await createTask({ title: 'Buy milk' }).expect(201);
+
+    const reused = await createTask({ title: 'Buy bread' }).expect(422);
+    expect(reused.body).toMatchObject({ success: false, error: 'Idempotency-Key has already been used for a different request' });
+    expect(await countTasks()).toBe(1);
+  });
+
+  it('keeps keys separate per user', async () => {
+    const otherUser = await registerUser();
+
+    await createTask({ title: 'Buy milk' }).expect(201);
+    await createTask({ title: 'Buy bread' }, otherUser.auth).expect(201);
+
+    expect(await countTasks(otherUser.auth)).toBe(1);
+  });
+
+  it('does not repeat updates, toggles or deletes', async () => {
+    const task = (await api().post('/api/tasks').set(user.auth).send({ title: 'Water plants' }).expect(201)).body.data;
+    const toggle = () => api().patch(`/api/tasks/${task.id}/toggle`).set(user.auth).set('Idempotency-Key', `${key}-toggle`);
+    const remove = () => api().delete(`/api/tasks/${task.id}`).set(user.auth).set('Idempotency-Key', `${key}-delete`);
+
+    await toggle().expect(200);
+    const replayed = await toggle().expect(200);
+    expect(replayed.body.data.completed).toBe(true);
+    const current = await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    expect(current.body.data).toMatchObject({ completed: true, version: task.version + 1 });
+
+    await remove().expect(200);
+    await remove().expect(200);
+    await api().delete(`/api/tasks/${task.id}`).set(user.auth).expect(404);
+  });
+
+  it('answers 409 while the first request is still being processed', async () => {
+    // The first request pauses before saving, so the repeat arrives meanwhile
+    const actualWithTransaction = Database.withTransaction;
+    jest.spyOn(Database, 'withTransaction').mockImplementation(async (...args) => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return actualWithTransaction(...args);
+    });
+
+    const first = createTask({ title: 'Buy milk' }).then(response => response);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const repeat = await createTask({ title: 'Buy milk' });
+
+    expect(repeat.status).toBe(409);
+    expect((await first).status).toBe(201);
+    expect(await countTasks()).toBe(1);
+  });
+
+  it('lets a request that failed with a server error be retried with the same key', async () => {
+    jest.spyOn(TaskModel, 'createTask').mockRejectedValueOnce(new Error('Disk full'));
+
+    await createTask({ title: 'Buy milk' }).expect(500);
+    const retried = await createTask({ title: 'Buy milk' }).expect(201);
+
+    expect(retried.headers['idempotent-replayed']).toBeUndefined();
+    expect(await countTasks()).toBe(1);
+  });
+
+  it('forgets keys once they expire', async () => {
+    await createTask({ title: 'Buy milk' }).expect(201);
+    await Database.runQuery('UPDATE idempotency_keys SET expiresAt = ? WHERE userId = ?', [new Date(Date.now() - 1000).toISOString(), user.id]);
+
+    await createTask({ title: 'Buy bread' }).expect(201);
+    expect(await countTasks()).toBe(2);
+  });
+
+  it('rejects keys that are too long', async () => {
+    await api().post('/api/tasks').set(user.auth).set('Idempotency-Key', 'k'.repeat(256)).send({ title: 'Buy milk' }).expect(400);
+    expect(await countTasks()).toBe(0);
+  });
+});
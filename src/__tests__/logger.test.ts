@@ -0,0 +1,61 @@
+import { logger, redact, redactUrl } from '../utils/logger';
+
+describe('Log redaction', () => {
+  it('replaces sensitive fields at any case, in nested objects and arrays', () => {
+    expect(redact({
+      email: 'user@example.com',
+      Password: 'hunter2',
+      headers: { Authorization: 'Bearer abc', 'content-type': 'application/json' },
+      keys: [{ name: 'Script', apiKey: 'tfk_secret' }]
+    })).toEqual({
+      email: 'user@example.com',
+      Password: '[REDACTED]',
+      headers: { Authorization: '[REDACTED]', 'content-type': 'application/json' },
+      keys: [{ name: 'Script', apiKey: '[REDACTED]' }]
+    });
+  });
+
+  it('turns errors into plain objects', () => {
+    const error = new TypeError('Broken');
+    expect(redact({ error })).toEqual({ error: { name: 'TypeError', message: 'Broken', stack: error.stack } });
+  });
+
+  it('truncates objects nested too deeply to inspect instead of logging them as they are', () => {
+    const nested = { a: { b: { c: { d: { e: { level: 6, f: { token: 'secret', g: [{ password: 'hunter2' }] } } } } } } };
+
+    const redacted = redact(nested);
+
+    expect(redacted).toEqual({ a: { b: { c: { d: { e: { level: 6, f: '[Truncated]' } } } } } });
+    expect(JSON.stringify(redacted)).not.toContain('secret');
+    expect(redact([[[[[[['deep']]]]]]])).toEqual([[[[[['[Truncated]']]]]]]);
+  });
+
+  it('masks credentials in query strings', () => {
+    expect(redactUrl('/api/tasks.ics?token=abc&completed=false')).toBe('/api/tasks.ics?token=[REDACTED]&completed=false');
+    expect(redactUrl('/api/stream?ACCESS_TOKEN=abc')).toBe('/api/stream?ACCESS_TOKEN=[REDACTED]');
+    expect(redactUrl('/api/tasks?key=abc&monkey=1')).toBe('/api/tasks?key=[REDACTED]&monkey=1');
+  });
+
+  it('writes redacted fields to the log', () => {
+    process.env.LOG_LEVEL = 'info';
+    process.env.LOG_FORMAT = 'json';
+    const lines: string[] = [];
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+      lines.push(String(chunk));
+      return true;
+    });
+
+    try {
+      logger.info('Signed in', { user: { id: 'u1', token: 'abc' } });
+      logger.debug('Not written');
+    } finally {
+      write.mockRestore();
+      process.env.LOG_LEVEL = 'silent';
+      delete process.env.LOG_FORMAT;
+    }
+
+    expect(lines).toHaveLength(1);
+    const entry = JSON.parse(lines[0]);
+    expect(entry).toMatchObject({ level: 'info', msg: 'Signed in', user: { id: 'u1', token: '[REDACTED]' } });
+  });
+});
@@ -0,0 +1,104 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+
+useTestDatabase();
+
+describe('Metrics', () => {
+  let user: TestUser;
+
+  beforeAll(async () => {
+    user = await registerUser();
+  });
+
+  afterEach(() => {
+    delete process.env.METRICS_TOKEN;
+    process.env.NODE_ENV = 'test';
+  });
+
+  const scrape = async (): Promise<string> => {
+    const response = await api().get('/metrics').expect(200);
+    return response.text;
+  };
+
+  const countRequests = async (method: string, route: string, status: number): Promise<number> => {
+    const series = `http_requests_total{method="${method}",route="${route}",status="${status}"} `;
+    const line = (await scrape()).split('\n').find(candidate => candidate.startsWith(series));
+    return line ? Number(line.slice(series.length)) : 0;
+  };
+
+  // Counts the requests `send` makes under the given labels
+  const countDuring = async (method: string, route: string, status: number, send: () => Promise<unknown>): Promise<number> => {
+    const before = await countRequests(method, route, status);
+    await send();
+    return (await countRequests(method, route, status)) - before;
+  };
+
+  it('labels requests with the route template rather than the URL', async () => {
+    const task = (await api().post('/api/tasks').set(user.auth).send({ title: 'Measured' }).expect(201)).body.data;
+
+    expect(await countDuring('GET', '/api/tasks/:id', 200, async () => {
+      await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+      await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    })).toBe(2);
+
+    expect(await countDuring('GET', '/api/tasks/:taskId/reminders', 200, async () => {
+      await api().get(`/api/tasks/${task.id}/reminders`).set(user.auth).expect(200);
+    })).toBe(1);
+
+    expect(await countDuring('GET', '/api/tasks', 200, async () => {
+      await api().get('/api/tasks').set(user.auth).expect(200);
+    })).toBe(1);
+
+    expect(await scrape()).not.toContain(task.id);
+  });
+
+  it('keeps the route template for errors raised inside the route', async () => {
+    const missingId = '00000000-0000-4000-8000-000000000000';
+
+    expect(await countDuring('GET', '/api/tasks/:id', 404, async () => {
+      await api().get(`/api/tasks/${missingId}`).set(user.auth).expect(404);
+    })).toBe(1);
+
+    expect(await countDuring('GET', '/api/tasks/:taskId/reminders', 404, async () => {
+      await api().get(`/api/tasks/${missingId}/reminders`).set(user.auth).expect(404);
+    })).toBe(1);
+
+    expect(await countDuring('POST', '/api/tasks', 400, async () => {
+      await api().post('/api/tasks').set(user.auth).send({}).expect(400);
+    })).toBe(1);
+  });
+
+  it('labels unknown paths and requests rejected before routing as unmatched', async () => {
+    expect(await countDuring('GET', 'unmatched', 404, async () => {
+      await api().get('/api/nothing-here').expect(404);
+    })).toBe(1);
+
+    expect(await countDuring('GET', 'unmatched', 401, async () => {
+      await api().get('/api/tasks').expect(401);
+    })).toBe(1);
+  });
+
+  it('records durations and task counts', async () => {
+    await api().get('/api/tasks').set(user.auth).expect(200);
+    const metrics = await scrape();
+
+    expect(metrics).toMatch(/^http_request_duration_seconds_count\{method="GET",route="\/api\/tasks",status="200"\} \d+$/m);
+    expect(metrics).toMatch(/^tasks\{completed="false",priority="medium"\} \d+$/m);
+    expect(metrics).toMatch(/^db_query_duration_seconds_count\{operation="SELECT",outcome="success"\} \d+$/m);
+  });
+
+  it('requires METRICS_TOKEN when set', async () => {
+    process.env.METRICS_TOKEN = 'scrape-secret';
+
+    await api().get('/metrics').expect(401);
+    await api().get('/metrics').set('Authorization', 'Bearer wrong-secret').expect(401);
+    await api().get('/metrics').set('Authorization', 'Bearer scrape-secret').expect(200);
+  });
+
+  it('does not serve metrics in production without METRICS_TOKEN', async () => {
+    process.env.NODE_ENV = 'production';
+    await api().get('/metrics').expect(503);
+
+    process.env.METRICS_TOKEN = 'scrape-secret';
+    await api().get('/metrics').set('Authorization', 'Bearer scrape-secret').expect(200);
+  });
+});
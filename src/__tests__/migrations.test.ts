@@ -0,0 +1,113 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { existsSync, unlinkSync } from 'fs';
+import { createClient, Client } from '@libsql/client';
+import { initializeDatabase, closeDatabase } from '../database/init';
+import { migrate, rollback, getMigrationStatus, formatMigrationName, Migration } from '../database/migrator';
+import { migrations } from '../database/migrations';
+import { useTestDatabase } from './helpers';
+
+useTestDatabase();
+
+describe('Migration runner', () => {
+  const path = join(tmpdir(), `day-planner-migrator-${randomBytes(6).toString('hex')}.db`);
+  let db: Client;
+  const latestVersion = migrations[migrations.length - 1].version;
+
+  // A migration that fails after making a change, which must not survive
+  const brokenMigration: Migration = {
+    version: latestVersion + 1,
+    name: 'broken',
+    up: async (tx) => {
+      await tx.execute('CREATE TABLE half_done (id TEXT)');
+      throw new Error('no such column: missing');
+    },
+    down: async () => {}
+  };
+
+  const tableExists = async (name: string): Promise<boolean> => {
+    const result = await db.execute({ sql: "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?", args: [name] });
+    return result.rows.length > 0;
+  };
+
+  const appliedVersions = async (): Promise<number[]> => {
+    const result = await db.execute('SELECT version FROM schema_migrations ORDER BY version');
+    return result.rows.map(row => Number(row.version));
+  };
+
+  beforeAll(async () => {
+    db = createClient({ url: `file:${path}` });
+    await db.execute('PRAGMA foreign_keys = ON');
+  });
+
+  afterAll(() => {
+    db.close();
+    [path, `${path}-journal`].filter(existsSync).forEach(unlinkSync);
+  });
+
+  afterEach(() => {
+    const index = migrations.indexOf(brokenMigration);
+    if (index !== -1) {
+      migrations.splice(index, 1);
+    }
+  });
+
+  it('applies migrations in order up to a target version and records each one', async () => {
+    expect((await migrate(db, 2)).map(migration => migration.version)).toEqual([1, 2]);
+    expect(await appliedVersions()).toEqual([1, 2]);
+
+    const applied = await migrate(db);
+    expect(applied.map(migration => migration.version)).toEqual(migrations.slice(2).map(migration => migration.version));
+    expect(await migrate(db)).toEqual([]);
+
+    const status = await getMigrationStatus(db);
+    expect(status.map(migration => migration.version)).toEqual(migrations.map(migration => migration.version));
+    expect(status.every(migration => migration.appliedAt)).toBe(true);
+  });
+
+  it('rolls every migration back and forward again', async () => {
+    const reverted = await rollback(db, migrations.length);
+    expect(reverted.map(migration => migration.version)).toEqual(migrations.map(migration => migration.version).reverse());
+    expect(await appliedVersions()).toEqual([]);
+    expect(await tableExists('tasks')).toBe(false);
+
+    await migrate(db);
+    expect(await appliedVersions()).toEqual(migrations.map(migration => migration.version));
+    expect(await tableExists('tasks')).toBe(true);
+  });
+
+  it('rolls a failed migration back entirely and reports it', async () => {
+    migrations.push(brokenMigration);
+
+    await expect(migrate(db)).rejects.toThrow(`Migration ${formatMigrationName(brokenMigration)} failed: no such column: missing`);
+
+    expect(await tableExists('half_done')).toBe(false);
+    expect(await appliedVersions()).not.toContain(brokenMigration.version);
+    const status = await getMigrationStatus(db);
+    expect(status[status.length - 1]).toEqual({ version: brokenMigration.version, name: 'broken', appliedAt: undefined });
+  });
+
+  it('refuses a database with migrations this build does not know about', async () => {
+    await db.execute({
+      sql: 'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)',
+      args: [latestVersion + 50, 'from_the_future', new Date().toISOString()]
+    });
+
+    try {
+      await expect(migrate(db)).rejects.toThrow(/does not know about \(\d+\)/);
+      await expect(rollback(db)).rejects.toThrow(/not part of this build/);
+      const status = await getMigrationStatus(db);
+      expect(status[status.length - 1]).toMatchObject({ version: latestVersion + 50, unknown: true });
+    } finally {
+      await db.execute({ sql: 'DELETE FROM schema_migrations WHERE version = ?', args: [latestVersion + 50] });
+    }
+  });
+
+  it('fails startup when a migration fails', async () => {
+    migrations.push(brokenMigration);
+
+    await closeDatabase();
+    await expect(initializeDatabase()).rejects.toThrow(/Migration \d+_broken failed/);
+  });
+});
@@ -0,0 +1,70 @@
+import express from 'express';
+import app from '../app';
+import { api } from './helpers';
+import { documentedRouters } from '../openapi';
+import { findUndocumentedRoutes } from '../openapi/document';
+
+/**
+ * Routers mounted on the app with app.use, and the paths they match
+ */
+const getMountedRouters = (): { router: express.Router; regexp: RegExp }[] => {
+  const stack: any[] = (app as any)._router.stack;
+  return stack
+    .filter(layer => layer.name === 'router')
+    .map(layer => ({ router: layer.handle, regexp: layer.regexp }));
+};
+
+describe('OpenAPI document', () => {
+  it('documents every router the app mounts, at its mount path', () => {
+    const mounted = getMountedRouters();
+    expect(mounted.length).toBeGreaterThan(10);
+
+    const undocumented = mounted
+      .filter(({ router, regexp }) => !documentedRouters.some(docs => docs.router === router && regexp.test(docs.basePath)))
+      .map(({ regexp }) => String(regexp));
+    expect(undocumented).toEqual([]);
+
+    const unmounted = documentedRouters
+      .filter(docs => !mounted.some(({ router }) => router === docs.router))
+      .map(docs => docs.basePath);
+    expect(unmounted).toEqual([]);
+  });
+
+  it('has an operation for every route and a route for every operation', () => {
+    expect(findUndocumentedRoutes(documentedRouters)).toEqual({ undocumented: [], stale: [] });
+  });
+
+  it('serves the document with parameters and bodies from the validation schemas', async () => {
+    const response = await api().get('/api/openapi.json').expect(200);
+    const { paths } = response.body;
+
+    expect(response.body.openapi).toBe('3.0.3');
+    expect(Object.keys(paths)).toEqual(expect.arrayContaining([
+      '/api/auth/login',
+      '/api/tasks/{id}',
+      '/api/tasks/{taskId}/reminders/{id}',
+      '/api/categories/{id}/force',
+      '/api/events/month/{year}/{month}',
+      '/api/tasks.ics',
+      '/api/health/ready',
+      '/metrics'
+    ]));
+
+    const createTask = paths['/api/tasks'].post;
+    expect(createTask.requestBody.content['application/json'].schema.properties.title).toBeDefined();
+    expect(createTask.responses['429']).toBeDefined();
+    expect(paths['/metrics'].get.responses['429']).toBeUndefined();
+    expect(paths['/api/health/ready'].get.responses['429']).toBeUndefined();
+
+    const reminderParameters = paths['/api/tasks/{taskId}/reminders/{id}'].delete.parameters;
+    expect(reminderParameters.map((parameter: any) => `${parameter.in}:${parameter.name}`)).toEqual(['path:taskId', 'path:id']);
+
+    expect(paths['/api/auth/login'].post.security).toEqual([]);
+    expect(paths['/api/keys'].get.security).toBeUndefined();
+  });
+
+  it('serves the reference page', async () => {
+    const response = await api().get('/api/docs').expect(200);
+    expect(response.headers['content-type']).toMatch(/text\/html/);
+  });
+});
@@ -0,0 +1,75 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+
+useTestDatabase();
+
+describe('category and event ownership', () => {
+  let alice: TestUser;
+  let bob: TestUser;
+
+  beforeAll(async () => {
+    alice = await registerUser();
+    bob = await registerUser();
+  });
+
+  const createCategory = async (user: TestUser, name: string) => {
+    const response = await api().post('/api/categories').set(user.auth).send({ name, color: '#123456' }).expect(201);
+    return response.body.data;
+  };
+
+  it("hides other users' categories", async () => {
+    const category = await createCategory(alice, 'Private');
+    await api().post('/api/tasks').set(alice.auth).send({ title: 'Secret', categoryId: category.id }).expect(201);
+
+    const list = await api().get('/api/categories').set(bob.auth).expect(200);
+    expect(list.body.data.map((item: any) => item.id)).not.toContain(category.id);
+
+    await api().get(`/api/categories/${category.id}`).set(bob.auth).expect(404);
+    await api().get(`/api/categories/${category.id}/usage`).set(bob.auth).expect(404);
+    await api().put(`/api/categories/${category.id}`).set(bob.auth).send({ name: 'Mine' }).expect(404);
+    await api().delete(`/api/categories/${category.id}`).set(bob.auth).expect(404);
+    await api().delete(`/api/categories/${category.id}/force`).set(bob.auth).expect(404);
+
+    const summary = await api().get('/api/categories/stats/summary').set(bob.auth).expect(200);
+    expect(summary.body.data.usage.map((item: any) => item.categoryId)).not.toContain(category.id);
+
+    const usage = await api().get(`/api/categories/${category.id}/usage`).set(alice.auth).expect(200);
+    expect(usage.body.data.taskCount).toBe(1);
+  });
+
+  it('makes category names unique per user', async () => {
+    await createCategory(alice, 'Shared name');
+    await createCategory(bob, 'Shared name');
+    await api().post('/api/categories').set(alice.auth).send({ name: 'Shared name', color: '#123456' }).expect(409);
+  });
+
+  it("refuses to file tasks and events under another user's category", async () => {
+    const category = await createCategory(alice, 'Work');
+
+    await api().post('/api/tasks').set(bob.auth).send({ title: 'Sneaky', categoryId: category.id }).expect(400);
+    await api()
+      .post('/api/events')
+      .set(bob.auth)
+      .send({ title: 'Sneaky', startDate: '2031-01-01T10:00:00.000Z', endDate: '2031-01-01T11:00:00.000Z', categoryId: category.id })
+      .expect(400);
+  });
+
+  it("hides other users' events", async () => {
+    const created = await api()
+      .post('/api/events')
+      .set(alice.auth)
+      .send({ title: 'Doctor', startDate: '2031-02-01T10:00:00.000Z', endDate: '2031-02-01T11:00:00.000Z' })
+      .expect(201);
+    const event = created.body.data;
+
+    const list = await api().get('/api/events').set(bob.auth).expect(200);
+    expect(list.body.data.items).toEqual([]);
+
+    const month = await api().get('/api/events/month/2031/2').set(bob.auth).expect(200);
+    expect(month.body.data.events).toEqual([]);
+
+    await api().get(`/api/events/${event.id}`).set(bob.auth).expect(404);
+    await api().put(`/api/events/${event.id}`).set(bob.auth).send({ title: 'Mine' }).expect(404);
+    await api().delete(`/api/events/${event.id}`).set(bob.auth).expect(404);
+    await api().get(`/api/events/${event.id}`).set(alice.auth).expect(200);
+  });
+});
@@ -0,0 +1,118 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import { encodeCursor } from '../utils/pagination';
+
+useTestDatabase();
+
+describe('Task cursor pagination', () => {
+  let user: TestUser;
+
+  beforeAll(async () => {
+    user = await registerUser();
+
+    // Repeated priorities, titles and missing due dates make sure ties are
+    // broken by id
+    const priorities = ['low', 'medium', 'high'];
+    for (let index = 0; index < 11; index++) {
+      const task = await api().post('/api/tasks').set(user.auth).send({
+        title: `Task ${index % 4}`,
+        priority: priorities[index % 3],
+        dueDate: index % 2 === 0 ? `2031-01-0${1 + (index % 5)}T09:00:00.000Z` : undefined
+      }).expect(201);
+      if (index % 3 === 0) {
+        await api().patch(`/api/tasks/${task.body.data.id}/toggle`).set(user.auth).expect(200);
+      }
+    }
+  });
+
+  const listTasks = async (query: Record<string, unknown>) => {
+    const response = await api().get('/api/tasks').query(query).set(user.auth).expect(200);
+    return response.body.data;
+  };
+
+  const idsOf = (page: { items: { id: string }[] }) => page.items.map(task => task.id);
+
+  // Follows nextCursor from the first page to the last, passing the same
+  // filters each time
+  const walkForward = async (query: Record<string, unknown>, limit: number): Promise<string[]> => {
+    let page = await listTasks({ ...query, limit });
+    const ids = idsOf(page);
+    while (page.pagination.nextCursor) {
+      page = await listTasks({ ...query, limit, cursor: page.pagination.nextCursor });
+      ids.push(...idsOf(page));
+    }
+    return ids;
+  };
+
+  it.each([
+    ['title', 'asc'],
+    ['priority', 'desc'],
+    ['dueDate', 'asc'],
+    ['dueDate', 'desc'],
+    ['completed', 'asc'],
+    ['createdAt', 'desc'],
+    ['updatedAt', 'asc']
+  ])('visits every task once when sorted by %s %s', async (sortBy, sortOrder) => {
+    const all = idsOf(await listTasks({ sortBy, sortOrder, limit: 100 }));
+    expect(all).toHaveLength(11);
+
+    expect(await walkForward({ sortBy, sortOrder }, 3)).toEqual(all);
+  });
+
+  it('goes back with prevCursor', async () => {
+    const first = await listTasks({ sortBy: 'priority', limit: 4 });
+    const second = await listTasks({ limit: 4, cursor: first.pagination.nextCursor });
+    expect(second.pagination).toMatchObject({ limit: 4, total: 11, hasNextPage: true, hasPrevPage: true });
+
+    const back = await listTasks({ limit: 4, cursor: second.pagination.prevCursor });
+    expect(idsOf(back)).toEqual(idsOf(first));
+    expect(back.pagination.hasPrevPage).toBe(false);
+  });
+
+  it('neither skips nor repeats tasks added or removed between pages', async () => {
+    const first = await listTasks({ sortBy: 'createdAt', sortOrder: 'asc', limit: 5 });
+
+    // A task that would shift offset-based pages, and one already seen removed
+    const added = await api().post('/api/tasks').set(user.auth).send({ title: 'Added while paging' }).expect(201);
+    await api().delete(`/api/tasks/${first.items[0].id}`).set(user.auth).expect(200);
+
+    try {
+      const rest = [];
+      let page = await listTasks({ limit: 5, cursor: first.pagination.nextCursor });
+      rest.push(...idsOf(page));
+      while (page.pagination.nextCursor) {
+        page = await listTasks({ limit: 5, cursor: page.pagination.nextCursor });
+        rest.push(...idsOf(page));
+      }
+
+      expect(rest).toHaveLength(7);
+      expect(rest.filter(id => idsOf(first).includes(id))).toEqual([]);
+      expect(rest[rest.length - 1]).toBe(added.body.data.id);
+    } finally {
+      await api().post(`/api/tasks/${first.items[0].id}/restore`).set(user.auth).expect(200);
+      await api().delete(`/api/tasks/${added.body.data.id}`).set(user.auth).expect(200);
+    }
+  });
+
+  it('keeps filters across pages', async () => {
+    const highPriority = idsOf(await listTasks({ priority: 'high', limit: 100 }));
+    expect(await walkForward({ priority: 'high' }, 2)).toEqual(highPriority);
+  });
+
+  it('keeps page mode and hands out cursors from it', async () => {
+    const second = await listTasks({ page: 2, limit: 4 });
+    expect(second.pagination).toMatchObject({ page: 2, limit: 4, total: 11, totalPages: 3, hasNextPage: true, hasPrevPage: true });
+
+    const third = await listTasks({ limit: 4, cursor: second.pagination.nextCursor });
+    expect(idsOf(third)).toEqual(idsOf(await listTasks({ page: 3, limit: 4 })));
+  });
+
+  it('rejects cursors it did not create', async () => {
+    await api().get('/api/tasks').query({ cursor: 'not-a-cursor' }).set(user.auth).expect(400);
+
+    const injected = encodeCursor({ sortBy: 'title; DROP TABLE tasks', sortOrder: 'asc', value: 'a', id: 'x', direction: 'next' });
+    await api().get('/api/tasks').query({ cursor: injected }).set(user.auth).expect(400);
+
+    const badDirection = encodeCursor({ sortBy: 'title', sortOrder: 'asc', value: 'a', id: 'x', direction: 'sideways' });
+    await api().get('/api/tasks').query({ cursor: badDirection }).set(user.auth).expect(400);
+  });
+});
@@ -0,0 +1,150 @@
+import app from '../app';
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+
+useTestDatabase();
+
+describe('Rate limiting', () => {
+  let clientCount = 0;
+  let clientIp: string;
+
+  beforeAll(() => {
+    // Lets each test send requests from its own client IP
+    app.set('trust proxy', true);
+  });
+
+  afterAll(() => {
+    app.set('trust proxy', false);
+  });
+
+  beforeEach(() => {
+    clientIp = `203.0.113.${++clientCount}`;
+  });
+
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_READS_PER_MINUTE;
+    delete process.env.RATE_LIMIT_WRITES_PER_MINUTE;
+    delete process.env.RATE_LIMIT_EXPORTS_PER_MINUTE;
+    process.env.RATE_LIMIT_ENABLED = 'false';
+  });
+
+  const enableRateLimits = (limits: { reads?: number; writes?: number; exports?: number }) => {
+    process.env.RATE_LIMIT_ENABLED = 'true';
+    process.env.RATE_LIMIT_READS_PER_MINUTE = String(limits.reads ?? 1000);
+    process.env.RATE_LIMIT_WRITES_PER_MINUTE = String(limits.writes ?? 1000);
+    process.env.RATE_LIMIT_EXPORTS_PER_MINUTE = String(limits.exports ?? 1000);
+  };
+
+  const listTasks = (auth: { Authorization: string }, ip = clientIp) => {
+    return api().get('/api/tasks').set('X-Forwarded-For', ip).set(auth);
+  };
+
+  it('limits requests per client IP and answers 429 with Retry-After', async () => {
+    enableRateLimits({ writes: 2 });
+    const login = () => api().post('/api/auth/login').set('X-Forwarded-For', clientIp)
+      .send({ email: 'nobody@example.com', password: 'wrong-password' });
+
+    const first = await login().expect(401);
+    expect(first.headers['ratelimit-limit']).toBe('2');
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+    expect(first.headers['ratelimit-policy']).toBe('2;w=60');
+    await login().expect(401);
+
+    const limited = await login().expect(429);
+    expect(limited.body).toEqual({
+      success: false,
+      error: 'Too many requests',
+      message: expect.stringMatching(/^Rate limit of 2 write requests per minute exceeded; retry in \d+ seconds?$/)
+    });
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+
+    await api().post('/api/auth/login').set('X-Forwarded-For', '198.51.100.1')
+      .send({ email: 'nobody@example.com', password: 'wrong-password' })
+      .expect(401);
+  });
+
+  it('checks the IP bucket before authenticating', async () => {
+    enableRateLimits({ reads: 2 });
+
+    // Invalid credentials count against the IP, however many are tried
+    await listTasks({ Authorization: 'Bearer forged-1' }).expect(401);
+    await listTasks({ Authorization: 'Bearer forged-2' }).expect(401);
+    await listTasks({ Authorization: 'Bearer forged-3' }).expect(429);
+  });
+
+  it('shares one bucket between every login session of a user, whatever their IP', async () => {
+    const credentials = { email: `sessions-${Date.now()}@example.com`, password: 'correct-horse-battery' };
+    const registered = await api().post('/api/auth/register').send({ ...credentials, name: 'Sessions' }).expect(201);
+    const first = { Authorization: `Bearer ${registered.body.data.token}` };
+    // Tokens signed in the same second are identical
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    const loggedIn = await api().post('/api/auth/login').send(credentials).expect(200);
+    const second = { Authorization: `Bearer ${loggedIn.body.data.token}` };
+    expect(second.Authorization).not.toBe(first.Authorization);
+
+    enableRateLimits({ reads: 3 });
+    await listTasks(first, '198.51.100.10').expect(200);
+    await listTasks(second, '198.51.100.11').expect(200);
+    await listTasks(first, '198.51.100.12').expect(200);
+
+    const limited = await listTasks(second, '198.51.100.13').expect(429);
+    expect(limited.headers['ratelimit-remaining']).toBe('0');
+
+    // Another user from one of the same IPs is unaffected
+    const other = await registerUser();
+    await listTasks(other.auth, '198.51.100.10').expect(200);
+  });
+
+  it('gives each API key its own bucket', async () => {
+    const user: TestUser = await registerUser();
+    const createKey = async (name: string) => {
+      const response = await api().post('/api/keys').set(user.auth).send({ name, scopes: ['tasks:read'] }).expect(201);
+      return { Authorization: `Bearer ${response.body.data.key}` };
+    };
+    const firstKey = await createKey('First script');
+    const secondKey = await createKey('Second script');
+
+    enableRateLimits({ reads: 2 });
+    await listTasks(firstKey, '198.51.100.20').expect(200);
+    await listTasks(firstKey, '198.51.100.21').expect(200);
+    await listTasks(firstKey, '198.51.100.22').expect(429);
+
+    await listTasks(secondKey, '198.51.100.23').expect(200);
+    await listTasks(user.auth, '198.51.100.24').expect(200);
+  });
+
+  it('counts exports in addition to reads', async () => {
+    const user = await registerUser();
+    enableRateLimits({ exports: 1 });
+
+    await api().get('/api/tasks/export.csv').set('X-Forwarded-For', clientIp).set(user.auth).expect(200);
+    const limited = await api().get('/api/tasks/export.ndjson').set('X-Forwarded-For', '198.51.100.30').set(user.auth).expect(429);
+    expect(limited.body.message).toMatch(/^Rate limit of 1 export requests per minute exceeded/);
+
+    await listTasks(user.auth).expect(200);
+  });
+
+  it('never limits health probes', async () => {
+    enableRateLimits({ reads: 1 });
+
+    for (let index = 0; index < 3; index++) {
+      const response = await api().get('/api/health/live').set('X-Forwarded-For', clientIp).expect(200);
+      expect(response.headers['ratelimit-limit']).toBeUndefined();
+    }
+    await api().get('/api/health/ready').set('X-Forwarded-For', clientIp).expect(200);
+  });
+
+  it('can be switched off per group or entirely', async () => {
+    const user = await registerUser();
+
+    enableRateLimits({ reads: 0 });
+    for (let index = 0; index < 3; index++) {
+      const response = await listTasks(user.auth).expect(200);
+      expect(response.headers['ratelimit-limit']).toBeUndefined();
+    }
+
+    process.env.RATE_LIMIT_READS_PER_MINUTE = '1';
+    process.env.RATE_LIMIT_ENABLED = 'false';
+    await listTasks(user.auth).expect(200);
+    await listTasks(user.auth).expect(200);
+  });
+});
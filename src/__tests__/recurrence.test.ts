@@ -0,0 +1,126 @@
+import { getNextOccurrence, expandOccurrences, isWithinLimits } from '../utils/recurrence';
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+
+describe('recurrence rules', () => {
+  const next = (rule: Parameters<typeof getNextOccurrence>[0], date: string) =>
+    getNextOccurrence(rule, new Date(date))?.toISOString();
+
+  it('steps daily, weekly, monthly and yearly rules by their interval', () => {
+    expect(next({ frequency: 'daily', interval: 2 }, '2031-01-01T09:00:00.000Z')).toBe('2031-01-03T09:00:00.000Z');
+    expect(next({ frequency: 'weekly' }, '2031-01-01T09:00:00.000Z')).toBe('2031-01-08T09:00:00.000Z');
+    expect(next({ frequency: 'monthly', interval: 3 }, '2031-01-15T09:00:00.000Z')).toBe('2031-04-15T09:00:00.000Z');
+    expect(next({ frequency: 'yearly' }, '2031-06-01T09:00:00.000Z')).toBe('2032-06-01T09:00:00.000Z');
+  });
+
+  it('only picks the listed weekdays', () => {
+    // 2031-01-03 is a Friday
+    const rule = { frequency: 'weekly' as const, byWeekday: ['MO' as const, 'FR' as const] };
+    expect(next(rule, '2031-01-03T09:00:00.000Z')).toBe('2031-01-06T09:00:00.000Z');
+    expect(next(rule, '2031-01-06T09:00:00.000Z')).toBe('2031-01-10T09:00:00.000Z');
+
+    const everyOtherWeek = { ...rule, interval: 2 };
+    expect(next(everyOtherWeek, '2031-01-03T09:00:00.000Z')).toBe('2031-01-13T09:00:00.000Z');
+  });
+
+  it('skips months without the anchor day', () => {
+    expect(next({ frequency: 'monthly' }, '2031-01-31T09:00:00.000Z')).toBe('2031-03-31T09:00:00.000Z');
+    expect(next({ frequency: 'yearly' }, '2032-02-29T09:00:00.000Z')).toBe('2036-02-29T09:00:00.000Z');
+  });
+
+  it('honours count and until limits', () => {
+    expect(isWithinLimits({ frequency: 'daily', count: 3 }, 3, new Date())).toBe(true);
+    expect(isWithinLimits({ frequency: 'daily', count: 3 }, 4, new Date())).toBe(false);
+
+    const until = { frequency: 'daily' as const, until: '2031-01-03T09:00:00.000Z' };
+    const occurrences = expandOccurrences(
+      until,
+      new Date('2031-01-01T09:00:00.000Z'),
+      1,
+      new Date('2031-01-01T00:00:00.000Z'),
+      new Date('2031-02-01T00:00:00.000Z')
+    );
+    expect(occurrences.map(occurrence => occurrence.dueDate)).toEqual([
+      '2031-01-01T09:00:00.000Z',
+      '2031-01-02T09:00:00.000Z',
+      '2031-01-03T09:00:00.000Z'
+    ]);
+  });
+
+  it('expands only the occurrences inside the window', () => {
+    const occurrences = expandOccurrences(
+      { frequency: 'weekly', count: 10 },
+      new Date('2031-01-01T09:00:00.000Z'),
+      1,
+      new Date('2031-01-10T00:00:00.000Z'),
+      new Date('2031-01-31T00:00:00.000Z')
+    );
+    expect(occurrences).toEqual([
+      { index: 3, dueDate: '2031-01-15T09:00:00.000Z' },
+      { index: 4, dueDate: '2031-01-22T09:00:00.000Z' },
+      { index: 5, dueDate: '2031-01-29T09:00:00.000Z' }
+    ]);
+  });
+});
+
+describe('recurring tasks API', () => {
+  useTestDatabase();
+
+  let user: TestUser;
+
+  beforeAll(async () => {
+    user = await registerUser();
+  });
+
+  it('requires a due date for recurring tasks', async () => {
+    await api()
+      .post('/api/tasks')
+      .set(user.auth)
+      .send({ title: 'Weekly review', recurrence: { frequency: 'weekly' } })
+      .expect(400);
+  });
+
+  it('spawns the next occurrence when a recurring task is completed', async () => {
+    const created = await api()
+      .post('/api/tasks')
+      .set(user.auth)
+      .send({ title: 'Pay rent', dueDate: '2031-01-01T09:00:00.000Z', recurrence: { frequency: 'monthly', count: 2 } })
+      .expect(201);
+    const task = created.body.data;
+
+    const toggled = await api().patch(`/api/tasks/${task.id}/toggle`).set(user.auth).expect(200);
+    expect(toggled.body.data.completed).toBe(true);
+    expect(toggled.body.data.nextOccurrenceId).toBeDefined();
+
+    const nextTask = await api().get(`/api/tasks/${toggled.body.data.nextOccurrenceId}`).set(user.auth).expect(200);
+    expect(nextTask.body.data).toMatchObject({
+      title: 'Pay rent',
+      completed: false,
+      dueDate: '2031-02-01T09:00:00.000Z',
+      occurrenceIndex: 2
+    });
+
+    // The second occurrence is the last one allowed by the count
+    const last = await api().patch(`/api/tasks/${nextTask.body.data.id}/toggle`).set(user.auth).expect(200);
+    expect(last.body.data.nextOccurrenceId).toBeUndefined();
+  });
+
+  it('expands occurrences within a date window', async () => {
+    const created = await api()
+      .post('/api/tasks')
+      .set(user.auth)
+      .send({ title: 'Standup', dueDate: '2031-03-03T09:00:00.000Z', recurrence: { frequency: 'daily', byWeekday: ['MO', 'WE'] } })
+      .expect(201);
+
+    const response = await api()
+      .get(`/api/tasks/${created.body.data.id}/occurrences`)
+      .query({ from: '2031-03-01T00:00:00.000Z', to: '2031-03-10T23:59:59.999Z' })
+      .set(user.auth)
+      .expect(200);
+
+    expect(response.body.data.occurrences.map((occurrence: any) => occurrence.dueDate)).toEqual([
+      '2031-03-03T09:00:00.000Z',
+      '2031-03-05T09:00:00.000Z',
+      '2031-03-10T09:00:00.000Z'
+    ]);
+  });
+});
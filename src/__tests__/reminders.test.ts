@@ -0,0 +1,214 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import { processDueReminders } from '../utils/reminderScheduler';
+import { registerReminderChannel, ReminderNotification } from '../utils/reminderChannels';
+import { claimReminder } from '../models/Reminder';
+
+useTestDatabase();
+
+/**
+ * Minimal SMTP receiver standing in for a mail server; collects the DATA of
+ * each message
+ */
+const startSmtpServer = async (): Promise<{ server: net.Server; messages: string[] }> => {
+  const messages: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 test.local ESMTP\r\n');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let lineEnd: number;
+      while ((lineEnd = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 OK\r\n');
+          } else {
+            messages[messages.length - 1] += `${line}\n`;
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250 test.local\r\n');
+        } else if (/^DATA/i.test(line)) {
+          inData = true;
+          messages.push('');
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, messages };
+};
+
+describe('Reminders', () => {
+  let user: TestUser;
+  const notified: ReminderNotification[] = [];
+  let failNext = false;
+
+  beforeAll(() => {
+    registerReminderChannel('test', async notification => {
+      if (failNext) {
+        failNext = false;
+        throw new Error('Channel is down');
+      }
+      notified.push(notification);
+    });
+  });
+
+  beforeEach(async () => {
+    user = await registerUser();
+    notified.length = 0;
+  });
+
+  const createTask = async (fields: Record<string, unknown> = {}) => {
+    const response = await api().post('/api/tasks').set(user.auth).send({ title: 'Call the dentist', ...fields }).expect(201);
+    return response.body.data;
+  };
+
+  const listReminders = async (taskId: string) => {
+    const response = await api().get(`/api/tasks/${taskId}/reminders`).set(user.auth).expect(200);
+    return response.body.data;
+  };
+
+  const inMinutes = (minutes: number): string => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+  it('schedules reminders at a time or before the due date', async () => {
+    const dueDate = inMinutes(120);
+    const task = await createTask({ dueDate });
+
+    await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ remindAt: inMinutes(90) }).expect(201);
+    const offset = await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ offsetMinutes: 60 }).expect(201);
+    expect(offset.body.data).toMatchObject({ offsetMinutes: 60, channel: 'log', status: 'pending' });
+    expect(offset.body.data.remindAt).toBe(new Date(new Date(dueDate).getTime() - 60 * 60 * 1000).toISOString());
+
+    const reminders = await listReminders(task.id);
+    expect(reminders.map((reminder: any) => reminder.offsetMinutes ?? null)).toEqual([60, null]);
+  });
+
+  it('rejects offsets without a due date and unknown channels', async () => {
+    const task = await createTask();
+
+    await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ offsetMinutes: 10 }).expect(400);
+    const unknown = await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth)
+      .send({ remindAt: inMinutes(5), channel: 'pager' })
+      .expect(400);
+    expect(unknown.body.error).toMatch(/Available channels: .*log/);
+    await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth)
+      .send({ remindAt: inMinutes(5), offsetMinutes: 5 })
+      .expect(400);
+  });
+
+  it('moves offset reminders when the due date changes', async () => {
+    const task = await createTask({ dueDate: inMinutes(120) });
+    await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ offsetMinutes: 30 }).expect(201);
+
+    const newDueDate = inMinutes(600);
+    await api().put(`/api/tasks/${task.id}`).set(user.auth).send({ dueDate: newDueDate }).expect(200);
+
+    const [reminder] = await listReminders(task.id);
+    expect(reminder.remindAt).toBe(new Date(new Date(newDueDate).getTime() - 30 * 60 * 1000).toISOString());
+  });
+
+  it('fires due reminders exactly once through their channel', async () => {
+    const task = await createTask();
+    await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ remindAt: inMinutes(-1), channel: 'test' }).expect(201);
+    await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ remindAt: inMinutes(60), channel: 'test' }).expect(201);
+
+    expect(await processDueReminders()).toBe(1);
+    expect(await processDueReminders()).toBe(0);
+
+    expect(notified).toHaveLength(1);
+    expect(notified[0]).toMatchObject({ userId: user.id, task: { id: task.id } });
+
+    const reminders = await listReminders(task.id);
+    expect(reminders.map((reminder: any) => reminder.status)).toEqual(['fired', 'pending']);
+    expect(reminders[0].firedAt).toBeDefined();
+  });
+
+  it('lets only one scheduler claim a reminder', async () => {
+    const task = await createTask();
+    const created = await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth)
+      .send({ remindAt: inMinutes(-1), channel: 'test' })
+      .expect(201);
+
+    // A scheduler in another process got there first
+    expect(await claimReminder(created.body.data.id, 'fired')).toBe(true);
+    expect(await claimReminder(created.body.data.id, 'fired')).toBe(false);
+
+    await processDueReminders();
+    expect(notified).toHaveLength(0);
+  });
+
+  it('skips reminders for completed tasks', async () => {
+    const task = await createTask();
+    await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ remindAt: inMinutes(-1), channel: 'test' }).expect(201);
+    await api().patch(`/api/tasks/${task.id}/toggle`).set(user.auth).expect(200);
+
+    await processDueReminders();
+
+    expect(notified).toHaveLength(0);
+    expect((await listReminders(task.id))[0].status).toBe('skipped');
+  });
+
+  it('holds reminders of trashed tasks until the task is restored', async () => {
+    const task = await createTask();
+    await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ remindAt: inMinutes(-1), channel: 'test' }).expect(201);
+    await api().delete(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+
+    expect(await processDueReminders()).toBe(0);
+    expect(notified).toHaveLength(0);
+
+    await api().post(`/api/tasks/${task.id}/restore`).set(user.auth).expect(200);
+    expect((await listReminders(task.id))[0].status).toBe('pending');
+    expect(await processDueReminders()).toBe(1);
+    expect(notified).toHaveLength(1);
+  });
+
+  it('records channel failures', async () => {
+    const task = await createTask();
+    await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ remindAt: inMinutes(-1), channel: 'test' }).expect(201);
+    await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ remindAt: inMinutes(-1), channel: 'webhook' }).expect(201);
+    failNext = true;
+
+    await processDueReminders();
+
+    const reminders = await listReminders(task.id);
+    expect(reminders.map((reminder: any) => [reminder.channel, reminder.status, reminder.error])).toEqual(expect.arrayContaining([
+      ['test', 'failed', 'Channel is down'],
+      ['webhook', 'failed', 'No active webhook subscribes to task.reminder']
+    ]));
+  });
+
+  it('sends email reminders over SMTP', async () => {
+    const { server, messages } = await startSmtpServer();
+    process.env.SMTP_HOST = '127.0.0.1';
+    process.env.SMTP_PORT = String((server.address() as AddressInfo).port);
+
+    try {
+      const task = await createTask({ title: 'Renew passport', priority: 'high' });
+      await api().post(`/api/tasks/${task.id}/reminders`).set(user.auth).send({ remindAt: inMinutes(-1), channel: 'email' }).expect(201);
+
+      expect(await processDueReminders()).toBe(1);
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatch(/Subject: Reminder: Renew passport/);
+      expect(messages[0]).toMatch(/Priority: high/);
+      expect((await listReminders(task.id))[0].status).toBe('fired');
+    } finally {
+      delete process.env.SMTP_HOST;
+      delete process.env.SMTP_PORT;
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { buildFtsQuery, formatHighlight, MATCH_START, MATCH_END } from '../utils/search';
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+
+describe('buildFtsQuery', () => {
+  it('quotes words, phrases and prefixes', () => {
+    expect(buildFtsQuery('dentist appointment')).toBe('"dentist" "appointment"');
+    expect(buildFtsQuery('"dentist appointment"')).toBe('"dentist appointment"');
+    expect(buildFtsQuery('dent*')).toBe('"dent"*');
+  });
+
+  it('treats FTS5 operators as plain text', () => {
+    expect(buildFtsQuery('title:x OR NEAR(')).toBe('"title:x" "OR" "NEAR("');
+    expect(buildFtsQuery('" * "')).toBeNull();
+  });
+});
+
+describe('formatHighlight', () => {
+  it('escapes the text and only turns match markers into <mark> tags', () => {
+    expect(formatHighlight(`<img src=x onerror="alert(1)"> ${MATCH_START}dentist${MATCH_END} & co`))
+      .toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>dentist</mark> &amp; co');
+  });
+});
+
+describe('task search API', () => {
+  useTestDatabase();
+
+  let user: TestUser;
+
+  beforeAll(async () => {
+    user = await registerUser();
+  });
+
+  const createTask = async (title: string, description?: string) => {
+    const response = await api().post('/api/tasks').set(user.auth).send({ title, description }).expect(201);
+    return response.body.data;
+  };
+
+  const search = async (q: string) => {
+    const response = await api().get('/api/tasks').query({ q }).set(user.auth).expect(200);
+    return response.body.data.items;
+  };
+
+  it('ranks matches and supports prefix and phrase queries', async () => {
+    const dentist = await createTask('Dentist appointment', 'Call the dentist to confirm the appointment');
+    const checkup = await createTask('Annual checkup', 'Book appointment with the dentist');
+    await createTask('Groceries', 'Milk and eggs');
+
+    const results = await search('dentist');
+    expect(results.map((task: any) => task.id)).toEqual([dentist.id, checkup.id]);
+    expect(results[0].search.title).toBe('<mark>Dentist</mark> appointment');
+
+    expect((await search('dent*')).map((task: any) => task.id)).toHaveLength(2);
+    expect((await search('"dentist appointment"')).map((task: any) => task.id)).toEqual([dentist.id]);
+  });
+
+  it('does not search other users\' tasks', async () => {
+    const other = await registerUser();
+    await api().post('/api/tasks').set(other.auth).send({ title: 'Secret dentist plan' }).expect(201);
+
+    const results = await search('secret');
+    expect(results).toEqual([]);
+  });
+
+  it('escapes HTML in highlights and snippets', async () => {
+    await createTask('<script>alert(1)</script> invoice', 'Pay the <b>invoice</b> & file it');
+
+    const [result] = await search('invoice');
+    expect(result.search.title).toBe('&lt;script&gt;alert(1)&lt;/script&gt; <mark>invoice</mark>');
+    expect(result.search.snippet).toBe('Pay the &lt;b&gt;<mark>invoice</mark>&lt;/b&gt; &amp; file it');
+  });
+});
@@ -0,0 +1,11 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+
+// Every test file gets its own database file (transactions use a second
+// connection, so an in-memory database would not be shared) and quiet logs
+process.env.LIBSQL_URL = `file:${join(tmpdir(), `day-planner-test-${randomBytes(6).toString('hex')}.db`)}`;
+process.env.LOG_LEVEL = 'silent';
+process.env.JWT_SECRET = 'test-secret';
+process.env.BOOTSTRAP_USER_PASSWORD = 'bootstrap-password';
+process.env.RATE_LIMIT_ENABLED = 'false';
@@ -0,0 +1,239 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import app from '../app';
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import { closeTaskStreams, publishTaskEvent } from '../utils/taskStream';
+
+useTestDatabase();
+
+interface StreamMessage {
+  id?: string;
+  event?: string;
+  data?: any;
+  retry?: number;
+  comment?: string;
+}
+
+interface OpenStream {
+  status: number;
+  messages: StreamMessage[];
+  ended: Promise<void>;
+  waitFor: (count: number) => Promise<StreamMessage[]>;
+  pause: () => void;
+  resume: () => void;
+  close: () => void;
+}
+
+const parseMessage = (block: string): StreamMessage => {
+  const message: StreamMessage = {};
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) {
+      message.comment = line.slice(1).trim();
+    } else {
+      const [field, ...rest] = line.split(': ');
+      const value = rest.join(': ');
+      switch (field) {
+        case 'id':
+          message.id = value;
+          break;
+        case 'event':
+          message.event = value;
+          break;
+        case 'data':
+          message.data = JSON.parse(value);
+          break;
+        case 'retry':
+          message.retry = Number(value);
+          break;
+      }
+    }
+  }
+  return message;
+};
+
+describe('Task event stream', () => {
+  let server: http.Server;
+  let user: TestUser;
+  const streams: OpenStream[] = [];
+
+  beforeAll(async () => {
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    user = await registerUser();
+  });
+
+  afterEach(() => {
+    streams.splice(0).forEach(stream => stream.close());
+  });
+
+  // Task events only; the retry hint and heartbeats are left out
+  const taskEvents = (stream: OpenStream) => stream.messages.filter(message => message.event);
+
+  const openStream = (path: string = '/api/stream', headers: Record<string, string> = user.auth): Promise<OpenStream> => {
+    return new Promise((resolve, reject) => {
+      const { port } = server.address() as AddressInfo;
+      const request = http.get({ port, path, headers: { Accept: 'text/event-stream', ...headers } }, response => {
+        let buffer = '';
+        let waiting: (() => void)[] = [];
+        let endStream!: () => void;
+
+        const stream: OpenStream = {
+          status: response.statusCode || 0,
+          messages: [],
+          ended: new Promise(resolveEnded => {
+            endStream = resolveEnded;
+          }),
+          waitFor: async (count: number) => {
+            while (taskEvents(stream).length < count) {
+              await new Promise<void>(resolveWait => waiting.push(resolveWait));
+            }
+            return taskEvents(stream);
+          },
+          pause: () => response.pause(),
+          resume: () => response.resume(),
+          close: () => request.destroy()
+        };
+
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          buffer += chunk;
+          const blocks = buffer.split('\n\n');
+          buffer = blocks.pop() || '';
+          stream.messages.push(...blocks.map(parseMessage));
+          const resolvers = waiting;
+          waiting = [];
+          resolvers.forEach(notify => notify());
+        });
+        response.on('end', () => endStream());
+        response.on('close', () => endStream());
+
+        streams.push(stream);
+        resolve(stream);
+      });
+      request.on('error', reject);
+    });
+  };
+
+  it('requires authentication', async () => {
+    const stream = await openStream('/api/stream', {});
+    expect(stream.status).toBe(401);
+  });
+
+  it('pushes create, update, toggle and delete events for the user only', async () => {
+    const stream = await openStream();
+    const otherUser = await registerUser();
+    await api().post('/api/tasks').set(otherUser.auth).send({ title: 'Not mine' }).expect(201);
+
+    const created = await api().post('/api/tasks').set(user.auth).send({ title: 'Watch me' }).expect(201);
+    const id = created.body.data.id;
+    await api().put(`/api/tasks/${id}`).set(user.auth).send({ title: 'Watched' }).expect(200);
+    await api().patch(`/api/tasks/${id}/toggle`).set(user.auth).expect(200);
+    await api().delete(`/api/tasks/${id}`).set(user.auth).expect(200);
+
+    const events = await stream.waitFor(4);
+    expect(stream.status).toBe(200);
+    expect(events.map(event => event.event)).toEqual(['task.created', 'task.updated', 'task.toggled', 'task.deleted']);
+    expect(events[1].data.task.title).toBe('Watched');
+    expect(events[2].data.task.completed).toBe(true);
+    expect(events[3].data).toEqual({ id });
+    expect(stream.messages[0]).toEqual({ retry: 3000 });
+  });
+
+  it('accepts a stream token as a query parameter for EventSource clients', async () => {
+    const issued = await api().post('/api/stream/token').set(user.auth).expect(201);
+    const { token, expiresAt } = issued.body.data;
+    expect(new Date(expiresAt).getTime()).toBeLessThanOrEqual(Date.now() + 60 * 1000);
+
+    const stream = await openStream(`/api/stream?access_token=${token}`, {});
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Via query token' }).expect(201);
+
+    const [event] = await stream.waitFor(1);
+    expect(event.data.task.title).toBe('Via query token');
+
+    // The token opens the stream and nothing else
+    await api().get('/api/tasks').set('Authorization', `Bearer ${token}`).expect(401);
+    await api().post(`/api/stream/token?access_token=${token}`).expect(401);
+  });
+
+  it('accepts a feed token as a query parameter', async () => {
+    const feed = await api().post('/api/keys').set(user.auth).send({ name: 'Calendar', kind: 'feed' }).expect(201);
+
+    const stream = await openStream(`/api/stream?access_token=${feed.body.data.key}`, {});
+    expect(stream.status).toBe(200);
+  });
+
+  it('refuses login tokens and API keys in the URL', async () => {
+    const key = await api().post('/api/keys').set(user.auth).send({ name: 'Script', scopes: ['tasks:read'] }).expect(201);
+
+    for (const token of [user.token, key.body.data.key]) {
+      const stream = await openStream(`/api/stream?access_token=${token}`, {});
+      expect(stream.status).toBe(401);
+    }
+  });
+
+  it('replays events missed since Last-Event-ID', async () => {
+    const first = await openStream();
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Seen' }).expect(201);
+    const [seen] = await first.waitFor(1);
+    first.close();
+
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Missed 1' }).expect(201);
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Missed 2' }).expect(201);
+
+    const resumed = await openStream('/api/stream', { ...user.auth, 'Last-Event-ID': seen.id! });
+    const replayed = await resumed.waitFor(2);
+    expect(replayed.map(event => event.data.task.title)).toEqual(['Missed 1', 'Missed 2']);
+  });
+
+  it('asks clients to resync when their events are no longer available', async () => {
+    const stream = await openStream('/api/stream', { ...user.auth, 'Last-Event-ID': 'previous-process.12' });
+
+    const [event] = await stream.waitFor(1);
+    expect(event.event).toBe('resync');
+  });
+
+  it('sends heartbeats', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'queueMicrotask', 'Date', 'hrtime', 'performance'] });
+    try {
+      const stream = await openStream();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      jest.advanceTimersByTime(15 * 1000);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(stream.messages.some(message => message.comment?.startsWith('heartbeat'))).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('ends the stream of a client that stops reading', async () => {
+    const stream = await openStream();
+    stream.pause();
+
+    // Far more than the socket buffers hold
+    const title = 'x'.repeat(64 * 1024);
+    for (let index = 0; index < 300; index++) {
+      publishTaskEvent(user.id, 'task.updated', { task: { title } });
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    stream.resume();
+    await stream.ended;
+    expect(taskEvents(stream).length).toBeLessThan(300);
+  });
+
+  it('ends open streams on shutdown', async () => {
+    const stream = await openStream();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    closeTaskStreams();
+    await stream.ended;
+  });
+});
@@ -0,0 +1,71 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+
+useTestDatabase();
+
+describe('subtasks', () => {
+  let user: TestUser;
+
+  beforeAll(async () => {
+    user = await registerUser();
+  });
+
+  const createTask = async (title: string, parentId?: string) => {
+    const response = await api().post('/api/tasks').set(user.auth).send({ title, parentId }).expect(201);
+    return response.body.data;
+  };
+
+  it('nests subtasks under their parent and reports progress', async () => {
+    const parent = await createTask('Move house');
+    const packing = await createTask('Pack boxes', parent.id);
+    await createTask('Book van', parent.id);
+    const labels = await createTask('Buy labels', packing.id);
+
+    await api().patch(`/api/tasks/${packing.id}/toggle`).set(user.auth).expect(200);
+
+    const response = await api().get(`/api/tasks/${parent.id}`).set(user.auth).expect(200);
+    const task = response.body.data;
+
+    expect(task.progress).toEqual({ completed: 1, total: 2 });
+    expect(task.subtasks.map((subtask: any) => subtask.title).sort()).toEqual(['Book van', 'Pack boxes']);
+    const nested = task.subtasks.find((subtask: any) => subtask.id === packing.id);
+    expect(nested.subtasks.map((subtask: any) => subtask.id)).toEqual([labels.id]);
+  });
+
+  it('rejects unknown parents and cycles', async () => {
+    await api()
+      .post('/api/tasks')
+      .set(user.auth)
+      .send({ title: 'Orphan', parentId: '00000000-0000-4000-8000-000000000000' })
+      .expect(400);
+
+    const parent = await createTask('Parent');
+    const child = await createTask('Child', parent.id);
+    await api().put(`/api/tasks/${parent.id}`).set(user.auth).send({ parentId: child.id }).expect(400);
+    await api().put(`/api/tasks/${parent.id}`).set(user.auth).send({ parentId: parent.id }).expect(400);
+  });
+
+  it('lists only top-level tasks or the subtasks of a parent', async () => {
+    const parent = await createTask('Plan trip');
+    const child = await createTask('Book flights', parent.id);
+
+    const topLevel = await api().get('/api/tasks').query({ topLevel: true, limit: 100 }).set(user.auth).expect(200);
+    const topLevelIds = topLevel.body.data.items.map((task: any) => task.id);
+    expect(topLevelIds).toContain(parent.id);
+    expect(topLevelIds).not.toContain(child.id);
+
+    const children = await api().get('/api/tasks').query({ parentId: parent.id }).set(user.auth).expect(200);
+    expect(children.body.data.items.map((task: any) => task.id)).toEqual([child.id]);
+  });
+
+  it('deletes subtasks along with their parent', async () => {
+    const parent = await createTask('Spring clean');
+    const child = await createTask('Windows', parent.id);
+    const grandchild = await createTask('Buy cloths', child.id);
+
+    await api().delete(`/api/tasks/${parent.id}`).set(user.auth).expect(200);
+
+    for (const task of [parent, child, grandchild]) {
+      await api().get(`/api/tasks/${task.id}`).set(user.auth).expect(404);
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+
+useTestDatabase();
+
+describe('tags', () => {
+  let user: TestUser;
+  let errands: string;
+  let urgentErrand: string;
+  let urgentWork: string;
+
+  const createTask = async (title: string, tags: string[]) => {
+    const response = await api().post('/api/tasks').set(user.auth).send({ title, tags }).expect(201);
+    return response.body.data;
+  };
+
+  const listIds = async (query: Record<string, unknown>) => {
+    const response = await api().get('/api/tasks').query(query).set(user.auth).expect(200);
+    return response.body.data.items.map((task: any) => task.id).sort();
+  };
+
+  beforeAll(async () => {
+    user = await registerUser();
+    errands = (await createTask('Groceries', ['errand'])).id;
+    urgentErrand = (await createTask('Pharmacy', ['errand', 'urgent'])).id;
+    urgentWork = (await createTask('Deploy fix', ['Urgent', 'work'])).id;
+  });
+
+  it('returns tags on tasks, trimmed and without case-insensitive duplicates', async () => {
+    const task = await createTask('Call plumber', [' home ', 'Home', 'calls']);
+    expect(task.tags).toEqual(['calls', 'home']);
+
+    const updated = await api().put(`/api/tasks/${task.id}`).set(user.auth).send({ tags: ['home'] }).expect(200);
+    expect(updated.body.data.tags).toEqual(['home']);
+  });
+
+  it('filters by any of the given tags', async () => {
+    expect(await listIds({ tags: ['errand', 'work'] })).toEqual([errands, urgentErrand, urgentWork].sort());
+  });
+
+  it('filters by all of the given tags, ignoring case', async () => {
+    expect(await listIds({ tags: ['ERRAND', 'urgent'], tagMatch: 'all' })).toEqual([urgentErrand]);
+  });
+
+  it('accepts a single tag as a plain query parameter', async () => {
+    expect(await listIds({ tags: 'work' })).toEqual([urgentWork]);
+  });
+
+  it("lists the user's tags with usage counts", async () => {
+    const other = await registerUser();
+    await api().post('/api/tasks').set(other.auth).send({ title: 'Other', tags: ['errand', 'private'] }).expect(201);
+
+    const response = await api().get('/api/tags').set(user.auth).expect(200);
+    const counts = Object.fromEntries(response.body.data.map((tag: any) => [tag.name, tag.taskCount]));
+
+    expect(counts).toMatchObject({ errand: 2, urgent: 2, work: 1 });
+    expect(counts).not.toHaveProperty('private');
+  });
+
+  it("keeps each user's tags apart, including their spelling", async () => {
+    const other = await registerUser();
+    const task = await api().post('/api/tasks').set(other.auth).send({ title: 'Other', tags: ['Errand'] }).expect(201);
+    expect(task.body.data.tags).toEqual(['Errand']);
+
+    const [mine, theirs] = await Promise.all([user, other].map(async owner => {
+      const response = await api().get('/api/tags').set(owner.auth).expect(200);
+      return response.body.data.find((tag: any) => tag.name.toLowerCase() === 'errand');
+    }));
+    expect(mine).toMatchObject({ name: 'errand', taskCount: 2 });
+    expect(theirs).toMatchObject({ name: 'Errand', taskCount: 1 });
+    expect(theirs.id).not.toBe(mine.id);
+
+    const filtered = await api().get('/api/tasks').query({ tags: 'errand' }).set(other.auth).expect(200);
+    expect(filtered.body.data.items.map((item: any) => item.id)).toEqual([task.body.data.id]);
+  });
+});
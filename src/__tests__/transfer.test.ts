@@ -0,0 +1,134 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import * as TaskModel from '../models/Task';
+
+useTestDatabase();
+
+describe('Task export and import', () => {
+  let user: TestUser;
+
+  beforeEach(async () => {
+    user = await registerUser();
+  });
+
+  const importTasks = (body: string, contentType: string, query: string = '') => api()
+    .post(`/api/tasks/import${query}`)
+    .set(user.auth)
+    .set('Content-Type', contentType)
+    .send(body);
+
+  const listTitles = async (): Promise<string[]> => {
+    const response = await api().get('/api/tasks?sortBy=title&sortOrder=asc&limit=100').set(user.auth).expect(200);
+    return response.body.data.items.map((task: { title: string }) => task.title);
+  };
+
+  it('exports matching tasks as CSV and NDJSON', async () => {
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Work, "urgent"', tags: ['work', 'q1'] }).expect(201);
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Home' }).expect(201);
+
+    const csv = await api().get('/api/tasks/export.csv?tags=work').set(user.auth).expect(200);
+    expect(csv.headers['content-type']).toMatch(/text\/csv/);
+    const [header, ...lines] = csv.text.trim().split(/\r?\n/);
+    expect(header).toBe('id,title,description,completed,priority,dueDate,categoryId,parentId,tags,recurrence,createdAt,updatedAt');
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toContain('"Work, ""urgent"""');
+    expect(lines[0]).toContain('q1;work');
+
+    const ndjson = await api().get('/api/tasks/export.ndjson').set(user.auth).expect(200);
+    const tasks = ndjson.text.trim().split('\n').map(line => JSON.parse(line));
+    expect(tasks.map(task => task.title).sort()).toEqual(['Home', 'Work, "urgent"']);
+  });
+
+  it('exports every task in batches even when tasks are deleted meanwhile', async () => {
+    const rows = Array.from({ length: 501 }, (_, index) => JSON.stringify({ title: `Task ${index}` }));
+    await importTasks(rows.join('\n'), 'application/x-ndjson').expect(201);
+
+    // A task from the first batch is deleted before the next batch is read
+    const findAllTasks = TaskModel.findAllTasks;
+    const spy = jest.spyOn(TaskModel, 'findAllTasks').mockImplementation(async (...args) => {
+      const tasks = await findAllTasks(...args);
+      await TaskModel.deleteTask(user.id, tasks[0].id);
+      return tasks;
+    });
+
+    try {
+      const ndjson = await api().get('/api/tasks/export.ndjson?sortBy=title&sortOrder=asc').set(user.auth).expect(200);
+      const titles = ndjson.text.trim().split('\n').map(line => JSON.parse(line).title);
+      expect(titles).toHaveLength(501);
+      expect(new Set(titles).size).toBe(501);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('round-trips an export through import, re-linking subtasks', async () => {
+    const parent = await api().post('/api/tasks').set(user.auth).send({ title: 'Parent' }).expect(201);
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Child', parentId: parent.body.data.id }).expect(201);
+    const exported = await api().get('/api/tasks/export.csv').set(user.auth).expect(200);
+
+    const other = await registerUser();
+    const response = await api()
+      .post('/api/tasks/import')
+      .set(other.auth)
+      .set('Content-Type', 'text/csv')
+      .send(exported.text)
+      .expect(201);
+    expect(response.body.data).toMatchObject({ committed: true, imported: 2, failed: 0 });
+
+    const list = await api().get('/api/tasks').set(other.auth).expect(200);
+    const imported = list.body.data.items;
+    const child = imported.find((task: any) => task.title === 'Child');
+    const newParent = imported.find((task: any) => task.title === 'Parent');
+    expect(newParent.id).not.toBe(parent.body.data.id);
+    expect(child.parentId).toBe(newParent.id);
+  });
+
+  it('saves nothing when any row fails and reports every failing row', async () => {
+    const response = await importTasks(
+      ['{"title":"Fine"}', '{"title":""}', '{"title":"Also fine","priority":"urgent"}'].join('\n'),
+      'application/x-ndjson'
+    ).expect(400);
+
+    expect(response.body.data).toMatchObject({ committed: false, total: 3, valid: 1, failed: 2, imported: 0 });
+    expect(response.body.data.errors.map((error: { row: number }) => error.row)).toEqual([2, 3]);
+    expect(await listTitles()).toEqual([]);
+  });
+
+  it('validates without saving in a dry run', async () => {
+    const response = await importTasks('title,completed\nChecked,true\n', 'text/csv', '?dryRun=true').expect(200);
+
+    expect(response.body.data).toMatchObject({ dryRun: true, committed: false, valid: 1, imported: 0 });
+    expect(await listTitles()).toEqual([]);
+  });
+
+  it('lets other writes wait for a running import instead of failing', async () => {
+    // Imported rows pause before being saved, so the other requests arrive
+    // while the import's transaction is open
+    const createTask = TaskModel.createTask;
+    const spy = jest.spyOn(TaskModel, 'createTask').mockImplementation(async (userId, taskData) => {
+      if (taskData.title.startsWith('Imported')) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      return createTask(userId, taskData);
+    });
+
+    try {
+      const rows = Array.from({ length: 20 }, (_, index) => JSON.stringify({ title: `Imported ${index}` }));
+      const importing = importTasks(rows.join('\n'), 'application/x-ndjson').then(response => response);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      const created = await Promise.all([
+        api().post('/api/tasks').set(user.auth).send({ title: 'Created meanwhile' }),
+        api().post('/api/tasks').set(user.auth).send({ title: 'Also created meanwhile' })
+      ]);
+      const imported = await importing;
+
+      expect(imported.status).toBe(201);
+      expect(created.map(response => response.status)).toEqual([201, 201]);
+    } finally {
+      spy.mockRestore();
+    }
+
+    const count = await api().get('/api/tasks?limit=1').set(user.auth).expect(200);
+    expect(count.body.data.pagination.total).toBe(22);
+  });
+});
@@ -0,0 +1,150 @@
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import { runQuery } from '../database/init';
+import { purgeExpiredTasks } from '../utils/trashPurger';
+
+useTestDatabase();
+
+describe('Trash', () => {
+  let user: TestUser;
+
+  beforeEach(async () => {
+    user = await registerUser();
+  });
+
+  afterEach(() => {
+    delete process.env.TRASH_RETENTION_DAYS;
+  });
+
+  const createTask = async (fields: Record<string, unknown> = {}) => {
+    const response = await api().post('/api/tasks').set(user.auth).send({ title: 'Water the plants', ...fields }).expect(201);
+    return response.body.data;
+  };
+
+  const listTrash = async () => {
+    const response = await api().get('/api/trash').set(user.auth).expect(200);
+    return response.body.data;
+  };
+
+  // Moves a trashed task's deletion the given number of days into the past
+  const backdateDeletion = (taskId: string, days: number) => runQuery(
+    'UPDATE tasks SET deletedAt = ? WHERE id = ?',
+    [new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(), taskId]
+  );
+
+  it('moves deleted tasks and their subtasks out of lists, counts and lookups', async () => {
+    const parent = await createTask({ title: 'Parent' });
+    const subtask = await createTask({ title: 'Subtask', parentId: parent.id });
+    const kept = await createTask({ title: 'Kept' });
+
+    await api().delete(`/api/tasks/${parent.id}`).set(user.auth).expect(200);
+
+    await api().get(`/api/tasks/${parent.id}`).set(user.auth).expect(404);
+    await api().get(`/api/tasks/${subtask.id}`).set(user.auth).expect(404);
+    const tasks = await api().get('/api/tasks').set(user.auth).expect(200);
+    expect(tasks.body.data.items.map((task: any) => task.id)).toEqual([kept.id]);
+    expect(tasks.body.data.pagination.total).toBe(1);
+
+    const trash = await listTrash();
+    expect(trash.items.map((task: any) => task.id).sort()).toEqual([parent.id, subtask.id].sort());
+    expect(trash.pagination.total).toBe(2);
+  });
+
+  it('reports when trashed tasks will be purged', async () => {
+    const task = await createTask();
+    await api().delete(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+
+    const [trashed] = (await listTrash()).items;
+    expect(new Date(trashed.purgeAt).getTime() - new Date(trashed.deletedAt).getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+
+    process.env.TRASH_RETENTION_DAYS = '0';
+    const [kept] = (await listTrash()).items;
+    expect(kept.purgeAt).toBeUndefined();
+  });
+
+  it('restores a task with the subtasks deleted along with it', async () => {
+    const parent = await createTask({ title: 'Parent' });
+    const subtask = await createTask({ title: 'Subtask', parentId: parent.id });
+    await api().delete(`/api/tasks/${parent.id}`).set(user.auth).expect(200);
+
+    await api().post(`/api/tasks/${subtask.id}/restore`).set(user.auth).expect(409);
+
+    const restored = await api().post(`/api/tasks/${parent.id}/restore`).set(user.auth).expect(200);
+    expect(restored.body.data.id).toBe(parent.id);
+    expect(restored.body.data.deletedAt).toBeUndefined();
+    await api().get(`/api/tasks/${subtask.id}`).set(user.auth).expect(200);
+    expect((await listTrash()).items).toHaveLength(0);
+
+    await api().post(`/api/tasks/${parent.id}/restore`).set(user.auth).expect(404);
+  });
+
+  it('keeps subtasks trashed on their own when their parent is restored', async () => {
+    const parent = await createTask({ title: 'Parent' });
+    const subtask = await createTask({ title: 'Subtask', parentId: parent.id });
+    await api().delete(`/api/tasks/${subtask.id}`).set(user.auth).expect(200);
+    await api().delete(`/api/tasks/${parent.id}`).set(user.auth).expect(200);
+
+    await api().post(`/api/tasks/${parent.id}/restore`).set(user.auth).expect(200);
+
+    await api().get(`/api/tasks/${subtask.id}`).set(user.auth).expect(404);
+    expect((await listTrash()).items.map((task: any) => task.id)).toEqual([subtask.id]);
+  });
+
+  it('permanently deletes a single trashed task or the whole trash', async () => {
+    const first = await createTask({ title: 'First' });
+    const second = await createTask({ title: 'Second' });
+    const live = await createTask({ title: 'Live' });
+    await api().delete(`/api/tasks/${first.id}`).set(user.auth).expect(200);
+    await api().delete(`/api/tasks/${second.id}`).set(user.auth).expect(200);
+
+    // Only tasks in the trash can be purged
+    await api().delete(`/api/trash/${live.id}`).set(user.auth).expect(404);
+
+    await api().delete(`/api/trash/${first.id}`).set(user.auth).expect(200);
+    await api().post(`/api/tasks/${first.id}/restore`).set(user.auth).expect(404);
+    expect((await listTrash()).items.map((task: any) => task.id)).toEqual([second.id]);
+
+    const emptied = await api().delete('/api/trash').set(user.auth).expect(200);
+    expect(emptied.body.data).toEqual({ purged: 1 });
+    expect((await listTrash()).items).toHaveLength(0);
+    await api().get(`/api/tasks/${live.id}`).set(user.auth).expect(200);
+  });
+
+  it('keeps other users out of the trash', async () => {
+    const task = await createTask();
+    await api().delete(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    const otherUser = await registerUser();
+
+    const trash = await api().get('/api/trash').set(otherUser.auth).expect(200);
+    expect(trash.body.data.items).toHaveLength(0);
+    await api().post(`/api/tasks/${task.id}/restore`).set(otherUser.auth).expect(404);
+    await api().delete(`/api/trash/${task.id}`).set(otherUser.auth).expect(404);
+  });
+
+  it('purges tasks once the retention period has passed', async () => {
+    const expired = await createTask({ title: 'Expired' });
+    const recent = await createTask({ title: 'Recent' });
+    await api().delete(`/api/tasks/${expired.id}`).set(user.auth).expect(200);
+    await api().delete(`/api/tasks/${recent.id}`).set(user.auth).expect(200);
+    await backdateDeletion(expired.id, 31);
+    await backdateDeletion(recent.id, 29);
+
+    expect(await purgeExpiredTasks()).toBe(1);
+    expect((await listTrash()).items.map((task: any) => task.id)).toEqual([recent.id]);
+
+    const history = await api().get(`/api/tasks/${expired.id}/history`).query({ action: 'purge' }).set(user.auth).expect(200);
+    expect(history.body.data.items).toHaveLength(1);
+  });
+
+  it('honours the configured retention period and keeps everything at 0', async () => {
+    const task = await createTask();
+    await api().delete(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    await backdateDeletion(task.id, 400);
+
+    process.env.TRASH_RETENTION_DAYS = '0';
+    expect(await purgeExpiredTasks()).toBe(0);
+
+    process.env.TRASH_RETENTION_DAYS = '365';
+    expect(await purgeExpiredTasks()).toBe(1);
+    expect((await listTrash()).items).toHaveLength(0);
+  });
+});
@@ -0,0 +1,170 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { api, useTestDatabase, registerUser, TestUser } from './helpers';
+import { runQuery } from '../database/init';
+import { processDueDeliveries, signWebhookPayload, getRetryDelay, MAX_DELIVERY_ATTEMPTS } from '../utils/webhooks';
+import { isBlockedAddress, lookupWebhookTarget } from '../utils/webhookTargets';
+
+useTestDatabase();
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhook targets', () => {
+  it('blocks loopback, private, link-local and reserved addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.100.100.200', '0.0.0.0',
+      '::1', '::', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a00:1']
+      .forEach(address => expect([address, isBlockedAddress(address)]).toEqual([address, true]));
+
+    ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8']
+      .forEach(address => expect([address, isBlockedAddress(address)]).toEqual([address, false]));
+  });
+
+  it('refuses hostnames that resolve to a blocked address', async () => {
+    const error = await new Promise<Error | null>(resolve => {
+      lookupWebhookTarget('localhost', {}, lookupError => resolve(lookupError));
+    });
+    expect(error?.message).toMatch(/private or reserved address/);
+  });
+
+  it('rejects internal webhook URLs', async () => {
+    const user = await registerUser();
+
+    for (const url of [
+      'http://127.0.0.1:8080/hook',
+      'http://localhost/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/hook',
+      'https://10.0.0.5/hook',
+      'http://metadata.google.internal/computeMetadata/v1'
+    ]) {
+      const response = await api().post('/api/webhooks').set(user.auth).send({ url, events: ['task.created'] });
+      expect([url, response.status]).toEqual([url, 400]);
+    }
+
+    await api().post('/api/webhooks').set(user.auth)
+      .send({ url: 'https://hooks.example.com/planner', events: ['task.created'] })
+      .expect(201);
+  });
+});
+
+describe('Webhook delivery', () => {
+  let user: TestUser;
+  let server: http.Server;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus, { 'Content-Type': 'text/plain' });
+        res.end('stack trace with internal details');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS = 'true';
+    received = [];
+    responseStatus = 200;
+    user = await registerUser();
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS;
+  });
+
+  const createWebhook = async (): Promise<{ id: string; secret: string }> => {
+    const { port } = server.address() as AddressInfo;
+    const response = await api().post('/api/webhooks').set(user.auth)
+      .send({ url: `http://127.0.0.1:${port}/hook`, events: ['task.created'] })
+      .expect(201);
+    return { id: response.body.data.webhook.id, secret: response.body.data.secret };
+  };
+
+  const getDeliveries = async (webhookId: string) => {
+    const response = await api().get(`/api/webhooks/${webhookId}/deliveries`).set(user.auth).expect(200);
+    return response.body.data.items;
+  };
+
+  // Makes every pending delivery due now
+  const makeDeliveriesDue = () => runQuery(
+    "UPDATE webhook_deliveries SET nextAttemptAt = ? WHERE status = 'pending'",
+    [new Date(Date.now() - 1000).toISOString()]
+  );
+
+  it('sends signed events and logs the delivery', async () => {
+    const webhook = await createWebhook();
+    const task = await api().post('/api/tasks').set(user.auth).send({ title: 'Notify me' }).expect(201);
+
+    expect(await processDueDeliveries()).toBe(1);
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const timestamp = Number(headers['x-webhook-timestamp']);
+    expect(headers['x-webhook-signature']).toBe(`sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`);
+    expect(headers['x-webhook-event']).toBe('task.created');
+    expect(JSON.parse(body)).toMatchObject({ event: 'task.created', data: { task: { id: task.body.data.id } } });
+
+    const [delivery] = await getDeliveries(webhook.id);
+    expect(delivery).toMatchObject({ id: headers['x-webhook-delivery'], status: 'succeeded', attempts: 1, responseStatus: 200 });
+    expect(delivery.nextAttemptAt).toBeUndefined();
+  });
+
+  it('retries failures with backoff, storing only the status code, then gives up', async () => {
+    const webhook = await createWebhook();
+    responseStatus = 500;
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Keeps failing' }).expect(201);
+
+    const firstAttemptAt = Date.now();
+    await processDueDeliveries();
+    let [delivery] = await getDeliveries(webhook.id);
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 500, lastError: 'HTTP 500' });
+    expect(new Date(delivery.nextAttemptAt).getTime() - firstAttemptAt).toBeGreaterThanOrEqual(getRetryDelay(1) - 1000);
+
+    // Not due yet, so nothing is sent
+    expect(await processDueDeliveries()).toBe(0);
+
+    await makeDeliveriesDue();
+    const secondAttemptAt = Date.now();
+    await processDueDeliveries();
+    [delivery] = await getDeliveries(webhook.id);
+    expect(delivery.attempts).toBe(2);
+    expect(new Date(delivery.nextAttemptAt).getTime() - secondAttemptAt).toBeGreaterThanOrEqual(getRetryDelay(2) - 1000);
+    expect(getRetryDelay(2)).toBe(2 * getRetryDelay(1));
+
+    await runQuery('UPDATE webhook_deliveries SET attempts = ? WHERE id = ?', [MAX_DELIVERY_ATTEMPTS - 1, delivery.id]);
+    await makeDeliveriesDue();
+    await processDueDeliveries();
+    [delivery] = await getDeliveries(webhook.id);
+    expect(delivery).toMatchObject({ status: 'failed', attempts: MAX_DELIVERY_ATTEMPTS, lastError: 'HTTP 500' });
+    expect(delivery.nextAttemptAt).toBeUndefined();
+    expect(JSON.stringify(delivery)).not.toContain('internal details');
+  });
+
+  it('refuses to deliver to a private address at delivery time', async () => {
+    const webhook = await createWebhook();
+    await api().post('/api/tasks').set(user.auth).send({ title: 'Not for localhost' }).expect(201);
+
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS;
+    await processDueDeliveries();
+
+    expect(received).toHaveLength(0);
+    const [delivery] = await getDeliveries(webhook.id);
+    expect(delivery.status).toBe('pending');
+    expect(delivery.lastError).toMatch(/private or reserved address \(127\.0\.0\.1\)/);
+    expect(delivery.responseStatus).toBeUndefined();
+  });
+});
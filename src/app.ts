@@ -0,0 +1,87 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import dotenv from 'dotenv';
+import { errorHandler } from './middleware/errorHandler';
+import { authenticate, authenticateStream, requireScope, requireScopeByMethod } from './middleware/auth';
+import authRoutes from './routes/auth';
+import apiKeyRoutes from './routes/apiKeys';
+import taskRoutes from './routes/tasks';
+import categoryRoutes from './routes/categories';
+import eventRoutes from './routes/events';
+import tagRoutes from './routes/tags';
+import calendarRoutes from './routes/calendar';
+import webhookRoutes from './routes/webhooks';
+import streamRoutes from './routes/stream';
+import reminderRoutes from './routes/reminders';
+import auditRoutes from './routes/audit';
+import trashRoutes from './routes/trash';
+import docsRoutes from './routes/docs';
+import metricsRoutes from './routes/metrics';
+import healthRoutes from './routes/health';
+import { assignRequestId, bindRequestContext } from './utils/requestContext';
+import { logRequests } from './middleware/requestLogger';
+import { rateLimitByIp, rateLimitByCredential } from './middleware/rateLimit';
+import { recordHttpMetrics } from './middleware/metrics';
+
+// Load environment variables
+dotenv.config();
+
+const app = express();
+// Largest JSON or form body accepted; task imports have their own limit
+const REQUEST_BODY_LIMIT = process.env.REQUEST_BODY_LIMIT || '100kb';
+
+// Behind a reverse proxy, client IPs (used for rate limiting) come from
+// X-Forwarded-For. TRUST_PROXY is `true`, a hop count or trusted addresses.
+const TRUST_PROXY = process.env.TRUST_PROXY;
+if (TRUST_PROXY && TRUST_PROXY !== 'false') {
+  app.set('trust proxy', TRUST_PROXY === 'true' ? true : /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY);
+}
+
+// Middleware
+app.use(assignRequestId);
+app.use(logRequests);
+app.use(recordHttpMetrics);
+app.use(helmet());
+app.use(cors({
+  origin: process.env.FRONTEND_URL || 'http://localhost:5173',
+  credentials: true,
+  // Let browser clients read request ids, task ETags for If-Match requests, replays and rate limits
+  exposedHeaders: ['X-Request-Id', 'ETag', 'Idempotent-Replayed', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After']
+}));
+// Liveness and readiness probes, ahead of the rate limiter so they are never throttled
+app.use('/api/health', healthRoutes);
+app.use('/api', rateLimitByIp());
+app.use(express.json({ limit: REQUEST_BODY_LIMIT }));
+app.use(express.urlencoded({ extended: true, limit: REQUEST_BODY_LIMIT }));
+app.use(bindRequestContext);
+
+// Routes
+app.use('/api/auth', authRoutes);
+app.use('/api/keys', authenticate, rateLimitByCredential(), requireScope('admin'), apiKeyRoutes);
+app.use('/api/tasks/:taskId/reminders', authenticate, rateLimitByCredential(), requireScopeByMethod('tasks:read', 'tasks:write'), reminderRoutes);
+app.use('/api/tasks', authenticate, rateLimitByCredential(), requireScopeByMethod('tasks:read', 'tasks:write'), taskRoutes);
+app.use('/api/trash', authenticate, rateLimitByCredential(), requireScopeByMethod('tasks:read', 'tasks:write'), trashRoutes);
+app.use('/api/categories', authenticate, rateLimitByCredential(), requireScopeByMethod('tasks:read', 'tasks:write'), categoryRoutes);
+app.use('/api/events', authenticate, rateLimitByCredential(), requireScopeByMethod('tasks:read', 'tasks:write'), eventRoutes);
+app.use('/api/tags', authenticate, rateLimitByCredential(), requireScope('tasks:read'), tagRoutes);
+app.use('/api/webhooks', authenticate, rateLimitByCredential(), requireScope('admin'), webhookRoutes);
+app.use('/api/audit', authenticate, rateLimitByCredential(), requireScope('admin'), auditRoutes);
+app.use('/api/stream', authenticateStream, rateLimitByCredential(), requireScope('tasks:read'), streamRoutes);
+app.use('/api', calendarRoutes);
+app.use('/api', docsRoutes);
+// Prometheus scrape endpoint, outside /api so it is not rate limited
+app.use('/metrics', metricsRoutes);
+
+// Error handling middleware
+app.use(errorHandler);
+
+// 404 handler
+app.use('*', (req, res) => {
+  res.status(404).json({
+    error: 'Route not found',
+    message: `The requested route ${req.originalUrl} does not exist`
+  });
+});
+
+export default app;
@@ -1,7 +1,44 @@
-import { createClient, Client } from '@libsql/client';
+import { createClient, Client, Transaction, ResultSet } from '@libsql/client';
+import { AsyncLocalStorage } from 'async_hooks';
+import { migrate, formatMigrationName } from './migrator';
+import { logger, isLogLevelEnabled, getDurationMs } from '../utils/logger';
+import { dbQueryDuration, getDurationSeconds } from '../utils/metrics';
 
 // Create database connection
 let db: Client;
+let isLocalDatabase = false;
+
+// Transaction opened by withTransaction() for the current async call chain
+const transactionContext = new AsyncLocalStorage<Transaction>();
+
+// Queries made inside withTransaction() run on its transaction
+const getExecutor = (): Client | Transaction => transactionContext.getStore() || db;
+
+// A local database has a single writer at a time, and its statements run
+// synchronously, so a write that finds it locked fails with SQLITE_BUSY (and
+// waiting with busy_timeout would block the event loop, stalling the
+// transaction it waits for). Transactions and writes outside them take turns
+// through this queue instead; reads are not queued.
+let writeQueue: Promise<void> = Promise.resolve();
+
+const withWriteLock = async <T>(work: () => Promise<T>): Promise<T> => {
+  if (!isLocalDatabase) {
+    return work();
+  }
+
+  const previous = writeQueue;
+  let release!: () => void;
+  writeQueue = new Promise(resolve => {
+    release = resolve;
+  });
+
+  await previous;
+  try {
+    return await work();
+  } finally {
+    release();
+  }
+};
 
 export const getDatabase = (): Client => {
   if (!db) {
@@ -10,171 +47,210 @@ export const getDatabase = (): Client => {
   return db;
 };
 
-// Database migration functions
-const runMigrations = async (): Promise<void> => {
-  try {
-    console.log('Running database migrations...');
-    
-            // Migration 1: Remove userId column from tasks table if it exists
-        try {
-          // Check if userId column exists
-          const result = await db.execute('PRAGMA table_info(tasks)');
-          const columns = result.rows.map((row: any) => row.name);
-          
-          if (columns.includes('userId')) {
-            console.log('Removing userId column from tasks table...');
-            
-            // SQLite doesn't support DROP COLUMN directly, so we need to recreate the table
-            // First, create a backup of existing tasks without userId
-            await db.execute(`
-              CREATE TABLE tasks_backup AS 
-              SELECT id, title, description, completed, priority, dueDate, createdAt, updatedAt 
-              FROM tasks
-            `);
-            
-            // Drop the original table
-            await db.execute('DROP TABLE tasks');
-            
-            // Recreate the tasks table without userId
-            await db.execute(`
-              CREATE TABLE tasks (
-                id TEXT PRIMARY KEY,
-                title TEXT NOT NULL,
-                description TEXT,
-                completed BOOLEAN NOT NULL DEFAULT 0,
-                priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
-                dueDate TEXT,
-                createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-                updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
-              )
-            `);
-            
-            // Restore the data
-            await db.execute(`
-              INSERT INTO tasks (id, title, description, completed, priority, dueDate, createdAt, updatedAt)
-              SELECT id, title, description, completed, priority, dueDate, createdAt, updatedAt 
-              FROM tasks_backup
-            `);
-            
-            // Drop the backup table
-            await db.execute('DROP TABLE tasks_backup');
-            
-            console.log('Removed userId column from tasks table');
-          }
-        } catch (migrationError) {
-          console.log('Migration 1 (remove userId column) skipped or already applied:', migrationError);
-        }
-    
-    console.log('Database migrations completed');
-  } catch (error) {
-    console.error('Migration error:', error);
-    // Don't throw - migrations are optional
+// Repopulate the search index when it is out of step with the tasks table,
+// e.g. on first start after upgrading or after tasks were restored outside the API
+const rebuildSearchIndexIfStale = async (): Promise<void> => {
+  const tasksResult = await db.execute('SELECT COUNT(*) AS count FROM tasks');
+  const searchResult = await db.execute('SELECT COUNT(*) AS count FROM tasks_fts');
+
+  if (Number(tasksResult.rows[0].count) !== Number(searchResult.rows[0].count)) {
+    logger.info('Rebuilding task search index');
+    await db.execute('DELETE FROM tasks_fts');
+    await db.execute(`
+      INSERT INTO tasks_fts (taskId, title, description)
+      SELECT id, title, COALESCE(description, '') FROM tasks
+    `);
+    logger.info('Task search index rebuilt');
   }
 };
 
+/**
+ * Opens the database connection without touching the schema
+ */
+export const connectDatabase = async (): Promise<Client> => {
+  // Get libSQL connection parameters from environment
+  const url = process.env.LIBSQL_URL || 'file:data/planner.db';
+  const authToken = process.env.LIBSQL_AUTH_TOKEN;
+
+  // Create libSQL client
+  db = createClient({
+    url,
+    authToken: authToken || undefined,
+  });
+
+  logger.info('Connected to libSQL database', {
+    url: url.split('?')[0],
+    environment: process.env.NODE_ENV || 'development'
+  });
+
+  // Enable foreign keys (for local SQLite compatibility)
+  isLocalDatabase = url.startsWith('file:');
+  if (isLocalDatabase) {
+    await db.execute('PRAGMA foreign_keys = ON');
+  }
+
+  return db;
+};
+
+/**
+ * Connects and brings the schema up to date. Any failed migration is rolled
+ * back and aborts startup.
+ */
 export const initializeDatabase = async (): Promise<void> => {
   try {
-    // Get libSQL connection parameters from environment
-    const url = process.env.LIBSQL_URL || 'file:data/planner.db';
-    const authToken = process.env.LIBSQL_AUTH_TOKEN;
-
-    // Create libSQL client
-    db = createClient({
-      url,
-      authToken: authToken || undefined,
-    });
-
-    console.log(`Connected to libSQL database at: ${url}`);
-    console.log(`Running in ${process.env.NODE_ENV || 'development'} mode`);
-
-    // Enable foreign keys (for local SQLite compatibility)
-    if (url.startsWith('file:')) {
-      await db.execute('PRAGMA foreign_keys = ON');
-    }
+    await connectDatabase();
 
-    // Create tables
-    const createTablesQueries = [
-      // Tasks table
-      `CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        description TEXT,
-        completed BOOLEAN NOT NULL DEFAULT 0,
-        priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
-        dueDate TEXT,
-        createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
-      )`
-    ];
-
-    // Create indexes
-    const createIndexesQueries = [
-      'CREATE INDEX IF NOT EXISTS idx_tasks_completed ON tasks(completed)',
-      'CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority)',
-      'CREATE INDEX IF NOT EXISTS idx_tasks_dueDate ON tasks(dueDate)'
-    ];
-
-    // Execute table creation queries
-    for (const query of createTablesQueries) {
-      await db.execute(query);
+    const applied = await migrate(db);
+    if (applied.length > 0) {
+      logger.info('Applied migrations', { migrations: applied.map(formatMigrationName) });
     }
 
-    // Run database migrations for existing tables
-    await runMigrations();
+    await rebuildSearchIndexIfStale();
 
-    // Execute index creation queries
-    for (const query of createIndexesQueries) {
-      await db.execute(query);
-    }
-
-    console.log('Database tables and indexes created successfully');
+    logger.info('Database schema is up to date');
   } catch (error) {
-    console.error('Failed to initialize database:', error);
+    logger.error('Failed to initialize database', { error });
     throw error;
   }
 };
 
-// Utility function to run database queries
-export const runQuery = async (query: string, params: any[] = []): Promise<any> => {
+// Statements slower than this are logged as warnings
+const getSlowQueryMs = (): number => Number(process.env.LOG_SLOW_QUERY_MS || 500);
+
+// The statement's leading keyword (SELECT, INSERT, ...), used as a metric label
+const getSqlOperation = (sql: string): string => {
+  const keyword = /^[a-z]+/i.exec(sql);
+  return keyword ? keyword[0].toUpperCase() : 'OTHER';
+};
+
+/**
+ * Runs a statement on the current transaction or connection, logging it
+ * with its duration and row counts and recording the duration metric.
+ * Parameters are never logged because they may hold secrets.
+ */
+const executeStatement = async (
+  query: string,
+  sql: string,
+  params: any[],
+  inTransaction: boolean
+): Promise<ResultSet> => {
+  const startedAt = process.hrtime.bigint();
+
   try {
-    const result = await db.execute({ sql: query, args: params });
-    return {
-      lastInsertRowid: result.lastInsertRowid,
-      changes: result.rowsAffected || 0,
-      rows: result.rows
-    };
+    const result = await getExecutor().execute({ sql: query, args: params });
+    dbQueryDuration.observe({ operation: getSqlOperation(sql), outcome: 'success' }, getDurationSeconds(startedAt));
+
+    const durationMs = getDurationMs(startedAt);
+    const isSlow = durationMs >= getSlowQueryMs();
+    if (isSlow || isLogLevelEnabled('debug')) {
+      logger[isSlow ? 'warn' : 'debug'](isSlow ? 'Slow query' : 'Query executed', {
+        sql,
+        durationMs,
+        rows: result.rows.length,
+        rowsAffected: result.rowsAffected,
+        inTransaction
+      });
+    }
+
+    return result;
   } catch (error) {
-    console.error('Error executing query:', query, error);
+    dbQueryDuration.observe({ operation: getSqlOperation(sql), outcome: 'error' }, getDurationSeconds(startedAt));
+    logger.error('Query failed', { sql, durationMs: getDurationMs(startedAt), inTransaction, error });
     throw error;
   }
 };
 
+// Writes outside a transaction take their turn with the write lock
+const execute = async (query: string, params: any[]): Promise<ResultSet> => {
+  const inTransaction = Boolean(transactionContext.getStore());
+  const sql = query.replace(/\s+/g, ' ').trim();
+
+  // Transactions already hold the write lock
+  if (!inTransaction && getSqlOperation(sql) !== 'SELECT') {
+    return withWriteLock(() => executeStatement(query, sql, params, inTransaction));
+  }
+  return executeStatement(query, sql, params, inTransaction);
+};
+
+// Utility function to run database queries
+export const runQuery = async (query: string, params: any[] = []): Promise<any> => {
+  const result = await execute(query, params);
+  return {
+    lastInsertRowid: result.lastInsertRowid,
+    changes: result.rowsAffected || 0,
+    rows: result.rows
+  };
+};
+
 // Utility function to get single row
 export const getRow = async (query: string, params: any[] = []): Promise<any> => {
-  try {
-    const result = await db.execute({ sql: query, args: params });
-    return result.rows[0] || null;
-  } catch (error) {
-    console.error('Error executing query:', query, error);
-    throw error;
-  }
+  const result = await execute(query, params);
+  return result.rows[0] || null;
 };
 
 // Utility function to get all rows
 export const getAllRows = async (query: string, params: any[] = []): Promise<any[]> => {
+  const result = await execute(query, params);
+  return result.rows;
+};
+
+/**
+ * Makes a round trip to the database, throwing when it cannot be reached
+ */
+export const pingDatabase = async (): Promise<void> => {
+  getDatabase();
+  await execute('SELECT 1', []);
+};
+
+const runTransaction = async <T>(
+  work: () => Promise<T>,
+  shouldCommit: (result: T) => boolean
+): Promise<T> => {
+  const transaction = await db.transaction('write');
+
+  // Local clients hand their connection to the transaction and open a new
+  // one for other queries, which needs foreign keys enabled again
+  if (isLocalDatabase) {
+    await db.execute('PRAGMA foreign_keys = ON');
+  }
+
   try {
-    const result = await db.execute({ sql: query, args: params });
-    return result.rows;
+    const result = await transactionContext.run(transaction, work);
+    if (shouldCommit(result)) {
+      await transaction.commit();
+    } else {
+      await transaction.rollback();
+    }
+    return result;
   } catch (error) {
-    console.error('Error executing query:', query, error);
+    await transaction.rollback();
     throw error;
+  } finally {
+    transaction.close();
   }
 };
 
+/**
+ * Runs `work` inside a write transaction. Every runQuery/getRow/getAllRows
+ * call made by `work` joins the transaction. It is committed when
+ * `shouldCommit` approves the result and rolled back otherwise or on error.
+ * Other writes wait until it has finished.
+ */
+export const withTransaction = async <T>(
+  work: () => Promise<T>,
+  shouldCommit: (result: T) => boolean = () => true
+): Promise<T> => {
+  if (transactionContext.getStore()) {
+    throw new Error('Nested transactions are not supported');
+  }
+
+  return withWriteLock(() => runTransaction(work, shouldCommit));
+};
+
 // Close database connection
 export const closeDatabase = async (): Promise<void> => {
   if (db) {
     db.close();
-    console.log('Database connection closed');
+    logger.info('Database connection closed');
   }
 };
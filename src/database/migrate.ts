@@ -0,0 +1,65 @@
+import dotenv from 'dotenv';
+import { connectDatabase, closeDatabase } from './init';
+import { migrate, rollback, getMigrationStatus, formatMigrationName } from './migrator';
+
+/**
+ * Command line entry point for schema migrations:
+ *
+ *   migrate.ts migrate [version]   apply pending migrations (up to version)
+ *   migrate.ts rollback [steps]    revert the latest migrations (default 1)
+ *   migrate.ts status              list migrations and whether they are applied
+ */
+
+dotenv.config();
+
+const USAGE = 'Usage: migrate.ts <migrate [version] | rollback [steps] | status>';
+
+const parsePositiveInteger = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return parsed;
+};
+
+const run = async (command: string | undefined, arg: string | undefined): Promise<void> => {
+  const db = await connectDatabase();
+
+  switch (command) {
+    case 'migrate': {
+      const applied = await migrate(db, parsePositiveInteger(arg, 'version'));
+      console.log(applied.length > 0
+        ? `Applied ${applied.length} migration(s)`
+        : 'Database is already up to date');
+      break;
+    }
+    case 'rollback': {
+      const reverted = await rollback(db, parsePositiveInteger(arg, 'steps'));
+      console.log(reverted.length > 0
+        ? `Rolled back ${reverted.length} migration(s)`
+        : 'No migrations to roll back');
+      break;
+    }
+    case 'status': {
+      const statuses = await getMigrationStatus(db);
+      for (const status of statuses) {
+        const state = status.unknown ? 'unknown' : (status.appliedAt ? 'applied' : 'pending');
+        console.log(`${state.padEnd(8)} ${formatMigrationName(status)}${status.appliedAt ? `  ${status.appliedAt}` : ''}`);
+      }
+      break;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+};
+
+run(process.argv[2], process.argv[3])
+  .then(() => closeDatabase())
+  .catch(async (error) => {
+    console.error(error.message || error);
+    await closeDatabase();
+    process.exit(1);
+  });
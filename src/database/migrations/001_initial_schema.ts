@@ -0,0 +1,360 @@
+import { Transaction } from '@libsql/client';
+import { v4 as uuidv4 } from 'uuid';
+import bcrypt from 'bcryptjs';
+import { Migration } from '../migrator';
+import { logger } from '../../utils/logger';
+
+/**
+ * Baseline schema. Databases created before versioned migrations existed are
+ * brought up to date in place by the legacy upgrades below.
+ */
+
+// Task change history; kept after the task itself is deleted
+const createTaskAuditTable = `CREATE TABLE IF NOT EXISTS task_audit (
+  id TEXT PRIMARY KEY,
+  userId TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  taskId TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore', 'purge')),
+  changes TEXT NOT NULL,
+  actorId TEXT,
+  apiKeyId TEXT,
+  method TEXT,
+  path TEXT,
+  ip TEXT,
+  userAgent TEXT,
+  createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+)`;
+
+// Tables whose rows belong to a user. Releases before user accounts created
+// them without an owner; upgradeLegacySchema rebuilds those.
+const ownedTablesQueries: Record<string, string> = {
+  categories: `CREATE TABLE IF NOT EXISTS categories (
+    id TEXT PRIMARY KEY,
+    userId TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    color TEXT NOT NULL,
+    description TEXT,
+    createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (userId, name)
+  )`,
+  tags: `CREATE TABLE IF NOT EXISTS tags (
+    id TEXT PRIMARY KEY,
+    userId TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL COLLATE NOCASE,
+    createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (userId, name)
+  )`,
+  events: `CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    userId TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    description TEXT,
+    startDate TEXT NOT NULL,
+    endDate TEXT NOT NULL,
+    allDay BOOLEAN NOT NULL DEFAULT 0,
+    location TEXT,
+    categoryId TEXT REFERENCES categories(id),
+    createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (endDate > startDate)
+  )`
+};
+
+const createTablesQueries = [
+  // Users table
+  `CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    passwordHash TEXT NOT NULL,
+    name TEXT,
+    createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )`,
+  // API keys and feed tokens (only a hash of each is stored)
+  `CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    userId TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    keyHash TEXT NOT NULL UNIQUE,
+    scopes TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'api' CHECK (kind IN ('api', 'feed')),
+    lastUsedAt TEXT,
+    revokedAt TEXT,
+    createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )`,
+  ownedTablesQueries.categories,
+  // Tasks table
+  `CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY,
+    userId TEXT REFERENCES users(id),
+    title TEXT NOT NULL,
+    description TEXT,
+    completed BOOLEAN NOT NULL DEFAULT 0,
+    priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+    dueDate TEXT,
+    categoryId TEXT REFERENCES categories(id),
+    parentId TEXT REFERENCES tasks(id) ON DELETE CASCADE,
+    recurrence TEXT,
+    occurrenceIndex INTEGER NOT NULL DEFAULT 1,
+    nextOccurrenceId TEXT,
+    deletedAt TEXT,
+    version INTEGER NOT NULL DEFAULT 1,
+    createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )`,
+  ownedTablesQueries.tags,
+  // Task/tag join table
+  `CREATE TABLE IF NOT EXISTS task_tags (
+    taskId TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    tagId TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    PRIMARY KEY (taskId, tagId)
+  )`,
+  ownedTablesQueries.events,
+  // Webhook subscriptions (the secret is kept to sign payloads)
+  `CREATE TABLE IF NOT EXISTS webhooks (
+    id TEXT PRIMARY KEY,
+    userId TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    events TEXT NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT 1,
+    createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )`,
+  // Webhook delivery queue and log
+  `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    webhookId TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    nextAttemptAt TEXT,
+    lastAttemptAt TEXT,
+    responseStatus INTEGER,
+    lastError TEXT,
+    createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )`,
+  // Task reminders; offset reminders follow their task's dueDate
+  `CREATE TABLE IF NOT EXISTS reminders (
+    id TEXT PRIMARY KEY,
+    taskId TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    userId TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    remindAt TEXT,
+    offsetMinutes INTEGER,
+    channel TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'fired', 'failed', 'skipped')),
+    firedAt TEXT,
+    error TEXT,
+    createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )`,
+  createTaskAuditTable
+];
+
+const createIndexesQueries = [
+  'CREATE INDEX IF NOT EXISTS idx_api_keys_userId ON api_keys(userId)',
+  'CREATE INDEX IF NOT EXISTS idx_tasks_userId ON tasks(userId)',
+  'CREATE INDEX IF NOT EXISTS idx_tasks_completed ON tasks(completed)',
+  'CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority)',
+  'CREATE INDEX IF NOT EXISTS idx_tasks_dueDate ON tasks(dueDate)',
+  'CREATE INDEX IF NOT EXISTS idx_tasks_categoryId ON tasks(categoryId)',
+  'CREATE INDEX IF NOT EXISTS idx_tasks_parentId ON tasks(parentId)',
+  'CREATE INDEX IF NOT EXISTS idx_tasks_deletedAt ON tasks(deletedAt)',
+  'CREATE INDEX IF NOT EXISTS idx_task_tags_tagId ON task_tags(tagId)',
+  'CREATE INDEX IF NOT EXISTS idx_categories_userId ON categories(userId)',
+  'CREATE INDEX IF NOT EXISTS idx_events_userId ON events(userId, startDate)',
+  'CREATE INDEX IF NOT EXISTS idx_events_startDate ON events(startDate)',
+  'CREATE INDEX IF NOT EXISTS idx_events_endDate ON events(endDate)',
+  'CREATE INDEX IF NOT EXISTS idx_events_categoryId ON events(categoryId)',
+  'CREATE INDEX IF NOT EXISTS idx_webhooks_userId ON webhooks(userId)',
+  'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhookId ON webhook_deliveries(webhookId)',
+  'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, nextAttemptAt)',
+  'CREATE INDEX IF NOT EXISTS idx_reminders_taskId ON reminders(taskId)',
+  'CREATE INDEX IF NOT EXISTS idx_reminders_due ON reminders(status, remindAt)',
+  'CREATE INDEX IF NOT EXISTS idx_task_audit_taskId ON task_audit(taskId, createdAt)',
+  'CREATE INDEX IF NOT EXISTS idx_task_audit_userId ON task_audit(userId, createdAt)'
+];
+
+// Columns added to the tasks table over time, in the order they were introduced
+const legacyTaskColumns: Record<string, string> = {
+  categoryId: 'TEXT REFERENCES categories(id)',
+  recurrence: 'TEXT',
+  occurrenceIndex: 'INTEGER NOT NULL DEFAULT 1',
+  nextOccurrenceId: 'TEXT',
+  parentId: 'TEXT REFERENCES tasks(id) ON DELETE CASCADE',
+  userId: 'TEXT REFERENCES users(id)',
+  deletedAt: 'TEXT',
+  version: 'INTEGER NOT NULL DEFAULT 1'
+};
+
+// Tables are dropped children first so foreign keys never dangle
+const dropTablesQueries = [
+  'DROP TABLE IF EXISTS task_audit',
+  'DROP TABLE IF EXISTS reminders',
+  'DROP TABLE IF EXISTS webhook_deliveries',
+  'DROP TABLE IF EXISTS webhooks',
+  'DROP TABLE IF EXISTS events',
+  'DROP TABLE IF EXISTS task_tags',
+  'DROP TABLE IF EXISTS tags',
+  'DROP TABLE IF EXISTS tasks',
+  'DROP TABLE IF EXISTS categories',
+  'DROP TABLE IF EXISTS api_keys',
+  'DROP TABLE IF EXISTS users'
+];
+
+// Finds or creates the account that owns data created before user accounts existed.
+// Creating it requires BOOTSTRAP_USER_PASSWORD, so no password ever has to be shown.
+const ensureBootstrapUser = async (tx: Transaction): Promise<string> => {
+  const email = process.env.BOOTSTRAP_USER_EMAIL || 'owner@planner.local';
+
+  const existing = await tx.execute({ sql: 'SELECT id FROM users WHERE email = ?', args: [email] });
+  if (existing.rows.length > 0) {
+    return String(existing.rows[0].id);
+  }
+
+  const password = process.env.BOOTSTRAP_USER_PASSWORD;
+  if (!password) {
+    throw new Error(`BOOTSTRAP_USER_PASSWORD must be set to create the bootstrap user ${email} for existing data`);
+  }
+
+  const id = uuidv4();
+  const now = new Date().toISOString();
+  await tx.execute({
+    sql: `INSERT INTO users (id, email, passwordHash, name, createdAt, updatedAt)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+    args: [id, email, await bcrypt.hash(password, 12), 'Bootstrap user', now, now]
+  });
+  logger.info('Created bootstrap user', { email });
+
+  return id;
+};
+
+const hasColumn = async (tx: Transaction, table: string, column: string): Promise<boolean> => {
+  const result = await tx.execute(`PRAGMA table_info(${table})`);
+  return result.rows.some((row: any) => row.name === column);
+};
+
+/**
+ * Replaces a table with one created by `createTable`, copying its rows back
+ * from `<table>_old` with `copyRows`. The table is dropped and recreated
+ * rather than renamed so that other tables keep referring to it by name.
+ */
+const rebuildTable = async (
+  tx: Transaction,
+  table: string,
+  createTable: string,
+  copyRows: () => Promise<void>
+): Promise<void> => {
+  await tx.execute(`CREATE TABLE ${table}_old AS SELECT * FROM ${table}`);
+  await tx.execute(`DROP TABLE ${table}`);
+  await tx.execute(createTable);
+  await copyRows();
+  await tx.execute(`DROP TABLE ${table}_old`);
+};
+
+/**
+ * Upgrades tables created by earlier releases, which altered the schema in
+ * place at startup. Tasks, categories, events and tags created before user
+ * accounts existed are given to the bootstrap user.
+ */
+const upgradeLegacySchema = async (tx: Transaction): Promise<void> => {
+  const result = await tx.execute('PRAGMA table_info(tasks)');
+  const columns = result.rows.map((row: any) => row.name);
+
+  for (const [column, definition] of Object.entries(legacyTaskColumns)) {
+    if (!columns.includes(column)) {
+      logger.info('Adding column to tasks table', { column });
+      await tx.execute(`ALTER TABLE tasks ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  if (!await hasColumn(tx, 'api_keys', 'kind')) {
+    logger.info('Adding column to api_keys table', { column: 'kind' });
+    await tx.execute(`ALTER TABLE api_keys ADD COLUMN kind TEXT NOT NULL DEFAULT 'api' CHECK (kind IN ('api', 'feed'))`);
+  }
+
+  // Tasks and events keep referring to rebuilt tables in between
+  await tx.execute('PRAGMA defer_foreign_keys = ON');
+
+  let bootstrapUserId: string | undefined;
+  const getBootstrapUserId = async (): Promise<string> => {
+    bootstrapUserId = bootstrapUserId || await ensureBootstrapUser(tx);
+    return bootstrapUserId;
+  };
+
+  const unowned = await tx.execute('SELECT COUNT(*) AS count FROM tasks WHERE userId IS NULL');
+  if (Number(unowned.rows[0].count) > 0) {
+    await tx.execute({ sql: 'UPDATE tasks SET userId = ? WHERE userId IS NULL', args: [await getBootstrapUserId()] });
+    logger.info('Assigned existing tasks to the bootstrap user', { count: Number(unowned.rows[0].count) });
+  }
+
+  for (const table of ['categories', 'events', 'tags']) {
+    if (await hasColumn(tx, table, 'userId')) {
+      continue;
+    }
+
+    logger.info('Giving existing rows an owner', { table });
+
+    // Dropping tags would cascade to task_tags, so its rows are set aside too
+    if (table === 'tags') {
+      await tx.execute('CREATE TABLE task_tags_old AS SELECT * FROM task_tags');
+    }
+
+    await rebuildTable(tx, table, ownedTablesQueries[table], async () => {
+      const rows = await tx.execute(`SELECT COUNT(*) AS count FROM ${table}_old`);
+      if (Number(rows.rows[0].count) === 0) {
+        return;
+      }
+
+      const columns = (await tx.execute(`SELECT * FROM ${table}_old LIMIT 0`)).columns.join(', ');
+      await tx.execute({
+        sql: `INSERT INTO ${table} (userId, ${columns}) SELECT ?, ${columns} FROM ${table}_old`,
+        args: [await getBootstrapUserId()]
+      });
+    });
+
+    if (table === 'tags') {
+      await tx.execute('INSERT INTO task_tags SELECT * FROM task_tags_old');
+      await tx.execute('DROP TABLE task_tags_old');
+    }
+  }
+
+  // The action check originally allowed only create, update and delete
+  const auditTable = await tx.execute(
+    "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'task_audit'"
+  );
+  if (!String(auditTable.rows[0]?.sql || '').includes("'restore'")) {
+    logger.info('Rebuilding task_audit table');
+    await tx.execute('ALTER TABLE task_audit RENAME TO task_audit_old');
+    await tx.execute(createTaskAuditTable);
+    await tx.execute('INSERT INTO task_audit SELECT * FROM task_audit_old');
+    await tx.execute('DROP TABLE task_audit_old');
+  }
+};
+
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  up: async (tx) => {
+    for (const query of createTablesQueries) {
+      await tx.execute(query);
+    }
+
+    await upgradeLegacySchema(tx);
+
+    for (const query of createIndexesQueries) {
+      await tx.execute(query);
+    }
+  },
+
+  down: async (tx) => {
+    for (const query of dropTablesQueries) {
+      await tx.execute(query);
+    }
+  }
+};
+
+export default migration;
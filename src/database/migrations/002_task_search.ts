@@ -0,0 +1,54 @@
+import { Migration } from '../migrator';
+
+/**
+ * Full-text search index over task titles and descriptions, kept in sync by
+ * triggers
+ */
+
+const createSearchQueries = [
+  `CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts USING fts5(
+    taskId UNINDEXED,
+    title,
+    description,
+    tokenize = 'unicode61 remove_diacritics 2'
+  )`,
+  `CREATE TRIGGER IF NOT EXISTS tasks_fts_insert AFTER INSERT ON tasks BEGIN
+    INSERT INTO tasks_fts (taskId, title, description)
+    VALUES (new.id, new.title, COALESCE(new.description, ''));
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS tasks_fts_update AFTER UPDATE OF title, description ON tasks BEGIN
+    DELETE FROM tasks_fts WHERE taskId = old.id;
+    INSERT INTO tasks_fts (taskId, title, description)
+    VALUES (new.id, new.title, COALESCE(new.description, ''));
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS tasks_fts_delete AFTER DELETE ON tasks BEGIN
+    DELETE FROM tasks_fts WHERE taskId = old.id;
+  END`
+];
+
+const migration: Migration = {
+  version: 2,
+  name: 'task_search',
+
+  up: async (tx) => {
+    for (const query of createSearchQueries) {
+      await tx.execute(query);
+    }
+
+    // Index existing tasks; older releases may have created the index already
+    await tx.execute('DELETE FROM tasks_fts');
+    await tx.execute(`
+      INSERT INTO tasks_fts (taskId, title, description)
+      SELECT id, title, COALESCE(description, '') FROM tasks
+    `);
+  },
+
+  down: async (tx) => {
+    await tx.execute('DROP TRIGGER IF EXISTS tasks_fts_insert');
+    await tx.execute('DROP TRIGGER IF EXISTS tasks_fts_update');
+    await tx.execute('DROP TRIGGER IF EXISTS tasks_fts_delete');
+    await tx.execute('DROP TABLE IF EXISTS tasks_fts');
+  }
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+import { Migration } from '../migrator';
+
+/**
+ * Idempotency keys of task writes, with the response to replay when a
+ * client retries the same request
+ */
+
+const migration: Migration = {
+  version: 3,
+  name: 'idempotency_keys',
+
+  up: async (tx) => {
+    await tx.execute(`CREATE TABLE IF NOT EXISTS idempotency_keys (
+      userId TEXT NOT NULL,
+      key TEXT NOT NULL,
+      fingerprint TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed')),
+      responseStatus INTEGER,
+      responseHeaders TEXT,
+      responseBody TEXT,
+      createdAt TEXT NOT NULL,
+      expiresAt TEXT NOT NULL,
+      PRIMARY KEY (userId, key),
+      FOREIGN KEY (userId) REFERENCES users (id) ON DELETE CASCADE
+    )`);
+    await tx.execute('CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expiresAt ON idempotency_keys(expiresAt)');
+  },
+
+  down: async (tx) => {
+    await tx.execute('DROP TABLE IF EXISTS idempotency_keys');
+  }
+};
+
+export default migration;
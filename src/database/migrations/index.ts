@@ -0,0 +1,12 @@
+import { Migration } from '../migrator';
+import initialSchema from './001_initial_schema';
+import taskSearch from './002_task_search';
+import idempotencyKeys from './003_idempotency_keys';
+
+// Every migration, oldest first. New migrations take the next number and are
+// added to the end of this list.
+export const migrations: Migration[] = [
+  initialSchema,
+  taskSearch,
+  idempotencyKeys
+];
@@ -0,0 +1,184 @@
+import { Client, Transaction } from '@libsql/client';
+import { migrations } from './migrations';
+import { logger } from '../utils/logger';
+
+/**
+ * Versioned schema migrations. Applied versions are recorded in the
+ * schema_migrations table, and each migration runs in its own transaction
+ * together with that record, so a failed migration leaves no trace.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (tx: Transaction) => Promise<void>;
+  down: (tx: Transaction) => Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  // Set once the migration has been applied
+  appliedAt?: string;
+  // Applied to the database but not part of this build
+  unknown?: boolean;
+}
+
+const createMigrationsTable = `CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  appliedAt TEXT NOT NULL
+)`;
+
+export const formatMigrationName = (migration: { version: number; name: string }): string => {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+};
+
+const getAppliedMigrations = async (db: Client): Promise<Map<number, { name: string; appliedAt: string }>> => {
+  await db.execute(createMigrationsTable);
+  const result = await db.execute('SELECT version, name, appliedAt FROM schema_migrations ORDER BY version');
+
+  return new Map(result.rows.map((row: any) => [
+    Number(row.version),
+    { name: String(row.name), appliedAt: String(row.appliedAt) }
+  ]));
+};
+
+/**
+ * Runs one migration step in a write transaction, rolling it back on error.
+ * `step` returns false when there turns out to be nothing to do.
+ */
+const runStep = async (
+  db: Client,
+  migration: Migration,
+  direction: 'up' | 'down',
+  step: (tx: Transaction) => Promise<boolean>
+): Promise<boolean> => {
+  const transaction = await db.transaction('write');
+
+  // Local clients hand their connection to the transaction and open a new
+  // one for other queries, which needs foreign keys enabled again
+  if (db.protocol === 'file') {
+    await db.execute('PRAGMA foreign_keys = ON');
+  }
+
+  try {
+    const changed = await step(transaction);
+    await transaction.commit();
+    return changed;
+  } catch (error: any) {
+    await transaction.rollback();
+    const action = direction === 'up' ? 'Migration' : 'Rollback of migration';
+    throw new Error(`${action} ${formatMigrationName(migration)} failed: ${error?.message || error}`);
+  } finally {
+    transaction.close();
+  }
+};
+
+const isApplied = async (tx: Transaction, version: number): Promise<boolean> => {
+  const result = await tx.execute({ sql: 'SELECT 1 FROM schema_migrations WHERE version = ?', args: [version] });
+  return result.rows.length > 0;
+};
+
+/**
+ * Applies every pending migration up to `targetVersion` (default: all) and
+ * returns the ones applied. Refuses to run against a database that has
+ * migrations this build does not know about.
+ */
+export const migrate = async (db: Client, targetVersion?: number): Promise<Migration[]> => {
+  const applied = await getAppliedMigrations(db);
+
+  const unknownVersions = [...applied.keys()].filter(version => !migrations.some(m => m.version === version));
+  if (unknownVersions.length > 0) {
+    throw new Error(
+      `Database has migrations this build does not know about (${unknownVersions.join(', ')}); ` +
+      'run a newer build or roll them back with the build that applied them'
+    );
+  }
+
+  const pending = migrations.filter(migration =>
+    !applied.has(migration.version) && (targetVersion === undefined || migration.version <= targetVersion)
+  );
+
+  const appliedNow: Migration[] = [];
+  for (const migration of pending) {
+    logger.info('Applying migration', { migration: formatMigrationName(migration) });
+
+    const changed = await runStep(db, migration, 'up', async (tx) => {
+      // Another process may have applied it while this one waited for the lock
+      if (await isApplied(tx, migration.version)) {
+        return false;
+      }
+
+      await migration.up(tx);
+      await tx.execute({
+        sql: 'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)',
+        args: [migration.version, migration.name, new Date().toISOString()]
+      });
+      return true;
+    });
+
+    if (changed) {
+      appliedNow.push(migration);
+    }
+  }
+
+  return appliedNow;
+};
+
+/**
+ * Reverts the most recently applied `steps` migrations, newest first, and
+ * returns the ones reverted
+ */
+export const rollback = async (db: Client, steps: number = 1): Promise<Migration[]> => {
+  const applied = await getAppliedMigrations(db);
+  const versions = [...applied.keys()].sort((a, b) => b - a).slice(0, steps);
+
+  const reverted: Migration[] = [];
+  for (const version of versions) {
+    const migration = migrations.find(m => m.version === version);
+    if (!migration) {
+      throw new Error(`Cannot roll back migration ${version}: it is not part of this build`);
+    }
+
+    logger.info('Rolling back migration', { migration: formatMigrationName(migration) });
+
+    const changed = await runStep(db, migration, 'down', async (tx) => {
+      if (!await isApplied(tx, migration.version)) {
+        return false;
+      }
+
+      await migration.down(tx);
+      await tx.execute({ sql: 'DELETE FROM schema_migrations WHERE version = ?', args: [migration.version] });
+      return true;
+    });
+
+    if (changed) {
+      reverted.push(migration);
+    }
+  }
+
+  return reverted;
+};
+
+/**
+ * Every known migration with when it was applied, plus any applied
+ * migrations this build does not know about
+ */
+export const getMigrationStatus = async (db: Client): Promise<MigrationStatus[]> => {
+  const applied = await getAppliedMigrations(db);
+
+  const statuses: MigrationStatus[] = migrations.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version)?.appliedAt
+  }));
+
+  for (const [version, { name, appliedAt }] of applied) {
+    if (!migrations.some(m => m.version === version)) {
+      statuses.push({ version, name, appliedAt, unknown: true });
+    }
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+};
@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler, createError } from './errorHandler';
+import { verifyAuthToken, verifyStreamToken } from '../utils/auth';
+import { authenticateApiKey, isApiKey, isFeedToken } from '../models/ApiKey';
+import { ApiKeyScope, AuthUser } from '../types';
+
+/**
+ * Extracts the credential from an `Authorization: Bearer <token>` or
+ * `Authorization: ApiKey <key>` header
+ */
+export const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, token] = header.split(' ');
+  const normalizedScheme = scheme?.toLowerCase();
+  return (normalizedScheme === 'bearer' || normalizedScheme === 'apikey') && token ? token : null;
+};
+
+/**
+ * Requires a valid login token or API key and exposes its user as `req.user`
+ */
+export const authenticate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+  if (!token) {
+    return next(createError('Authentication required', 401));
+  }
+
+  if (isFeedToken(token)) {
+    return next(createError('Feed tokens can only be used with the calendar feed and event stream', 401));
+  }
+
+  const user = isApiKey(token)
+    ? await authenticateApiKey(token)
+    : verifyAuthToken(token);
+  if (!user) {
+    return next(createError(isApiKey(token) ? 'Invalid or revoked API key' : 'Invalid or expired token', 401));
+  }
+
+  req.user = user;
+  next();
+});
+
+/**
+ * Authenticates the calendar feed. Calendar clients that cannot send headers
+ * pass a feed token as `?token=`; as URLs end up in logs and client
+ * settings, API keys are refused there. Without a token the request needs
+ * the usual Authorization header. The parameter is removed from the query.
+ */
+export const authenticateFeed = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  if (req.query.key !== undefined) {
+    return next(createError('API keys cannot be passed in URLs; create a feed token and pass it as token', 401));
+  }
+
+  const token = req.query.token;
+  delete req.query.token;
+  if (token === undefined) {
+    return authenticate(req, res, next);
+  }
+
+  const user = typeof token === 'string' && isFeedToken(token)
+    ? await authenticateApiKey(token, 'feed')
+    : null;
+  if (!user) {
+    return next(createError('Invalid or revoked feed token', 401));
+  }
+
+  req.user = user;
+  next();
+});
+
+/**
+ * Authenticates the event stream. EventSource clients, which cannot send
+ * headers, pass a stream token or feed token as `?access_token=`; login
+ * tokens and API keys are refused there, as URLs end up in logs. Without
+ * the parameter, and for anything but opening the stream, the request needs
+ * the usual Authorization header. The parameter is removed from the query.
+ */
+export const authenticateStream = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const token = req.query.access_token;
+  delete req.query.access_token;
+  if (token === undefined || req.method !== 'GET') {
+    return authenticate(req, res, next);
+  }
+
+  let user: AuthUser | null = null;
+  if (typeof token === 'string') {
+    user = isFeedToken(token) ? await authenticateApiKey(token, 'feed') : verifyStreamToken(token);
+  }
+  if (!user) {
+    return next(createError('Invalid or expired access_token; pass a stream token or feed token', 401));
+  }
+
+  req.user = user;
+  next();
+});
+
+/**
+ * Whether the authenticated user may act with `scope`. Login sessions carry
+ * no scopes and may do anything; API keys need the scope or `admin`.
+ */
+export const hasScope = (req: Request, scope: ApiKeyScope): boolean => {
+  const scopes = req.user?.scopes;
+  return !scopes || scopes.includes('admin') || scopes.includes(scope);
+};
+
+/**
+ * Restricts API key access to keys holding `scope` (or `admin`)
+ */
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasScope(req, scope)) {
+      return next(createError(`API key is missing the "${scope}" scope`, 403));
+    }
+    next();
+  };
+};
+
+/**
+ * Applies `readScope` to safe methods (GET, HEAD, OPTIONS) and `writeScope`
+ * to everything else
+ */
+export const requireScopeByMethod = (readScope: ApiKeyScope, writeScope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const isRead = ['GET', 'HEAD', 'OPTIONS'].includes(req.method);
+    return requireScope(isRead ? readScope : writeScope)(req, res, next);
+  };
+};
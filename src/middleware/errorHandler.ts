@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { ApiResponse } from '../types';
+import { logger, redactUrl } from '../utils/logger';
+import { rememberRouteLabel } from './metrics';
 
 export interface AppError extends Error {
   statusCode?: number;
@@ -22,14 +24,10 @@ export const errorHandler = (
   let statusCode = error.statusCode || 500;
   let message = error.message || 'Internal Server Error';
 
-  // Log error details
-  console.error('Error occurred:', {
-    message: error.message,
-    stack: error.stack,
-    url: req.url,
-    method: req.method,
-    statusCode
-  });
+  // Raised by the body parsers for bodies over REQUEST_BODY_LIMIT
+  if ((error as any).type === 'entity.too.large') {
+    message = 'Request body is too large';
+  }
 
   // Handle specific SQLite errors
   if (error.message.includes('SQLITE_CONSTRAINT_UNIQUE')) {
@@ -43,6 +41,14 @@ export const errorHandler = (
     message = 'Database constraint violation';
   }
 
+  // Server errors are logged with their stack; client errors are expected
+  const logFields = { requestId: req.requestId, method: req.method, url: redactUrl(req.originalUrl), statusCode };
+  if (statusCode >= 500) {
+    logger.error('Request failed', { ...logFields, error });
+  } else {
+    logger.warn('Request rejected', { ...logFields, message });
+  }
+
   // Don't expose internal errors in production
   if (process.env.NODE_ENV === 'production' && statusCode === 500) {
     message = 'Internal Server Error';
@@ -59,7 +65,10 @@ export const errorHandler = (
 
 export const asyncHandler = (fn: Function) => {
   return (req: Request, res: Response, next: NextFunction) => {
-    Promise.resolve(fn(req, res, next)).catch(next);
+    Promise.resolve(fn(req, res, next)).catch(error => {
+      rememberRouteLabel(req, res);
+      next(error);
+    });
   };
 };
 
@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { asyncHandler, createError } from './errorHandler';
+import { logger } from '../utils/logger';
+import {
+  findIdempotencyRecord,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  IdempotencyRecord
+} from '../models/IdempotencyKey';
+
+/**
+ * Makes a write safe to retry: when the client sends an `Idempotency-Key`
+ * header, the first response is stored and replayed for repeats of the same
+ * request within IDEMPOTENCY_KEY_TTL_HOURS (default 24). Reusing a key for a
+ * different request is rejected with 422. Requests without the header are
+ * processed as usual.
+ */
+
+const DEFAULT_TTL_HOURS = 24;
+const MAX_KEY_LENGTH = 255;
+
+// Response headers restored on replay
+const REPLAYED_HEADERS = ['etag'];
+
+export const getIdempotencyKeyTtlHours = (): number => {
+  const configured = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TTL_HOURS;
+};
+
+/**
+ * Identifies the request a key was first used for: the route, query and body
+ */
+const getRequestFingerprint = (req: Request): string => {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      method: req.method,
+      path: `${req.baseUrl}${req.path}`,
+      query: req.query,
+      body: req.body ?? null
+    }))
+    .digest('hex');
+};
+
+const replayResponse = (record: IdempotencyRecord, fingerprint: string, res: Response): void => {
+  if (record.fingerprint !== fingerprint) {
+    throw createError('Idempotency-Key has already been used for a different request', 422);
+  }
+  if (!record.response) {
+    throw createError('A request with this Idempotency-Key is still being processed', 409);
+  }
+
+  Object.entries(record.response.headers).forEach(([name, value]) => res.setHeader(name, value));
+  res.setHeader('Idempotent-Replayed', 'true');
+  res.status(record.response.status).json(record.response.body);
+};
+
+export const idempotent = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.header('Idempotency-Key');
+  if (key === undefined) {
+    return next();
+  }
+
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    return next(createError(`Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`, 400));
+  }
+
+  const userId = req.user!.id;
+  const fingerprint = getRequestFingerprint(req);
+  const expiresAt = new Date(Date.now() + getIdempotencyKeyTtlHours() * 60 * 60 * 1000).toISOString();
+
+  if (!await claimIdempotencyKey(userId, key, fingerprint, expiresAt)) {
+    const record = await findIdempotencyRecord(userId, key);
+    if (record) {
+      return replayResponse(record, fingerprint, res);
+    }
+    // The earlier record expired in the meantime
+    if (!await claimIdempotencyKey(userId, key, fingerprint, expiresAt)) {
+      return next(createError('A request with this Idempotency-Key is still being processed', 409));
+    }
+  }
+
+  // Server errors are not stored, so the request can be retried with the same key
+  let settled = false;
+  const originalJson = res.json.bind(res);
+  res.json = (body?: any) => {
+    settled = true;
+    const store = res.statusCode < 500
+      ? completeIdempotencyKey(userId, key, {
+          status: res.statusCode,
+          headers: Object.fromEntries(REPLAYED_HEADERS
+            .filter(name => res.getHeader(name) !== undefined)
+            .map(name => [name, String(res.getHeader(name))])),
+          body
+        })
+      : releaseIdempotencyKey(userId, key);
+
+    store
+      .catch(error => logger.error('Failed to store idempotent response', { error }))
+      .finally(() => originalJson(body));
+    return res;
+  };
+
+  // Responses sent without res.json, or connections closed early, leave nothing to replay
+  res.on('close', () => {
+    if (!settled) {
+      releaseIdempotencyKey(userId, key).catch(error => logger.error('Failed to release idempotency key', { error }));
+    }
+  });
+
+  next();
+});
@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestsTotal, httpRequestDuration, getDurationSeconds } from '../utils/metrics';
+
+// Label for requests that did not reach a route: unknown paths, and requests
+// rejected by authentication or rate limiting before routing
+const UNMATCHED_ROUTE = 'unmatched';
+
+/**
+ * The path template of the route a request matched, e.g.
+ * /api/tasks/:taskId/reminders/:id. `baseUrl` holds the concrete mount path,
+ * so parameter values captured by the mount are put back as their names.
+ *
+ * Express resets `baseUrl` once an error is passed out of a router, so this
+ * is only accurate while the request is still inside its router; see
+ * rememberRouteLabel.
+ */
+export const getRouteLabel = (req: Request): string => {
+  if (!req.route || !req.baseUrl) {
+    return UNMATCHED_ROUTE;
+  }
+
+  const mountPath = req.baseUrl
+    .split('/')
+    .map(segment => {
+      const name = Object.keys(req.params).find(key => req.params[key] && encodeURIComponent(req.params[key]) === segment);
+      return name ? `:${name}` : segment;
+    })
+    .join('/');
+  const path = String(req.route.path);
+  return `${mountPath}${path === '/' ? '' : path}`;
+};
+
+/**
+ * Keeps the route label of a request whose error is about to be passed to the
+ * error handler, outside the router
+ */
+export const rememberRouteLabel = (req: Request, res: Response): void => {
+  res.locals.routeLabel = getRouteLabel(req);
+};
+
+/**
+ * Counts and times every request by method, route template and status code.
+ * Templates rather than URLs keep the number of series bounded.
+ */
+export const recordHttpMetrics = (req: Request, res: Response, next: NextFunction) => {
+  const startedAt = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const route: string = res.locals.routeLabel || getRouteLabel(req);
+    const labels = { method: req.method, route, status: String(res.statusCode) };
+    httpRequestsTotal.inc(labels);
+    httpRequestDuration.observe(labels, getDurationSeconds(startedAt));
+  });
+  next();
+};
@@ -0,0 +1,183 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiResponse } from '../types';
+
+/**
+ * Token bucket rate limiting. Every client IP and every authenticated user
+ * or API key gets a bucket per route group that holds up to the group's
+ * per-minute limit and refills continuously; a request takes one token from
+ * each bucket that applies. The IP bucket is checked before authentication,
+ * so invalid credentials are throttled without reaching the database, and
+ * the credential bucket after it, so only verified credentials get one.
+ * Buckets live in memory, so each server process limits independently.
+ */
+
+export type RateLimitGroup = 'read' | 'write' | 'export';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface BucketState {
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again
+  resetSeconds: number;
+  // Seconds until the next token is available, when the bucket is empty
+  retryAfterSeconds: number;
+}
+
+const DEFAULT_LIMITS: Record<RateLimitGroup, number> = {
+  read: 300,
+  write: 60,
+  export: 10
+};
+
+const LIMIT_VARIABLES: Record<RateLimitGroup, string> = {
+  read: 'RATE_LIMIT_READS_PER_MINUTE',
+  write: 'RATE_LIMIT_WRITES_PER_MINUTE',
+  export: 'RATE_LIMIT_EXPORTS_PER_MINUTE'
+};
+
+const WINDOW_MS = 60 * 1000;
+// Full buckets carry no state, so they are dropped this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const buckets = new Map<string, Bucket>();
+let lastSweepAt = Date.now();
+
+/**
+ * Requests per minute allowed for the group, or 0 when it is not limited.
+ * RATE_LIMIT_ENABLED=false turns off rate limiting altogether.
+ */
+export function getRateLimit(group: RateLimitGroup): number {
+  if (process.env.RATE_LIMIT_ENABLED === 'false') {
+    return 0;
+  }
+  const configured = Number(process.env[LIMIT_VARIABLES[group]] ?? DEFAULT_LIMITS[group]);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_LIMITS[group];
+}
+
+const refill = (bucket: Bucket, limit: number, now: number): void => {
+  bucket.tokens = Math.min(limit, bucket.tokens + ((now - bucket.updatedAt) / WINDOW_MS) * limit);
+  bucket.updatedAt = now;
+};
+
+const sweepFullBuckets = (now: number): void => {
+  if (now - lastSweepAt < SWEEP_INTERVAL_MS) {
+    return;
+  }
+  lastSweepAt = now;
+
+  for (const [key, bucket] of buckets) {
+    if (now - bucket.updatedAt >= WINDOW_MS) {
+      buckets.delete(key);
+    }
+  }
+};
+
+const getBucket = (key: string, limit: number, now: number): Bucket => {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = { tokens: limit, updatedAt: now };
+    buckets.set(key, bucket);
+  }
+  refill(bucket, limit, now);
+  return bucket;
+};
+
+const getBucketState = (bucket: Bucket, limit: number): BucketState => {
+  const msPerToken = WINDOW_MS / limit;
+  return {
+    limit,
+    remaining: Math.floor(bucket.tokens),
+    resetSeconds: Math.ceil(((limit - bucket.tokens) * msPerToken) / 1000),
+    retryAfterSeconds: Math.max(1, Math.ceil(((1 - bucket.tokens) * msPerToken) / 1000))
+  };
+};
+
+// Identifies whose bucket a request takes from, or null when none applies
+type BucketOwner = (req: Request) => string | null;
+
+const byIp: BucketOwner = req => `ip:${req.ip}`;
+
+// Only set once authentication has verified the credential
+const byCredential: BucketOwner = req => {
+  if (!req.user) {
+    return null;
+  }
+  return req.user.apiKeyId ? `apiKey:${req.user.apiKeyId}` : `user:${req.user.id}`;
+};
+
+/**
+ * Sets the headers for the bucket closest to running out of those the
+ * request has taken from so far
+ */
+const setRateLimitHeaders = (res: Response, state: BucketState): void => {
+  const previous: BucketState | undefined = res.locals.rateLimit;
+  if (previous && previous.remaining < state.remaining) {
+    return;
+  }
+  res.locals.rateLimit = state;
+
+  res.setHeader('RateLimit-Limit', state.limit);
+  res.setHeader('RateLimit-Remaining', state.remaining);
+  res.setHeader('RateLimit-Reset', state.resetSeconds);
+  res.setHeader('RateLimit-Policy', `${state.limit};w=${WINDOW_MS / 1000}`);
+};
+
+/**
+ * Takes a token from the owner's bucket for the group. Without a group, safe
+ * methods (GET, HEAD, OPTIONS) count as reads and everything else as writes.
+ */
+const limitBy = (owner: BucketOwner, group?: RateLimitGroup): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const routeGroup = group || (['GET', 'HEAD', 'OPTIONS'].includes(req.method) ? 'read' : 'write');
+    const limit = getRateLimit(routeGroup);
+    const ownerKey = owner(req);
+    if (limit === 0 || !ownerKey) {
+      return next();
+    }
+
+    const now = Date.now();
+    sweepFullBuckets(now);
+
+    const bucket = getBucket(`${routeGroup}:${ownerKey}`, limit, now);
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+
+    const state = getBucketState(bucket, limit);
+    setRateLimitHeaders(res, state);
+
+    if (!allowed) {
+      res.setHeader('Retry-After', state.retryAfterSeconds);
+
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Too many requests',
+        message: `Rate limit of ${limit} ${routeGroup} requests per minute exceeded; retry in ${state.retryAfterSeconds} second${state.retryAfterSeconds === 1 ? '' : 's'}`
+      };
+      return res.status(429).json(response);
+    }
+
+    next();
+  };
+};
+
+/**
+ * Limits requests per client IP. Runs before authentication.
+ */
+export const rateLimitByIp = (group?: RateLimitGroup): RequestHandler => limitBy(byIp, group);
+
+/**
+ * Limits requests per authenticated user, or per API key for requests made
+ * with one. Runs after authentication; unauthenticated requests pass.
+ */
+export const rateLimitByCredential = (group?: RateLimitGroup): RequestHandler => limitBy(byCredential, group);
+
+/**
+ * Limits authenticated requests per client IP, then per credential
+ */
+export const rateLimit = (group?: RateLimitGroup): RequestHandler[] => [rateLimitByIp(group), rateLimitByCredential(group)];
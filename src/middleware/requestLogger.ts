@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger, redactUrl, getDurationMs } from '../utils/logger';
+
+/**
+ * Logs one entry per request once the response has been sent, or when the
+ * client disconnects first (as event streams do)
+ */
+export const logRequests = (req: Request, res: Response, next: NextFunction) => {
+  const startedAt = process.hrtime.bigint();
+  let logged = false;
+
+  const logRequest = () => {
+    if (logged) {
+      return;
+    }
+    logged = true;
+
+    logger.info(res.writableFinished ? 'Request completed' : 'Request aborted', {
+      requestId: req.requestId,
+      method: req.method,
+      url: redactUrl(req.originalUrl),
+      status: res.statusCode,
+      durationMs: getDurationMs(startedAt),
+      contentLength: res.getHeader('Content-Length'),
+      ip: req.ip,
+      userId: req.user?.id,
+      apiKeyId: req.user?.apiKeyId,
+      userAgent: req.get('user-agent')
+    });
+  };
+
+  res.on('finish', logRequest);
+  res.on('close', logRequest);
+  next();
+};
@@ -0,0 +1,125 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createHash, randomBytes } from 'crypto';
+import { runQuery, getRow, getAllRows } from '../database/init';
+import { ApiKey, ApiKeyKind, ApiKeyScope, AuthUser, CreateApiKeyRequest, CreatedApiKey } from '../types';
+
+/**
+ * Every API key starts with this marker so it can be told apart from login tokens
+ */
+export const API_KEY_PREFIX = 'dp_';
+
+/**
+ * Feed tokens have their own marker, so they are never mistaken for API keys
+ */
+export const FEED_TOKEN_PREFIX = 'dpf_';
+
+// How stale lastUsedAt may get; recording every use would make each
+// request wait for the database write lock
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Feed tokens appear in URLs, so they can only ever read tasks
+const FEED_TOKEN_SCOPES: ApiKeyScope[] = ['tasks:read'];
+
+const KEY_PREFIXES: Record<ApiKeyKind, string> = {
+  api: API_KEY_PREFIX,
+  feed: FEED_TOKEN_PREFIX
+};
+
+const hashApiKey = (key: string): string => {
+  return createHash('sha256').update(key).digest('hex');
+};
+
+const mapRowToApiKey = (row: any): ApiKey => {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    prefix: row.prefix,
+    scopes: JSON.parse(row.scopes),
+    lastUsedAt: row.lastUsedAt || undefined,
+    revokedAt: row.revokedAt || undefined,
+    createdAt: row.createdAt
+  };
+};
+
+export const isApiKey = (token: string): boolean => {
+  return token.startsWith(API_KEY_PREFIX);
+};
+
+export const isFeedToken = (token: string): boolean => {
+  return token.startsWith(FEED_TOKEN_PREFIX);
+};
+
+/**
+ * Creates an API key or feed token for a user. The plaintext key is only
+ * returned here; the database keeps a SHA-256 hash of it.
+ */
+export const createApiKey = async (userId: string, keyData: CreateApiKeyRequest): Promise<CreatedApiKey> => {
+  const id = uuidv4();
+  const now = new Date().toISOString();
+  const kind = keyData.kind || 'api';
+  const scopes = kind === 'feed' ? FEED_TOKEN_SCOPES : keyData.scopes;
+  const key = `${KEY_PREFIXES[kind]}${randomBytes(32).toString('base64url')}`;
+  const prefix = key.slice(0, KEY_PREFIXES[kind].length + 8);
+
+  const query = `
+    INSERT INTO api_keys (id, userId, name, kind, prefix, keyHash, scopes, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  await runQuery(query, [id, userId, keyData.name, kind, prefix, hashApiKey(key), JSON.stringify(scopes), now]);
+
+  return {
+    apiKey: {
+      id,
+      name: keyData.name,
+      kind,
+      prefix,
+      scopes,
+      createdAt: now
+    },
+    key
+  };
+};
+
+export const findApiKeysByUser = async (userId: string): Promise<ApiKey[]> => {
+  const query = 'SELECT * FROM api_keys WHERE userId = ? ORDER BY createdAt DESC';
+  const rows = await getAllRows(query, [userId]);
+  return rows.map(row => mapRowToApiKey(row));
+};
+
+export const revokeApiKey = async (userId: string, id: string): Promise<boolean> => {
+  const query = 'UPDATE api_keys SET revokedAt = ? WHERE id = ? AND userId = ? AND revokedAt IS NULL';
+  const result = await runQuery(query, [new Date().toISOString(), id, userId]);
+  return (result.changes || 0) > 0;
+};
+
+/**
+ * Resolves a plaintext API key (or, with `kind` 'feed', a feed token) to the
+ * user it acts for and records its use, to the minute. Returns null for
+ * unknown or revoked keys, and for keys of the other kind.
+ */
+export const authenticateApiKey = async (key: string, kind: ApiKeyKind = 'api'): Promise<AuthUser | null> => {
+  const query = `
+    SELECT api_keys.id, api_keys.scopes, api_keys.lastUsedAt, users.id AS userId, users.email
+    FROM api_keys
+    JOIN users ON users.id = api_keys.userId
+    WHERE api_keys.keyHash = ? AND api_keys.kind = ? AND api_keys.revokedAt IS NULL
+  `;
+  const row = await getRow(query, [hashApiKey(key), kind]);
+  if (!row) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (!row.lastUsedAt || now - new Date(row.lastUsedAt).getTime() >= LAST_USED_RESOLUTION_MS) {
+    await runQuery('UPDATE api_keys SET lastUsedAt = ? WHERE id = ?', [new Date(now).toISOString(), row.id]);
+  }
+
+  return {
+    id: row.userId,
+    email: row.email,
+    apiKeyId: row.id,
+    scopes: JSON.parse(row.scopes)
+  };
+};
@@ -0,0 +1,150 @@
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getRow, getAllRows } from '../database/init';
+import { Task, TaskAuditEntry, AuditAction, AuditFilters, FieldChange } from '../types';
+import { calculateOffset } from '../utils/pagination';
+import { getRequestOrigin } from '../utils/requestContext';
+import { AUDITED_TASK_FIELDS } from '../utils/validation';
+
+const mapRowToAuditEntry = (row: any): TaskAuditEntry => {
+  return {
+    id: row.id,
+    taskId: row.taskId,
+    action: row.action,
+    changes: JSON.parse(row.changes),
+    origin: {
+      actorId: row.actorId || undefined,
+      apiKeyId: row.apiKeyId || undefined,
+      method: row.method || undefined,
+      path: row.path || undefined,
+      ip: row.ip || undefined,
+      userAgent: row.userAgent || undefined
+    },
+    createdAt: row.createdAt
+  };
+};
+
+// Missing, empty and null values all mean "not set"
+const normalizeValue = (value: unknown): unknown => {
+  if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return null;
+  }
+  return value;
+};
+
+/**
+ * Field-level differences between two versions of a task. Pass null as
+ * `before` for a new task and as `after` for a deleted one.
+ */
+export const diffTaskFields = (before: Task | null, after: Task | null): Record<string, FieldChange> => {
+  const changes: Record<string, FieldChange> = {};
+
+  for (const field of AUDITED_TASK_FIELDS) {
+    const previous = normalizeValue(before ? (before as any)[field] : null);
+    const next = normalizeValue(after ? (after as any)[field] : null);
+
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Records a change to a task together with the request it came from.
+ * Updates that changed nothing are not recorded.
+ */
+export const recordTaskAudit = async (
+  userId: string,
+  taskId: string,
+  action: AuditAction,
+  changes: Record<string, FieldChange>
+): Promise<void> => {
+  if (action === 'update' && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  const origin = getRequestOrigin();
+  const query = `
+    INSERT INTO task_audit (id, userId, taskId, action, changes, actorId, apiKeyId, method, path, ip, userAgent, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  await runQuery(query, [
+    uuidv4(),
+    userId,
+    taskId,
+    action,
+    JSON.stringify(changes),
+    origin.actorId || null,
+    origin.apiKeyId || null,
+    origin.method || null,
+    origin.path || null,
+    origin.ip || null,
+    origin.userAgent || null,
+    new Date().toISOString()
+  ]);
+};
+
+const buildAuditFilterClause = (
+  userId: string,
+  filters: Omit<AuditFilters, 'page' | 'limit' | 'sortBy' | 'sortOrder'>
+): { clause: string; params: any[] } => {
+  let clause = ' AND userId = ?';
+  const params: any[] = [userId];
+
+  if (filters.taskId) {
+    clause += ' AND taskId = ?';
+    params.push(filters.taskId);
+  }
+
+  if (filters.action) {
+    clause += ' AND action = ?';
+    params.push(filters.action);
+  }
+
+  if (filters.field) {
+    clause += ' AND EXISTS (SELECT 1 FROM json_each(task_audit.changes) WHERE json_each.key = ?)';
+    params.push(filters.field);
+  }
+
+  if (filters.apiKeyId) {
+    clause += ' AND apiKeyId = ?';
+    params.push(filters.apiKeyId);
+  }
+
+  if (filters.from) {
+    clause += ' AND createdAt >= ?';
+    params.push(filters.from);
+  }
+
+  if (filters.to) {
+    clause += ' AND createdAt <= ?';
+    params.push(filters.to);
+  }
+
+  return { clause, params };
+};
+
+/**
+ * Audit entries for the user's tasks, newest first
+ */
+export const findAuditEntries = async (userId: string, filters: AuditFilters = {}): Promise<TaskAuditEntry[]> => {
+  const { clause, params } = buildAuditFilterClause(userId, filters);
+  const sortOrder = filters.sortOrder === 'asc' ? 'ASC' : 'DESC';
+  let query = `SELECT * FROM task_audit WHERE 1=1${clause} ORDER BY createdAt ${sortOrder}, rowid ${sortOrder}`;
+
+  if (filters.limit) {
+    const offset = calculateOffset(filters.page || 1, filters.limit);
+    query += ` LIMIT ${filters.limit} OFFSET ${offset}`;
+  }
+
+  const rows = await getAllRows(query, params);
+  return rows.map(row => mapRowToAuditEntry(row));
+};
+
+export const getAuditCount = async (userId: string, filters: AuditFilters = {}): Promise<number> => {
+  const { clause, params } = buildAuditFilterClause(userId, filters);
+  const row = await getRow(`SELECT COUNT(*) as count FROM task_audit WHERE 1=1${clause}`, params);
+  return Number(row?.count || 0);
+};
@@ -0,0 +1,225 @@
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getRow, getAllRows } from '../database/init';
+import {
+  Category,
+  CreateCategoryRequest,
+  UpdateCategoryRequest,
+  CategoryFilters,
+  CategoryUsage,
+  Task
+} from '../types';
+import { parseSortParams } from '../utils/pagination';
+import { updateTask } from './Task';
+import { recordTaskAudit } from './AuditLog';
+
+const mapRowToCategory = (row: any): Category => {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    description: row.description,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  };
+};
+
+export const createCategory = async (userId: string, categoryData: CreateCategoryRequest): Promise<Category> => {
+  const id = uuidv4();
+  const now = new Date().toISOString();
+
+  const query = `
+    INSERT INTO categories (id, userId, name, color, description, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    id,
+    userId,
+    categoryData.name,
+    categoryData.color,
+    categoryData.description || null,
+    now,
+    now
+  ];
+
+  await runQuery(query, params);
+
+  return {
+    id,
+    name: categoryData.name,
+    color: categoryData.color,
+    description: categoryData.description,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const findCategoryById = async (userId: string, id: string): Promise<Category | null> => {
+  const query = 'SELECT * FROM categories WHERE id = ? AND userId = ?';
+  const row = await getRow(query, [id, userId]);
+
+  if (!row) {
+    return null;
+  }
+
+  return mapRowToCategory(row);
+};
+
+export const findAllCategories = async (userId: string, filters: CategoryFilters = {}): Promise<Category[]> => {
+  let query = 'SELECT * FROM categories WHERE userId = ?';
+
+  const allowedSortFields = ['name', 'createdAt', 'updatedAt'];
+  const { sortBy, sortOrder } = parseSortParams(
+    filters.sortBy,
+    filters.sortOrder,
+    allowedSortFields
+  );
+  query += ` ORDER BY ${sortBy} ${sortOrder}`;
+
+  const rows = await getAllRows(query, [userId]);
+  return rows.map(row => mapRowToCategory(row));
+};
+
+export const updateCategory = async (
+  userId: string,
+  id: string,
+  updateData: UpdateCategoryRequest
+): Promise<Category | null> => {
+  const existingCategory = await findCategoryById(userId, id);
+  if (!existingCategory) {
+    return null;
+  }
+
+  const updates: string[] = [];
+  const params: any[] = [];
+
+  if (updateData.name !== undefined) {
+    updates.push('name = ?');
+    params.push(updateData.name);
+  }
+
+  if (updateData.color !== undefined) {
+    updates.push('color = ?');
+    params.push(updateData.color);
+  }
+
+  if (updateData.description !== undefined) {
+    updates.push('description = ?');
+    params.push(updateData.description);
+  }
+
+  if (updates.length === 0) {
+    return existingCategory;
+  }
+
+  updates.push('updatedAt = ?');
+  params.push(new Date().toISOString());
+  params.push(id, userId);
+
+  const query = `UPDATE categories SET ${updates.join(', ')} WHERE id = ? AND userId = ?`;
+  await runQuery(query, params);
+
+  return findCategoryById(userId, id);
+};
+
+export const getCategoryUsage = async (userId: string, id: string): Promise<CategoryUsage> => {
+  const query = `
+    SELECT
+      (SELECT COUNT(*) FROM tasks WHERE categoryId = ? AND userId = ?) as taskCount,
+      (SELECT COUNT(*) FROM tasks WHERE categoryId = ? AND userId = ? AND completed = 1) as completedTaskCount,
+      (SELECT COUNT(*) FROM events WHERE categoryId = ? AND userId = ?) as eventCount
+  `;
+  const row = await getRow(query, [id, userId, id, userId, id, userId]);
+
+  return {
+    categoryId: id,
+    taskCount: Number(row?.taskCount || 0),
+    completedTaskCount: Number(row?.completedTaskCount || 0),
+    eventCount: Number(row?.eventCount || 0)
+  };
+};
+
+export const getAllCategoryUsage = async (userId: string): Promise<CategoryUsage[]> => {
+  const query = `
+    SELECT
+      c.id as categoryId,
+      (SELECT COUNT(*) FROM tasks t WHERE t.categoryId = c.id) as taskCount,
+      (SELECT COUNT(*) FROM tasks t WHERE t.categoryId = c.id AND t.completed = 1) as completedTaskCount,
+      (SELECT COUNT(*) FROM events e WHERE e.categoryId = c.id) as eventCount
+    FROM categories c
+    WHERE c.userId = ?
+  `;
+  const rows = await getAllRows(query, [userId]);
+
+  return rows.map(row => ({
+    categoryId: row.categoryId,
+    taskCount: Number(row.taskCount || 0),
+    completedTaskCount: Number(row.completedTaskCount || 0),
+    eventCount: Number(row.eventCount || 0)
+  }));
+};
+
+/**
+ * Deletes a category. Without `force`, a category that is still referenced
+ * by tasks or events is left untouched and `inUse` is reported instead. With
+ * `force`, referencing tasks and events are detached (their categoryId is
+ * cleared) first. Tasks are detached through updateTask, so each gets an
+ * audit entry and webhook event; trashed tasks get the audit entry only. Run
+ * forced deletes inside withTransaction and publish the returned tasks once
+ * it commits.
+ */
+export const deleteCategory = async (
+  userId: string,
+  id: string,
+  force: boolean = false
+): Promise<{ deleted: boolean; inUse: boolean; detachedTasks: Task[]; detachedEvents: number }> => {
+  const usage = await getCategoryUsage(userId, id);
+  const inUse = usage.taskCount > 0 || usage.eventCount > 0;
+
+  if (inUse && !force) {
+    return { deleted: false, inUse: true, detachedTasks: [], detachedEvents: 0 };
+  }
+
+  const detachedTasks: Task[] = [];
+  let detachedEvents = 0;
+  const now = new Date().toISOString();
+
+  if (usage.taskCount > 0) {
+    const rows = await getAllRows(
+      'SELECT id, deletedAt FROM tasks WHERE categoryId = ? AND userId = ?',
+      [id, userId]
+    );
+
+    for (const row of rows) {
+      if (row.deletedAt) {
+        // Trashed tasks are out of reach of updateTask but still reference the category
+        await runQuery(
+          'UPDATE tasks SET categoryId = NULL, version = version + 1, updatedAt = ? WHERE id = ? AND userId = ?',
+          [now, row.id, userId]
+        );
+        await recordTaskAudit(userId, row.id, 'update', { categoryId: { before: id, after: null } });
+      } else {
+        const task = await updateTask(userId, row.id, { categoryId: null });
+        if (task) {
+          detachedTasks.push(task);
+        }
+      }
+    }
+  }
+
+  if (usage.eventCount > 0) {
+    const detachResult = await runQuery(
+      'UPDATE events SET categoryId = NULL, updatedAt = ? WHERE categoryId = ? AND userId = ?',
+      [now, id, userId]
+    );
+    detachedEvents = detachResult.changes || 0;
+  }
+
+  const result = await runQuery('DELETE FROM categories WHERE id = ? AND userId = ?', [id, userId]);
+  return { deleted: (result.changes || 0) > 0, inUse: false, detachedTasks, detachedEvents };
+};
+
+export const getCategoryCount = async (userId: string): Promise<number> => {
+  const row = await getRow('SELECT COUNT(*) as count FROM categories WHERE userId = ?', [userId]);
+  return row?.count || 0;
+};
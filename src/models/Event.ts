@@ -0,0 +1,221 @@
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getRow, getAllRows } from '../database/init';
+import { Event, CreateEventRequest, UpdateEventRequest, EventFilters } from '../types';
+import { calculateOffset, parseSortParams } from '../utils/pagination';
+
+const mapRowToEvent = (row: any): Event => {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    allDay: Boolean(row.allDay),
+    location: row.location,
+    categoryId: row.categoryId,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  };
+};
+
+export const createEvent = async (userId: string, eventData: CreateEventRequest): Promise<Event> => {
+  const id = uuidv4();
+  const now = new Date().toISOString();
+
+  const query = `
+    INSERT INTO events (id, userId, title, description, startDate, endDate, allDay, location, categoryId, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    id,
+    userId,
+    eventData.title,
+    eventData.description || null,
+    eventData.startDate,
+    eventData.endDate,
+    eventData.allDay ? 1 : 0,
+    eventData.location || null,
+    eventData.categoryId || null,
+    now,
+    now
+  ];
+
+  await runQuery(query, params);
+
+  return {
+    id,
+    title: eventData.title,
+    description: eventData.description,
+    startDate: eventData.startDate,
+    endDate: eventData.endDate,
+    allDay: Boolean(eventData.allDay),
+    location: eventData.location,
+    categoryId: eventData.categoryId,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const findEventById = async (userId: string, id: string): Promise<Event | null> => {
+  const query = 'SELECT * FROM events WHERE id = ? AND userId = ?';
+  const row = await getRow(query, [id, userId]);
+
+  if (!row) {
+    return null;
+  }
+
+  return mapRowToEvent(row);
+};
+
+const buildEventFilterClause = (
+  userId: string,
+  filters: Omit<EventFilters, 'page' | 'limit' | 'sortBy' | 'sortOrder'>
+): { clause: string; params: any[] } => {
+  let clause = ' AND userId = ?';
+  const params: any[] = [userId];
+
+  if (filters.categoryId) {
+    clause += ' AND categoryId = ?';
+    params.push(filters.categoryId);
+  }
+
+  if (filters.startDateFrom) {
+    clause += ' AND startDate >= ?';
+    params.push(filters.startDateFrom);
+  }
+
+  if (filters.startDateTo) {
+    clause += ' AND startDate <= ?';
+    params.push(filters.startDateTo);
+  }
+
+  return { clause, params };
+};
+
+export const findAllEvents = async (userId: string, filters: EventFilters = {}): Promise<Event[]> => {
+  const { clause, params } = buildEventFilterClause(userId, filters);
+  let query = `SELECT * FROM events WHERE 1=1${clause}`;
+
+  // Apply sorting
+  const allowedSortFields = ['startDate', 'endDate', 'title', 'createdAt', 'updatedAt'];
+  const { sortBy, sortOrder } = parseSortParams(
+    filters.sortBy,
+    filters.sortOrder,
+    allowedSortFields
+  );
+  query += ` ORDER BY ${sortBy} ${sortOrder}`;
+
+  // Apply pagination
+  if (filters.limit) {
+    const offset = calculateOffset(filters.page || 1, filters.limit);
+    query += ` LIMIT ${filters.limit} OFFSET ${offset}`;
+  }
+
+  const rows = await getAllRows(query, params);
+  return rows.map(row => mapRowToEvent(row));
+};
+
+/**
+ * Finds events overlapping the given window, i.e. events that start before
+ * the window ends and end after the window starts. Multi-day events that
+ * began before the window are therefore included.
+ */
+export const findEventsInRange = async (
+  userId: string,
+  start: string,
+  end: string,
+  categoryId?: string
+): Promise<Event[]> => {
+  let query = 'SELECT * FROM events WHERE userId = ? AND startDate <= ? AND endDate >= ?';
+  const params: any[] = [userId, end, start];
+
+  if (categoryId) {
+    query += ' AND categoryId = ?';
+    params.push(categoryId);
+  }
+
+  query += ' ORDER BY startDate ASC, endDate ASC';
+
+  const rows = await getAllRows(query, params);
+  return rows.map(row => mapRowToEvent(row));
+};
+
+export const updateEvent = async (
+  userId: string,
+  id: string,
+  updateData: UpdateEventRequest
+): Promise<Event | null> => {
+  const existingEvent = await findEventById(userId, id);
+  if (!existingEvent) {
+    return null;
+  }
+
+  const updates: string[] = [];
+  const params: any[] = [];
+
+  if (updateData.title !== undefined) {
+    updates.push('title = ?');
+    params.push(updateData.title);
+  }
+
+  if (updateData.description !== undefined) {
+    updates.push('description = ?');
+    params.push(updateData.description);
+  }
+
+  if (updateData.startDate !== undefined) {
+    updates.push('startDate = ?');
+    params.push(updateData.startDate);
+  }
+
+  if (updateData.endDate !== undefined) {
+    updates.push('endDate = ?');
+    params.push(updateData.endDate);
+  }
+
+  if (updateData.allDay !== undefined) {
+    updates.push('allDay = ?');
+    params.push(updateData.allDay ? 1 : 0);
+  }
+
+  if (updateData.location !== undefined) {
+    updates.push('location = ?');
+    params.push(updateData.location);
+  }
+
+  if (updateData.categoryId !== undefined) {
+    updates.push('categoryId = ?');
+    params.push(updateData.categoryId);
+  }
+
+  if (updates.length === 0) {
+    return existingEvent;
+  }
+
+  updates.push('updatedAt = ?');
+  params.push(new Date().toISOString());
+  params.push(id, userId);
+
+  const query = `UPDATE events SET ${updates.join(', ')} WHERE id = ? AND userId = ?`;
+  await runQuery(query, params);
+
+  return findEventById(userId, id);
+};
+
+export const deleteEvent = async (userId: string, id: string): Promise<boolean> => {
+  const query = 'DELETE FROM events WHERE id = ? AND userId = ?';
+  const result = await runQuery(query, [id, userId]);
+  return (result.changes || 0) > 0;
+};
+
+export const getEventCount = async (
+  userId: string,
+  filters: Omit<EventFilters, 'page' | 'limit' | 'sortBy' | 'sortOrder'> = {}
+): Promise<number> => {
+  const { clause, params } = buildEventFilterClause(userId, filters);
+  const query = `SELECT COUNT(*) as count FROM events WHERE 1=1${clause}`;
+
+  const row = await getRow(query, params);
+  return row?.count || 0;
+};
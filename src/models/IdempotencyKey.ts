@@ -0,0 +1,99 @@
+import { runQuery, getRow } from '../database/init';
+
+/**
+ * A request made with an Idempotency-Key. Once the response has been sent it
+ * is stored so retries of the same request get the same answer.
+ */
+export interface IdempotencyRecord {
+  key: string;
+  fingerprint: string;
+  status: 'pending' | 'completed';
+  response?: StoredResponse;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+const mapRowToRecord = (row: any): IdempotencyRecord => {
+  return {
+    key: row.key,
+    fingerprint: row.fingerprint,
+    status: row.status,
+    response: row.status === 'completed'
+      ? {
+          status: Number(row.responseStatus),
+          headers: JSON.parse(row.responseHeaders || '{}'),
+          body: row.responseBody !== null ? JSON.parse(row.responseBody) : undefined
+        }
+      : undefined,
+    createdAt: row.createdAt,
+    expiresAt: row.expiresAt
+  };
+};
+
+/**
+ * The user's unexpired record for `key`, if any
+ */
+export const findIdempotencyRecord = async (userId: string, key: string): Promise<IdempotencyRecord | null> => {
+  const row = await getRow(
+    'SELECT * FROM idempotency_keys WHERE userId = ? AND key = ? AND expiresAt > ?',
+    [userId, key, new Date().toISOString()]
+  );
+  return row ? mapRowToRecord(row) : null;
+};
+
+/**
+ * Reserves `key` for a request that is about to be processed. Returns false
+ * when the user already has an unexpired record for the key, in which case
+ * the caller should look it up and replay or reject instead.
+ */
+export const claimIdempotencyKey = async (
+  userId: string,
+  key: string,
+  fingerprint: string,
+  expiresAt: string
+): Promise<boolean> => {
+  const now = new Date().toISOString();
+
+  // Expired keys may be reused, so they are cleared before claiming
+  await runQuery('DELETE FROM idempotency_keys WHERE expiresAt <= ?', [now]);
+
+  const result = await runQuery(
+    `INSERT INTO idempotency_keys (userId, key, fingerprint, status, createdAt, expiresAt)
+     VALUES (?, ?, ?, 'pending', ?, ?)
+     ON CONFLICT (userId, key) DO NOTHING`,
+    [userId, key, fingerprint, now, expiresAt]
+  );
+  return (result.changes || 0) > 0;
+};
+
+export const completeIdempotencyKey = async (userId: string, key: string, response: StoredResponse): Promise<void> => {
+  await runQuery(
+    `UPDATE idempotency_keys
+     SET status = 'completed', responseStatus = ?, responseHeaders = ?, responseBody = ?
+     WHERE userId = ? AND key = ?`,
+    [
+      response.status,
+      JSON.stringify(response.headers),
+      response.body !== undefined ? JSON.stringify(response.body) : null,
+      userId,
+      key
+    ]
+  );
+};
+
+/**
+ * Forgets a claimed key whose request did not produce a response worth
+ * replaying, so the client can retry with it
+ */
+export const releaseIdempotencyKey = async (userId: string, key: string): Promise<void> => {
+  await runQuery(
+    `DELETE FROM idempotency_keys WHERE userId = ? AND key = ? AND status = 'pending'`,
+    [userId, key]
+  );
+};
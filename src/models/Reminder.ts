@@ -0,0 +1,168 @@
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getAllRows } from '../database/init';
+import { Reminder, CreateReminderRequest } from '../types';
+
+/**
+ * A reminder that is due, with the owner details needed to dispatch it
+ */
+export interface DueReminder {
+  reminder: Reminder;
+  userId: string;
+  email: string;
+}
+
+const mapRowToReminder = (row: any): Reminder => {
+  return {
+    id: row.id,
+    taskId: row.taskId,
+    remindAt: row.remindAt || undefined,
+    offsetMinutes: row.offsetMinutes !== null ? Number(row.offsetMinutes) : undefined,
+    channel: row.channel,
+    status: row.status,
+    firedAt: row.firedAt || undefined,
+    error: row.error || undefined,
+    createdAt: row.createdAt
+  };
+};
+
+/**
+ * When an offset reminder fires for the given due date. Offset reminders on
+ * tasks without a due date never fire.
+ */
+export const getOffsetRemindAt = (dueDate: string | null | undefined, offsetMinutes: number): string | null => {
+  if (!dueDate) {
+    return null;
+  }
+  return new Date(new Date(dueDate).getTime() - offsetMinutes * 60 * 1000).toISOString();
+};
+
+export const createReminder = async (
+  userId: string,
+  taskId: string,
+  reminderData: CreateReminderRequest,
+  dueDate?: string
+): Promise<Reminder> => {
+  const id = uuidv4();
+  const now = new Date().toISOString();
+  const remindAt = reminderData.offsetMinutes !== undefined
+    ? getOffsetRemindAt(dueDate, reminderData.offsetMinutes)
+    : reminderData.remindAt!;
+
+  const query = `
+    INSERT INTO reminders (id, taskId, userId, remindAt, offsetMinutes, channel, status, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?, 'pending', ?)
+  `;
+
+  await runQuery(query, [
+    id,
+    taskId,
+    userId,
+    remindAt,
+    reminderData.offsetMinutes ?? null,
+    reminderData.channel,
+    now
+  ]);
+
+  return {
+    id,
+    taskId,
+    remindAt: remindAt || undefined,
+    offsetMinutes: reminderData.offsetMinutes,
+    channel: reminderData.channel,
+    status: 'pending',
+    createdAt: now
+  };
+};
+
+export const findRemindersByTask = async (userId: string, taskId: string): Promise<Reminder[]> => {
+  const query = `
+    SELECT * FROM reminders WHERE taskId = ? AND userId = ?
+    ORDER BY remindAt IS NULL, remindAt ASC, createdAt ASC
+  `;
+  const rows = await getAllRows(query, [taskId, userId]);
+  return rows.map(row => mapRowToReminder(row));
+};
+
+export const deleteReminder = async (userId: string, taskId: string, id: string): Promise<boolean> => {
+  const result = await runQuery(
+    'DELETE FROM reminders WHERE id = ? AND taskId = ? AND userId = ?',
+    [id, taskId, userId]
+  );
+  return (result.changes || 0) > 0;
+};
+
+/**
+ * Moves a task's pending offset reminders after its due date changed.
+ * Reminders that have already fired are left alone.
+ */
+export const rescheduleOffsetReminders = async (taskId: string, dueDate: string | null): Promise<void> => {
+  const rows = await getAllRows(
+    `SELECT id, offsetMinutes FROM reminders
+     WHERE taskId = ? AND status = 'pending' AND offsetMinutes IS NOT NULL`,
+    [taskId]
+  );
+
+  for (const row of rows) {
+    await runQuery('UPDATE reminders SET remindAt = ? WHERE id = ?', [
+      getOffsetRemindAt(dueDate, Number(row.offsetMinutes)),
+      row.id
+    ]);
+  }
+};
+
+/**
+ * Gives the next occurrence of a recurring task the same offset reminders
+ */
+export const copyOffsetReminders = async (fromTaskId: string, toTaskId: string, dueDate: string): Promise<void> => {
+  const rows = await getAllRows(
+    'SELECT userId, offsetMinutes, channel FROM reminders WHERE taskId = ? AND offsetMinutes IS NOT NULL',
+    [fromTaskId]
+  );
+
+  for (const row of rows) {
+    await createReminder(row.userId, toTaskId, {
+      offsetMinutes: Number(row.offsetMinutes),
+      channel: row.channel
+    }, dueDate);
+  }
+};
+
+/**
+ * Pending reminders whose time has come, oldest first. Reminders of trashed
+ * tasks stay pending until the task is restored.
+ */
+export const findDueReminders = async (now: string, limit: number): Promise<DueReminder[]> => {
+  const query = `
+    SELECT reminders.*, users.email
+    FROM reminders
+    JOIN users ON users.id = reminders.userId
+    JOIN tasks ON tasks.id = reminders.taskId
+    WHERE reminders.status = 'pending' AND reminders.remindAt <= ? AND tasks.deletedAt IS NULL
+    ORDER BY reminders.remindAt ASC
+    LIMIT ?
+  `;
+  const rows = await getAllRows(query, [now, limit]);
+
+  return rows.map(row => ({
+    reminder: mapRowToReminder(row),
+    userId: row.userId,
+    email: row.email
+  }));
+};
+
+/**
+ * Marks a pending reminder as fired (or skipped). Only one caller can claim
+ * a reminder, so it is dispatched at most once even if the scheduler runs
+ * again after a restart.
+ */
+export const claimReminder = async (id: string, status: 'fired' | 'skipped'): Promise<boolean> => {
+  const result = await runQuery(
+    `UPDATE reminders SET status = ?, firedAt = ? WHERE id = ? AND status = 'pending'`,
+    [status, new Date().toISOString(), id]
+  );
+  return (result.changes || 0) > 0;
+};
+
+export const recordReminderFailure = async (id: string, error: string): Promise<void> => {
+  await runQuery(`UPDATE reminders SET status = 'failed', error = ? WHERE id = ?`, [error, id]);
+};
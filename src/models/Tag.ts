@@ -0,0 +1,88 @@
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getAllRows } from '../database/init';
+import { TagUsage } from '../types';
+
+/**
+ * Trims tag names and drops case-insensitive duplicates, keeping the first
+ * spelling supplied
+ */
+export const normalizeTagNames = (names: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const name of names) {
+    const trimmed = name.trim();
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) {
+      seen.add(key);
+      result.push(trimmed);
+    }
+  }
+
+  return result;
+};
+
+export const findTagNamesForTask = async (taskId: string): Promise<string[]> => {
+  const query = `
+    SELECT tags.name FROM task_tags
+    JOIN tags ON tags.id = task_tags.tagId
+    WHERE task_tags.taskId = ?
+    ORDER BY tags.name ASC
+  `;
+  const rows = await getAllRows(query, [taskId]);
+  return rows.map(row => row.name);
+};
+
+/**
+ * Replaces the tags attached to a task, creating any of the user's tags that
+ * do not exist yet. Returns the task's tag names as stored.
+ */
+export const setTaskTags = async (userId: string, taskId: string, names: string[]): Promise<string[]> => {
+  const tagNames = normalizeTagNames(names);
+  const now = new Date().toISOString();
+
+  await runQuery('DELETE FROM task_tags WHERE taskId = ?', [taskId]);
+
+  if (tagNames.length === 0) {
+    return [];
+  }
+
+  for (const name of tagNames) {
+    await runQuery(
+      'INSERT INTO tags (id, userId, name, createdAt) VALUES (?, ?, ?, ?) ON CONFLICT(userId, name) DO NOTHING',
+      [uuidv4(), userId, name, now]
+    );
+  }
+
+  const placeholders = tagNames.map(() => '?').join(', ');
+  await runQuery(
+    `INSERT INTO task_tags (taskId, tagId)
+     SELECT ?, id FROM tags WHERE userId = ? AND name IN (${placeholders})`,
+    [taskId, userId, ...tagNames]
+  );
+
+  return findTagNamesForTask(taskId);
+};
+
+/**
+ * Lists the tags used on a user's tasks, most used first
+ */
+export const findAllTagsWithUsage = async (userId: string): Promise<TagUsage[]> => {
+  const query = `
+    SELECT tags.id, tags.name, tags.createdAt, COUNT(task_tags.taskId) AS taskCount
+    FROM tags
+    JOIN task_tags ON task_tags.tagId = tags.id
+    JOIN tasks ON tasks.id = task_tags.taskId
+    WHERE tags.userId = ? AND tasks.deletedAt IS NULL
+    GROUP BY tags.id
+    ORDER BY taskCount DESC, tags.name ASC
+  `;
+  const rows = await getAllRows(query, [userId]);
+
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    taskCount: Number(row.taskCount || 0),
+    createdAt: row.createdAt
+  }));
+};
@@ -1,62 +1,222 @@
 import { v4 as uuidv4 } from 'uuid';
 import { runQuery, getRow, getAllRows } from '../database/init';
-import { Task, CreateTaskRequest, UpdateTaskRequest, TaskFilters } from '../types';
-import { calculateOffset, parseSortParams } from '../utils/pagination';
+import { Task, CreateTaskRequest, UpdateTaskRequest, TaskFilters, TaskSort, TaskCursor } from '../types';
+import { calculateOffset, parseSortParams, encodeCursor, decodeCursor } from '../utils/pagination';
+import { getNextOccurrence, isWithinLimits } from '../utils/recurrence';
+import { buildFtsQuery, formatHighlight, MATCH_START, MATCH_END } from '../utils/search';
+import { setTaskTags, normalizeTagNames } from './Tag';
+import { enqueueWebhookEvent } from './Webhook';
+import { rescheduleOffsetReminders, copyOffsetReminders } from './Reminder';
+import { recordTaskAudit, diffTaskFields } from './AuditLog';
 
 const mapRowToTask = (row: any): Task => {
   return {
     id: row.id,
+    userId: row.userId,
     title: row.title,
     description: row.description,
     completed: Boolean(row.completed),
     priority: row.priority,
     dueDate: row.dueDate,
+    categoryId: row.categoryId,
+    tags: row.tagNames ? JSON.parse(row.tagNames) : [],
+    recurrence: row.recurrence ? JSON.parse(row.recurrence) : undefined,
+    occurrenceIndex: row.recurrence ? Number(row.occurrenceIndex) : undefined,
+    nextOccurrenceId: row.nextOccurrenceId || undefined,
+    parentId: row.parentId || undefined,
+    deletedAt: row.deletedAt || undefined,
+    version: Number(row.version),
+    search: row.searchRank !== undefined
+      ? {
+        rank: Number(row.searchRank),
+        title: formatHighlight(row.searchTitle),
+        snippet: formatHighlight(row.searchSnippet)
+      }
+      : undefined,
+    progress: Number(row.subtaskCount) > 0
+      ? { completed: Number(row.completedSubtaskCount), total: Number(row.subtaskCount) }
+      : undefined,
     createdAt: row.createdAt,
     updatedAt: row.updatedAt
   };
 };
 
-export const createTask = async (taskData: CreateTaskRequest): Promise<Task> => {
+// Task columns plus tag names and direct subtask counts used for progress reporting
+const TASK_COLUMNS = `
+  tasks.*,
+    (SELECT json_group_array(name) FROM (
+      SELECT tags.name FROM task_tags JOIN tags ON tags.id = task_tags.tagId
+      WHERE task_tags.taskId = tasks.id ORDER BY tags.name
+    )) AS tagNames,
+    (SELECT COUNT(*) FROM tasks AS sub WHERE sub.parentId = tasks.id AND sub.deletedAt IS NULL) AS subtaskCount,
+    (SELECT COUNT(*) FROM tasks AS sub
+      WHERE sub.parentId = tasks.id AND sub.deletedAt IS NULL AND sub.completed = 1) AS completedSubtaskCount
+`;
+
+const TASK_SELECT = `SELECT ${TASK_COLUMNS} FROM tasks`;
+
+// Full-text matches with bm25 rank (lower is better), highlighted title and description snippet
+const SEARCH_SELECT = `
+  SELECT ${TASK_COLUMNS},
+    search.rank AS searchRank,
+    search.titleHighlight AS searchTitle,
+    search.snippet AS searchSnippet
+  FROM tasks
+  JOIN (
+    SELECT taskId,
+      bm25(tasks_fts) AS rank,
+      highlight(tasks_fts, 1, '${MATCH_START}', '${MATCH_END}') AS titleHighlight,
+      snippet(tasks_fts, 2, '${MATCH_START}', '${MATCH_END}', '…', 12) AS snippet
+    FROM tasks_fts
+    WHERE tasks_fts MATCH ?
+  ) AS search ON search.taskId = tasks.id
+`;
+
+const buildTaskFilterClause = (
+  userId: string | null,
+  filters: Omit<TaskFilters, 'page' | 'limit' | 'sortBy' | 'sortOrder'>
+): { clause: string; params: any[] } => {
+  // A null user matches every user's tasks, for server-wide statistics
+  let clause = userId !== null ? ' AND tasks.userId = ? AND tasks.deletedAt IS NULL' : ' AND tasks.deletedAt IS NULL';
+  const params: any[] = userId !== null ? [userId] : [];
+
+  if (filters.completed !== undefined) {
+    clause += ' AND completed = ?';
+    params.push(filters.completed ? 1 : 0);
+  }
+
+  if (filters.priority) {
+    clause += ' AND priority = ?';
+    params.push(filters.priority);
+  }
+
+  if (filters.dueDateFrom) {
+    clause += ' AND dueDate >= ?';
+    params.push(filters.dueDateFrom);
+  }
+
+  if (filters.dueDateTo) {
+    clause += ' AND dueDate <= ?';
+    params.push(filters.dueDateTo);
+  }
+
+  if (filters.categoryId) {
+    clause += ' AND categoryId = ?';
+    params.push(filters.categoryId);
+  }
+
+  if (filters.parentId) {
+    clause += ' AND parentId = ?';
+    params.push(filters.parentId);
+  } else if (filters.topLevel) {
+    clause += ' AND parentId IS NULL';
+  }
+
+  const tagNames = normalizeTagNames(filters.tags || []);
+  if (tagNames.length > 0) {
+    const placeholders = tagNames.map(() => '?').join(', ');
+    const matchingTags = `
+      SELECT COUNT(*) FROM task_tags JOIN tags ON tags.id = task_tags.tagId
+      WHERE task_tags.taskId = tasks.id AND tags.name IN (${placeholders})
+    `;
+    // "all" requires every requested tag, "any" at least one of them
+    clause += filters.tagMatch === 'all'
+      ? ` AND (${matchingTags}) = ?`
+      : ` AND (${matchingTags}) > 0`;
+    params.push(...tagNames);
+    if (filters.tagMatch === 'all') {
+      params.push(tagNames.length);
+    }
+  }
+
+  return { clause, params };
+};
+
+/**
+ * Bumps the version of `parentId` and of every task above it. A task's
+ * progress, and the subtree returned with it by GET /api/tasks/:id, come from
+ * its subtasks, so its ETag has to change whenever one of them does.
+ */
+const bumpAncestorVersions = async (parentId: string | undefined): Promise<void> => {
+  if (!parentId) {
+    return;
+  }
+
+  await runQuery(`
+    WITH RECURSIVE ancestors(id) AS (
+      SELECT ?
+      UNION
+      SELECT tasks.parentId FROM tasks JOIN ancestors ON tasks.id = ancestors.id
+      WHERE tasks.parentId IS NOT NULL
+    )
+    UPDATE tasks SET version = version + 1 WHERE id IN (SELECT id FROM ancestors)
+  `, [parentId]);
+};
+
+export const createTask = async (
+  userId: string,
+  taskData: CreateTaskRequest,
+  occurrenceIndex: number = 1
+): Promise<Task> => {
   const id = uuidv4();
   const now = new Date().toISOString();
   
   const query = `
-    INSERT INTO tasks (id, title, description, priority, dueDate, createdAt, updatedAt)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO tasks (id, userId, title, description, priority, dueDate, categoryId, parentId, recurrence, occurrenceIndex, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
   
   const params = [
     id,
+    userId,
     taskData.title,
     taskData.description || null,
     taskData.priority || 'medium',
     taskData.dueDate || null,
+    taskData.categoryId || null,
+    taskData.parentId || null,
+    taskData.recurrence ? JSON.stringify(taskData.recurrence) : null,
+    occurrenceIndex,
     now,
     now
   ];
 
   try {
     await runQuery(query, params);
+    await bumpAncestorVersions(taskData.parentId);
+    const tags = taskData.tags ? await setTaskTags(userId, id, taskData.tags) : [];
     
     // Return the task object directly instead of querying again
-    return {
+    const task: Task = {
       id,
+      userId,
       title: taskData.title,
       description: taskData.description,
       completed: false,
       priority: taskData.priority || 'medium',
       dueDate: taskData.dueDate,
+      categoryId: taskData.categoryId,
+      tags,
+      recurrence: taskData.recurrence,
+      occurrenceIndex: taskData.recurrence ? occurrenceIndex : undefined,
+      parentId: taskData.parentId,
+      version: 1,
       createdAt: now,
       updatedAt: now
     };
+
+    await recordTaskAudit(userId, id, 'create', diffTaskFields(null, task));
+    await enqueueWebhookEvent(userId, 'task.created', { task });
+
+    return task;
   } catch (error) {
     throw error;
   }
 };
 
-export const findTaskById = async (id: string): Promise<Task | null> => {
-  const query = 'SELECT * FROM tasks WHERE id = ?';
-  const row = await getRow(query, [id]);
+export const findTaskById = async (userId: string, id: string): Promise<Task | null> => {
+  const query = `${TASK_SELECT} WHERE id = ? AND userId = ? AND deletedAt IS NULL`;
+  const row = await getRow(query, [id, userId]);
   
   if (!row) {
     return null;
@@ -65,39 +225,109 @@ export const findTaskById = async (id: string): Promise<Task | null> => {
   return mapRowToTask(row);
 };
 
-export const findAllTasks = async (filters: TaskFilters = {}): Promise<Task[]> => {
-  let query = 'SELECT * FROM tasks WHERE 1=1';
-  const params: any[] = [];
+/**
+ * Loads every descendant of a task and returns its direct subtasks, each
+ * with their own `subtasks` nested beneath them
+ */
+export const findSubtaskTree = async (userId: string, id: string): Promise<Task[]> => {
+  const query = `
+    WITH RECURSIVE descendants(id) AS (
+      SELECT id FROM tasks WHERE parentId = ? AND deletedAt IS NULL
+      UNION ALL
+      SELECT tasks.id FROM tasks JOIN descendants ON tasks.parentId = descendants.id
+      WHERE tasks.deletedAt IS NULL
+    )
+    ${TASK_SELECT} WHERE id IN (SELECT id FROM descendants) AND userId = ?
+    ORDER BY createdAt ASC
+  `;
+  const rows = await getAllRows(query, [id, userId]);
 
-  // Apply filters
-  if (filters.completed !== undefined) {
-    query += ' AND completed = ?';
-    params.push(filters.completed ? 1 : 0);
+  const childrenByParent = new Map<string, Task[]>();
+  for (const row of rows) {
+    const task = mapRowToTask(row);
+    const siblings = childrenByParent.get(row.parentId) || [];
+    siblings.push(task);
+    childrenByParent.set(row.parentId, siblings);
   }
 
-  if (filters.priority) {
-    query += ' AND priority = ?';
-    params.push(filters.priority);
-  }
+  const attach = (parentId: string): Task[] => {
+    return (childrenByParent.get(parentId) || []).map(task => ({
+      ...task,
+      subtasks: attach(task.id)
+    }));
+  };
 
-  if (filters.dueDateFrom) {
-    query += ' AND dueDate >= ?';
-    params.push(filters.dueDateFrom);
+  return attach(id);
+};
+
+/**
+ * Whether `candidateId` is `id` itself or one of its descendants. Used to
+ * reject parent assignments that would create a cycle.
+ */
+export const isTaskOrDescendant = async (id: string, candidateId: string): Promise<boolean> => {
+  const query = `
+    WITH RECURSIVE descendants(id) AS (
+      SELECT ?
+      UNION ALL
+      SELECT tasks.id FROM tasks JOIN descendants ON tasks.parentId = descendants.id
+    )
+    SELECT 1 AS found FROM descendants WHERE id = ? LIMIT 1
+  `;
+  const row = await getRow(query, [id, candidateId]);
+  return Boolean(row);
+};
+
+// Fields tasks can be sorted by; search results can also be sorted by relevance
+const TASK_SORT_FIELDS = ['title', 'completed', 'priority', 'dueDate', 'createdAt', 'updatedAt'] as const satisfies readonly (keyof Task)[];
+
+type TaskSortField = typeof TASK_SORT_FIELDS[number];
+
+const isTaskSortField = (sortBy: string): sortBy is TaskSortField => {
+  return (TASK_SORT_FIELDS as readonly string[]).includes(sortBy);
+};
+
+/**
+ * The sort requested by the filters, falling back to the defaults for
+ * unknown fields. Relevance is always best match first.
+ */
+export const getTaskSort = (filters: TaskFilters): TaskSort => {
+  const allowedSortFields: string[] = filters.q !== undefined ? [...TASK_SORT_FIELDS, 'relevance'] : [...TASK_SORT_FIELDS];
+  const { sortBy, sortOrder } = parseSortParams(filters.sortBy, filters.sortOrder, allowedSortFields);
+  return { sortBy, sortOrder: sortBy === 'relevance' ? 'asc' : sortOrder };
+};
+
+const getSortColumn = (sortBy: string): string => {
+  return sortBy === 'relevance' ? 'search.rank' : `tasks.${sortBy}`;
+};
+
+/**
+ * Selects the user's tasks matching the filters, or returns null when the
+ * search query cannot match anything
+ */
+const buildTaskListQuery = (userId: string, filters: TaskFilters): { query: string; params: any[] } | null => {
+  const { clause, params } = buildTaskFilterClause(userId, filters);
+
+  if (filters.q !== undefined) {
+    const ftsQuery = buildFtsQuery(filters.q);
+    if (!ftsQuery) {
+      return null;
+    }
+    params.unshift(ftsQuery);
+    return { query: `${SEARCH_SELECT} WHERE 1=1${clause}`, params };
   }
 
-  if (filters.dueDateTo) {
-    query += ' AND dueDate <= ?';
-    params.push(filters.dueDateTo);
+  return { query: `${TASK_SELECT} WHERE 1=1${clause}`, params };
+};
+
+export const findAllTasks = async (userId: string, filters: TaskFilters = {}): Promise<Task[]> => {
+  const list = buildTaskListQuery(userId, filters);
+  if (!list) {
+    return [];
   }
 
-  // Apply sorting
-  const allowedSortFields = ['title', 'completed', 'priority', 'dueDate', 'createdAt', 'updatedAt'];
-  const { sortBy, sortOrder } = parseSortParams(
-    filters.sortBy, 
-    filters.sortOrder, 
-    allowedSortFields
-  );
-  query += ` ORDER BY ${sortBy} ${sortOrder}`;
+  // Apply sorting, with the id as a tiebreaker so pages are stable
+  const { sortBy, sortOrder } = getTaskSort(filters);
+  let query = `${list.query} ORDER BY ${getSortColumn(sortBy)} ${sortOrder}, tasks.id ${sortOrder}`;
 
   // Apply pagination
   if (filters.limit) {
@@ -105,12 +335,118 @@ export const findAllTasks = async (filters: TaskFilters = {}): Promise<Task[]> =
     query += ` LIMIT ${filters.limit} OFFSET ${offset}`;
   }
 
-  const rows = await getAllRows(query, params);
+  const rows = await getAllRows(query, list.params);
   return rows.map(row => mapRowToTask(row));
 };
 
-export const updateTask = async (id: string, updateData: UpdateTaskRequest): Promise<Task | null> => {
-  const existingTask = await findTaskById(id);
+const getSortValue = (task: Task, sortBy: string): TaskCursor['value'] => {
+  if (sortBy === 'relevance') {
+    return task.search?.rank ?? null;
+  }
+  if (!isTaskSortField(sortBy)) {
+    throw new Error(`Tasks cannot be sorted by ${sortBy}`);
+  }
+
+  const value = task[sortBy];
+  // Completion is stored, and compared in cursors, as 0 or 1
+  return typeof value === 'boolean' ? Number(value) : value ?? null;
+};
+
+/**
+ * Position just after (`next`) or before (`prev`) the task in the given sort
+ * order
+ */
+export const getTaskCursor = (task: Task, sort: TaskSort, direction: TaskCursor['direction']): TaskCursor => {
+  return { ...sort, value: getSortValue(task, sort.sortBy), id: task.id, direction };
+};
+
+/**
+ * Opaque form of `getTaskCursor`, handed to clients
+ */
+export const encodeTaskCursor = (task: Task, sort: TaskSort, direction: TaskCursor['direction']): string => {
+  return encodeCursor(getTaskCursor(task, sort, direction));
+};
+
+/**
+ * Parses a cursor issued by `encodeTaskCursor`, or returns null if it is
+ * malformed or sorts by relevance without a search query
+ */
+export const decodeTaskCursor = (cursor: string, filters: TaskFilters): TaskCursor | null => {
+  const decoded = decodeCursor(cursor);
+  if (!decoded) {
+    return null;
+  }
+
+  const allowedSortFields: string[] = filters.q !== undefined ? [...TASK_SORT_FIELDS, 'relevance'] : [...TASK_SORT_FIELDS];
+  const { sortBy, sortOrder, value, id, direction } = decoded;
+  const isValid = allowedSortFields.includes(sortBy)
+    && (sortOrder === 'asc' || sortOrder === 'desc')
+    && (value === null || typeof value === 'string' || typeof value === 'number')
+    && typeof id === 'string'
+    && (direction === 'next' || direction === 'prev');
+
+  return isValid ? { sortBy, sortOrder, value, id, direction } : null;
+};
+
+/**
+ * Keyset pagination: up to `limit` tasks after the cursor (or before it, for
+ * a `prev` cursor), in the cursor's sort order. `hasMore` tells whether more
+ * tasks follow in that direction.
+ */
+export const findTasksByCursor = async (
+  userId: string,
+  filters: TaskFilters,
+  cursor: TaskCursor,
+  limit: number
+): Promise<{ tasks: Task[]; hasMore: boolean }> => {
+  const list = buildTaskListQuery(userId, filters);
+  if (!list) {
+    return { tasks: [], hasMore: false };
+  }
+
+  // Paging backwards walks the opposite order and reverses the result
+  const ascending = (cursor.sortOrder === 'asc') === (cursor.direction === 'next');
+  const column = getSortColumn(cursor.sortBy);
+  const params = [...list.params];
+  let condition: string;
+
+  // SQLite sorts NULLs first in ascending order and last in descending order
+  if (cursor.value === null) {
+    condition = ascending
+      ? `((${column} IS NULL AND tasks.id > ?) OR ${column} IS NOT NULL)`
+      : `(${column} IS NULL AND tasks.id < ?)`;
+    params.push(cursor.id);
+  } else {
+    condition = ascending
+      ? `(${column} > ? OR (${column} = ? AND tasks.id > ?))`
+      : `(${column} < ? OR (${column} = ? AND tasks.id < ?) OR ${column} IS NULL)`;
+    params.push(cursor.value, cursor.value, cursor.id);
+  }
+
+  const order = ascending ? 'ASC' : 'DESC';
+  const query = `${list.query} AND ${condition} ORDER BY ${column} ${order}, tasks.id ${order} LIMIT ${limit + 1}`;
+
+  const rows = await getAllRows(query, params);
+  const tasks = rows.slice(0, limit).map(row => mapRowToTask(row));
+
+  return {
+    tasks: cursor.direction === 'prev' ? tasks.reverse() : tasks,
+    hasMore: rows.length > limit
+  };
+};
+
+/**
+ * Updates a task. With `expectedVersion` the update only applies if the task
+ * has not changed since that version; null is returned otherwise, as it is
+ * when the task does not exist.
+ */
+export const updateTask = async (
+  userId: string,
+  id: string,
+  updateData: UpdateTaskRequest,
+  expectedVersion?: number
+): Promise<Task | null> => {
+  const existingTask = await findTaskById(userId, id);
   if (!existingTask) {
     return null;
   }
@@ -143,48 +479,297 @@ export const updateTask = async (id: string, updateData: UpdateTaskRequest): Pro
     params.push(updateData.dueDate);
   }
 
-  if (updates.length === 0) {
-    return existingTask;
+  if (updateData.categoryId !== undefined) {
+    updates.push('categoryId = ?');
+    params.push(updateData.categoryId);
+  }
+
+  if (updateData.parentId !== undefined) {
+    updates.push('parentId = ?');
+    params.push(updateData.parentId);
   }
 
-  updates.push('updatedAt = ?');
+  if (updateData.recurrence !== undefined) {
+    updates.push('recurrence = ?');
+    params.push(updateData.recurrence ? JSON.stringify(updateData.recurrence) : null);
+  }
+
+  if (updates.length === 0 && updateData.tags === undefined) {
+    return expectedVersion === undefined || existingTask.version === expectedVersion ? existingTask : null;
+  }
+
+  updates.push('version = version + 1', 'updatedAt = ?');
   params.push(new Date().toISOString());
-  params.push(id);
+  params.push(id, userId);
+
+  let query = `UPDATE tasks SET ${updates.join(', ')} WHERE id = ? AND userId = ?`;
+  if (expectedVersion !== undefined) {
+    query += ' AND version = ?';
+    params.push(expectedVersion);
+  }
+
+  const result = await runQuery(query, params);
+  if ((result.changes || 0) === 0) {
+    return null;
+  }
+
+  await bumpAncestorVersions(existingTask.parentId);
+  if (updateData.parentId && updateData.parentId !== existingTask.parentId) {
+    await bumpAncestorVersions(updateData.parentId);
+  }
+
+  if (updateData.tags !== undefined) {
+    await setTaskTags(userId, id, updateData.tags);
+  }
+
+  if (updateData.dueDate !== undefined) {
+    await rescheduleOffsetReminders(id, updateData.dueDate);
+  }
 
-  const query = `UPDATE tasks SET ${updates.join(', ')} WHERE id = ?`;
-  await runQuery(query, params);
+  const task = await findTaskById(userId, id);
+  if (task) {
+    await recordTaskAudit(userId, id, 'update', diffTaskFields(existingTask, task));
+    await enqueueWebhookEvent(userId, 'task.updated', { task, previous: existingTask });
+    if (task.completed && !existingTask.completed) {
+      await enqueueWebhookEvent(userId, 'task.completed', { task });
+    }
+  }
 
-  return findTaskById(id);
+  return task;
 };
 
-export const deleteTask = async (id: string): Promise<boolean> => {
-  const query = 'DELETE FROM tasks WHERE id = ?';
-  const result = await runQuery(query, [id]);
-  return (result.changes || 0) > 0;
+/**
+ * Creates the next task in a recurring series once `task` has been completed.
+ * Returns null when the task does not recur, the series has ended, or the
+ * next occurrence was already spawned (e.g. the task was toggled twice).
+ */
+export const spawnNextOccurrence = async (task: Task): Promise<Task | null> => {
+  if (!task.recurrence || !task.dueDate || task.nextOccurrenceId) {
+    return null;
+  }
+
+  const nextIndex = (task.occurrenceIndex || 1) + 1;
+  const nextDueDate = getNextOccurrence(task.recurrence, new Date(task.dueDate));
+  if (!nextDueDate || !isWithinLimits(task.recurrence, nextIndex, nextDueDate)) {
+    return null;
+  }
+
+  const nextTask = await createTask(task.userId, {
+    title: task.title,
+    description: task.description || undefined,
+    priority: task.priority,
+    dueDate: nextDueDate.toISOString(),
+    categoryId: task.categoryId || undefined,
+    parentId: task.parentId,
+    tags: task.tags,
+    recurrence: task.recurrence
+  }, nextIndex);
+
+  await runQuery('UPDATE tasks SET nextOccurrenceId = ?, version = version + 1 WHERE id = ?', [nextTask.id, task.id]);
+  await copyOffsetReminders(task.id, nextTask.id, nextTask.dueDate!);
+
+  return nextTask;
 };
 
-export const getTaskCount = async (filters: Omit<TaskFilters, 'page' | 'limit' | 'sortBy' | 'sortOrder'> = {}): Promise<number> => {
-  let query = 'SELECT COUNT(*) as count FROM tasks WHERE 1=1';
-  const params: any[] = [];
+// Ids of a task and all of its descendants that are not in the trash
+const SUBTREE_IDS = `
+  WITH RECURSIVE subtree(id) AS (
+    SELECT id FROM tasks WHERE id = ? AND userId = ? AND deletedAt IS NULL
+    UNION ALL
+    SELECT tasks.id FROM tasks JOIN subtree ON tasks.parentId = subtree.id
+    WHERE tasks.deletedAt IS NULL
+  )
+  SELECT id FROM subtree
+`;
 
-  if (filters.completed !== undefined) {
-    query += ' AND completed = ?';
-    params.push(filters.completed ? 1 : 0);
+// Ids of a trashed task and the descendants that were trashed along with it
+const TRASHED_SUBTREE_IDS = `
+  WITH RECURSIVE subtree(id, deletedAt) AS (
+    SELECT id, deletedAt FROM tasks WHERE id = ? AND userId = ? AND deletedAt IS NOT NULL
+    UNION ALL
+    SELECT tasks.id, tasks.deletedAt FROM tasks JOIN subtree
+      ON tasks.parentId = subtree.id AND tasks.deletedAt = subtree.deletedAt
+  )
+  SELECT id FROM subtree
+`;
+
+/**
+ * Moves a task and its subtasks to the trash. With `expectedVersion` nothing
+ * is deleted unless the task is still at that version.
+ */
+export const deleteTask = async (userId: string, id: string, expectedVersion?: number): Promise<boolean> => {
+  const rows = await getAllRows(`${TASK_SELECT} WHERE id IN (${SUBTREE_IDS})`, [id, userId]);
+  if (rows.length === 0) {
+    return false;
   }
 
-  if (filters.priority) {
-    query += ' AND priority = ?';
-    params.push(filters.priority);
+  let query = `UPDATE tasks SET deletedAt = ?, version = version + 1 WHERE id IN (${SUBTREE_IDS})`;
+  const params: any[] = [new Date().toISOString(), id, userId];
+  if (expectedVersion !== undefined) {
+    query += ' AND EXISTS (SELECT 1 FROM tasks WHERE id = ? AND version = ?)';
+    params.push(id, expectedVersion);
   }
 
-  if (filters.dueDateFrom) {
-    query += ' AND dueDate >= ?';
-    params.push(filters.dueDateFrom);
+  const result = await runQuery(query, params);
+  if ((result.changes || 0) === 0) {
+    return false;
   }
 
-  if (filters.dueDateTo) {
-    query += ' AND dueDate <= ?';
-    params.push(filters.dueDateTo);
+  const deletedTask = rows.find(row => row.id === id);
+  await bumpAncestorVersions(deletedTask?.parentId || undefined);
+
+  for (const row of rows) {
+    const task = mapRowToTask(row);
+    await recordTaskAudit(userId, task.id, 'delete', diffTaskFields(task, null));
+    await enqueueWebhookEvent(userId, 'task.deleted', { task });
+  }
+
+  return true;
+};
+
+export const findTrashedTaskById = async (userId: string, id: string): Promise<Task | null> => {
+  const query = `${TASK_SELECT} WHERE id = ? AND userId = ? AND deletedAt IS NOT NULL`;
+  const row = await getRow(query, [id, userId]);
+  return row ? mapRowToTask(row) : null;
+};
+
+/**
+ * Trashed tasks, most recently deleted first
+ */
+export const findTrashedTasks = async (
+  userId: string,
+  pagination: { page?: number; limit?: number } = {}
+): Promise<Task[]> => {
+  let query = `${TASK_SELECT} WHERE userId = ? AND deletedAt IS NOT NULL ORDER BY deletedAt DESC, createdAt DESC`;
+
+  if (pagination.limit) {
+    const offset = calculateOffset(pagination.page || 1, pagination.limit);
+    query += ` LIMIT ${pagination.limit} OFFSET ${offset}`;
+  }
+
+  const rows = await getAllRows(query, [userId]);
+  return rows.map(row => mapRowToTask(row));
+};
+
+export const getTrashedTaskCount = async (userId: string): Promise<number> => {
+  const row = await getRow('SELECT COUNT(*) as count FROM tasks WHERE userId = ? AND deletedAt IS NOT NULL', [userId]);
+  return Number(row?.count || 0);
+};
+
+/**
+ * Takes a task out of the trash together with the subtasks deleted with it.
+ * Returns null when the task is not in the trash.
+ */
+export const restoreTask = async (userId: string, id: string): Promise<Task | null> => {
+  const rows = await getAllRows(`SELECT id FROM tasks WHERE id IN (${TRASHED_SUBTREE_IDS})`, [id, userId]);
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const ids = rows.map(row => row.id);
+  const placeholders = ids.map(() => '?').join(', ');
+  await runQuery(
+    `UPDATE tasks SET deletedAt = NULL, version = version + 1, updatedAt = ? WHERE id IN (${placeholders})`,
+    [new Date().toISOString(), ...ids]
+  );
+
+  const restored = await getRow('SELECT parentId FROM tasks WHERE id = ?', [id]);
+  await bumpAncestorVersions(restored?.parentId || undefined);
+
+  for (const taskId of ids) {
+    const task = await findTaskById(userId, taskId);
+    await recordTaskAudit(userId, taskId, 'restore', diffTaskFields(null, task));
+  }
+
+  return findTaskById(userId, id);
+};
+
+const purgeTaskRows = async (userId: string, rows: any[]): Promise<number> => {
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  // Subtasks go too, including ones trashed separately from their parent
+  const placeholders = rows.map(() => '?').join(', ');
+  const subtreeRows = await getAllRows(
+    `WITH RECURSIVE subtree(id) AS (
+       SELECT id FROM tasks WHERE id IN (${placeholders})
+       UNION
+       SELECT tasks.id FROM tasks JOIN subtree ON tasks.parentId = subtree.id
+     )
+     SELECT id FROM subtree`,
+    rows.map(row => row.id)
+  );
+
+  const ids = subtreeRows.map(row => row.id);
+  await runQuery(`DELETE FROM tasks WHERE id IN (${ids.map(() => '?').join(', ')})`, ids);
+
+  for (const id of ids) {
+    await recordTaskAudit(userId, id, 'purge', {});
+  }
+
+  return ids.length;
+};
+
+/**
+ * Permanently deletes a trashed task and its subtasks
+ */
+export const purgeTask = async (userId: string, id: string): Promise<boolean> => {
+  const rows = await getAllRows(
+    'SELECT id FROM tasks WHERE id = ? AND userId = ? AND deletedAt IS NOT NULL',
+    [id, userId]
+  );
+  return (await purgeTaskRows(userId, rows)) > 0;
+};
+
+/**
+ * Permanently deletes every task in the user's trash. Returns the number of
+ * tasks removed.
+ */
+export const emptyTrash = async (userId: string): Promise<number> => {
+  const rows = await getAllRows('SELECT id FROM tasks WHERE userId = ? AND deletedAt IS NOT NULL', [userId]);
+  return purgeTaskRows(userId, rows);
+};
+
+/**
+ * Permanently deletes tasks of all users that were trashed before `cutoff`.
+ * Returns the number of tasks removed.
+ */
+export const purgeTasksDeletedBefore = async (cutoff: string): Promise<number> => {
+  const rows = await getAllRows(
+    'SELECT id, userId FROM tasks WHERE deletedAt IS NOT NULL AND deletedAt < ?',
+    [cutoff]
+  );
+
+  let purged = 0;
+  const rowsByUser = new Map<string, any[]>();
+  for (const row of rows) {
+    rowsByUser.set(row.userId, [...(rowsByUser.get(row.userId) || []), row]);
+  }
+  for (const [userId, userRows] of rowsByUser) {
+    purged += await purgeTaskRows(userId, userRows);
+  }
+
+  return purged;
+};
+
+/**
+ * Number of tasks matching `filters`; a null `userId` counts across all users
+ */
+export const getTaskCount = async (
+  userId: string | null,
+  filters: Omit<TaskFilters, 'page' | 'limit' | 'sortBy' | 'sortOrder'> = {}
+): Promise<number> => {
+  const { clause, params } = buildTaskFilterClause(userId, filters);
+  let query = `SELECT COUNT(*) as count FROM tasks WHERE 1=1${clause}`;
+
+  if (filters.q !== undefined) {
+    const ftsQuery = buildFtsQuery(filters.q);
+    if (!ftsQuery) {
+      return 0;
+    }
+    query += ' AND tasks.id IN (SELECT taskId FROM tasks_fts WHERE tasks_fts MATCH ?)';
+    params.push(ftsQuery);
   }
 
   const row = await getRow(query, params);
@@ -0,0 +1,59 @@
+import { v4 as uuidv4 } from 'uuid';
+import bcrypt from 'bcryptjs';
+import { runQuery, getRow } from '../database/init';
+import { User, RegisterUserRequest } from '../types';
+
+const PASSWORD_HASH_ROUNDS = 12;
+
+const mapRowToUser = (row: any): User => {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  };
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  return bcrypt.hash(password, PASSWORD_HASH_ROUNDS);
+};
+
+export const createUser = async (userData: RegisterUserRequest): Promise<User> => {
+  const id = uuidv4();
+  const now = new Date().toISOString();
+  const passwordHash = await hashPassword(userData.password);
+
+  const query = `
+    INSERT INTO users (id, email, passwordHash, name, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `;
+
+  await runQuery(query, [id, userData.email, passwordHash, userData.name || null, now, now]);
+
+  return {
+    id,
+    email: userData.email,
+    name: userData.name,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const findUserById = async (id: string): Promise<User | null> => {
+  const row = await getRow('SELECT * FROM users WHERE id = ?', [id]);
+  return row ? mapRowToUser(row) : null;
+};
+
+/**
+ * Returns the user when the email/password pair is valid, otherwise null
+ */
+export const verifyUserCredentials = async (email: string, password: string): Promise<User | null> => {
+  const row = await getRow('SELECT * FROM users WHERE email = ?', [email]);
+  if (!row) {
+    return null;
+  }
+
+  const matches = await bcrypt.compare(password, row.passwordHash);
+  return matches ? mapRowToUser(row) : null;
+};
@@ -0,0 +1,276 @@
+import { v4 as uuidv4 } from 'uuid';
+import { randomBytes } from 'crypto';
+import { runQuery, getRow, getAllRows } from '../database/init';
+import {
+  Webhook,
+  WebhookEvent,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  CreatedWebhook
+} from '../types';
+import { calculateOffset } from '../utils/pagination';
+
+/**
+ * A queued delivery together with the subscription details needed to send it
+ */
+export interface DueWebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  payload: string;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+export interface DeliveryAttemptResult {
+  succeeded: boolean;
+  responseStatus?: number;
+  error?: string;
+  // When to try again; omitted once the delivery has succeeded or given up
+  nextAttemptAt?: string;
+}
+
+const mapRowToWebhook = (row: any): Webhook => {
+  return {
+    id: row.id,
+    url: row.url,
+    events: JSON.parse(row.events),
+    active: Boolean(row.active),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  };
+};
+
+const mapRowToDelivery = (row: any): WebhookDelivery => {
+  return {
+    id: row.id,
+    webhookId: row.webhookId,
+    event: row.event,
+    payload: JSON.parse(row.payload),
+    status: row.status,
+    attempts: Number(row.attempts),
+    nextAttemptAt: row.nextAttemptAt || undefined,
+    lastAttemptAt: row.lastAttemptAt || undefined,
+    responseStatus: row.responseStatus !== null ? Number(row.responseStatus) : undefined,
+    lastError: row.lastError || undefined,
+    createdAt: row.createdAt
+  };
+};
+
+const generateWebhookSecret = (): string => {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+};
+
+/**
+ * Creates a webhook subscription. The signing secret is only returned here.
+ */
+export const createWebhook = async (userId: string, webhookData: CreateWebhookRequest): Promise<CreatedWebhook> => {
+  const id = uuidv4();
+  const now = new Date().toISOString();
+  const secret = webhookData.secret || generateWebhookSecret();
+
+  const query = `
+    INSERT INTO webhooks (id, userId, url, secret, events, active, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, 1, ?, ?)
+  `;
+
+  await runQuery(query, [id, userId, webhookData.url, secret, JSON.stringify(webhookData.events), now, now]);
+
+  return {
+    webhook: {
+      id,
+      url: webhookData.url,
+      events: webhookData.events,
+      active: true,
+      createdAt: now,
+      updatedAt: now
+    },
+    secret
+  };
+};
+
+export const findWebhooksByUser = async (userId: string): Promise<Webhook[]> => {
+  const query = 'SELECT * FROM webhooks WHERE userId = ? ORDER BY createdAt DESC';
+  const rows = await getAllRows(query, [userId]);
+  return rows.map(row => mapRowToWebhook(row));
+};
+
+export const findWebhookById = async (userId: string, id: string): Promise<Webhook | null> => {
+  const row = await getRow('SELECT * FROM webhooks WHERE id = ? AND userId = ?', [id, userId]);
+  return row ? mapRowToWebhook(row) : null;
+};
+
+export const updateWebhook = async (
+  userId: string,
+  id: string,
+  updateData: UpdateWebhookRequest
+): Promise<Webhook | null> => {
+  const existingWebhook = await findWebhookById(userId, id);
+  if (!existingWebhook) {
+    return null;
+  }
+
+  const updates: string[] = [];
+  const params: any[] = [];
+
+  if (updateData.url !== undefined) {
+    updates.push('url = ?');
+    params.push(updateData.url);
+  }
+
+  if (updateData.events !== undefined) {
+    updates.push('events = ?');
+    params.push(JSON.stringify(updateData.events));
+  }
+
+  if (updateData.active !== undefined) {
+    updates.push('active = ?');
+    params.push(updateData.active ? 1 : 0);
+  }
+
+  if (updateData.secret !== undefined) {
+    updates.push('secret = ?');
+    params.push(updateData.secret);
+  }
+
+  if (updates.length === 0) {
+    return existingWebhook;
+  }
+
+  updates.push('updatedAt = ?');
+  params.push(new Date().toISOString());
+  params.push(id, userId);
+
+  await runQuery(`UPDATE webhooks SET ${updates.join(', ')} WHERE id = ? AND userId = ?`, params);
+
+  return findWebhookById(userId, id);
+};
+
+/**
+ * Deletes a subscription together with its delivery log
+ */
+export const deleteWebhook = async (userId: string, id: string): Promise<boolean> => {
+  const result = await runQuery('DELETE FROM webhooks WHERE id = ? AND userId = ?', [id, userId]);
+  return (result.changes || 0) > 0;
+};
+
+/**
+ * Queues a delivery of `event` to every active webhook of the user that
+ * subscribes to it and returns how many were queued. Runs inside the
+ * caller's transaction, if any, so events from rolled back changes are never sent.
+ */
+export const enqueueWebhookEvent = async (userId: string, event: WebhookEvent, data: unknown): Promise<number> => {
+  const webhooks = await getAllRows(
+    `SELECT id FROM webhooks
+     WHERE userId = ? AND active = 1
+       AND EXISTS (SELECT 1 FROM json_each(webhooks.events) WHERE json_each.value = ?)`,
+    [userId, event]
+  );
+
+  const now = new Date().toISOString();
+  for (const webhook of webhooks) {
+    const id = uuidv4();
+    const payload = JSON.stringify({ id, event, createdAt: now, data });
+    await runQuery(
+      `INSERT INTO webhook_deliveries (id, webhookId, event, payload, status, attempts, nextAttemptAt, createdAt)
+       VALUES (?, ?, ?, ?, 'pending', 0, ?, ?)`,
+      [id, webhook.id, event, payload, now, now]
+    );
+  }
+
+  return webhooks.length;
+};
+
+/**
+ * Pending deliveries whose next attempt is due, oldest first. Deliveries for
+ * paused webhooks stay queued until the webhook is reactivated.
+ */
+export const findDueDeliveries = async (now: string, limit: number): Promise<DueWebhookDelivery[]> => {
+  const query = `
+    SELECT webhook_deliveries.id, webhook_deliveries.webhookId, webhook_deliveries.event,
+      webhook_deliveries.payload, webhook_deliveries.attempts, webhooks.url, webhooks.secret
+    FROM webhook_deliveries
+    JOIN webhooks ON webhooks.id = webhook_deliveries.webhookId
+    WHERE webhook_deliveries.status = 'pending'
+      AND webhook_deliveries.nextAttemptAt <= ?
+      AND webhooks.active = 1
+    ORDER BY webhook_deliveries.nextAttemptAt ASC
+    LIMIT ?
+  `;
+  const rows = await getAllRows(query, [now, limit]);
+
+  return rows.map(row => ({
+    id: row.id,
+    webhookId: row.webhookId,
+    event: row.event,
+    payload: row.payload,
+    attempts: Number(row.attempts),
+    url: row.url,
+    secret: row.secret
+  }));
+};
+
+export const recordDeliveryAttempt = async (id: string, result: DeliveryAttemptResult): Promise<void> => {
+  const status = result.succeeded ? 'succeeded' : (result.nextAttemptAt ? 'pending' : 'failed');
+
+  const query = `
+    UPDATE webhook_deliveries
+    SET status = ?, attempts = attempts + 1, lastAttemptAt = ?, nextAttemptAt = ?,
+      responseStatus = ?, lastError = ?
+    WHERE id = ?
+  `;
+
+  await runQuery(query, [
+    status,
+    new Date().toISOString(),
+    result.nextAttemptAt || null,
+    result.responseStatus ?? null,
+    result.error || null,
+    id
+  ]);
+};
+
+const buildDeliveryFilterClause = (
+  webhookId: string,
+  filters: Omit<WebhookDeliveryFilters, 'page' | 'limit' | 'sortBy' | 'sortOrder'>
+): { clause: string; params: any[] } => {
+  let clause = ' AND webhookId = ?';
+  const params: any[] = [webhookId];
+
+  if (filters.status) {
+    clause += ' AND status = ?';
+    params.push(filters.status);
+  }
+
+  if (filters.event) {
+    clause += ' AND event = ?';
+    params.push(filters.event);
+  }
+
+  return { clause, params };
+};
+
+/**
+ * Delivery log of a webhook, newest first
+ */
+export const findDeliveries = async (webhookId: string, filters: WebhookDeliveryFilters = {}): Promise<WebhookDelivery[]> => {
+  const { clause, params } = buildDeliveryFilterClause(webhookId, filters);
+  let query = `SELECT * FROM webhook_deliveries WHERE 1=1${clause} ORDER BY createdAt DESC, id DESC`;
+
+  if (filters.limit) {
+    const offset = calculateOffset(filters.page || 1, filters.limit);
+    query += ` LIMIT ${filters.limit} OFFSET ${offset}`;
+  }
+
+  const rows = await getAllRows(query, params);
+  return rows.map(row => mapRowToDelivery(row));
+};
+
+export const getDeliveryCount = async (webhookId: string, filters: WebhookDeliveryFilters = {}): Promise<number> => {
+  const { clause, params } = buildDeliveryFilterClause(webhookId, filters);
+  const row = await getRow(`SELECT COUNT(*) as count FROM webhook_deliveries WHERE 1=1${clause}`, params);
+  return Number(row?.count || 0);
+};
@@ -0,0 +1,42 @@
+import apiKeyRoutes from '../routes/apiKeys';
+import { RouterDocs, ref, envelope, errorResponse } from './document';
+
+export const apiKeyDocs: RouterDocs = {
+  basePath: '/api/keys',
+  router: apiKeyRoutes,
+  tag: 'API keys',
+  description: 'API keys for scripts and calendar feed tokens. Requires the admin scope when using an API key.',
+  operations: {
+    'GET /': {
+      summary: 'List API keys and feed tokens',
+      description: 'Only the prefix of each key is shown.',
+      responses: {
+        200: { description: 'The keys', schema: envelope({ type: 'array', items: ref('ApiKey') }) }
+      }
+    },
+    'POST /': {
+      summary: 'Create an API key or feed token',
+      description: 'The key is only returned in this response. Feed tokens (`kind: feed`) only get the tasks:read scope.',
+      responses: {
+        201: {
+          description: 'The key and its details',
+          schema: envelope({
+            type: 'object',
+            properties: {
+              apiKey: ref('ApiKey'),
+              key: { type: 'string' }
+            }
+          })
+        },
+        400: errorResponse('Invalid request')
+      }
+    },
+    'DELETE /:id': {
+      summary: 'Revoke an API key or feed token',
+      responses: {
+        200: { description: 'Key revoked', schema: envelope() },
+        404: errorResponse('API key not found')
+      }
+    }
+  }
+};
@@ -0,0 +1,19 @@
+import auditRoutes from '../routes/audit';
+import { RouterDocs, ref, envelope, paginated, errorResponse } from './document';
+
+export const auditDocs: RouterDocs = {
+  basePath: '/api/audit',
+  router: auditRoutes,
+  tag: 'Audit log',
+  description: "Changes to all of the user's tasks. Requires the admin scope when using an API key.",
+  operations: {
+    'GET /': {
+      summary: 'List task changes',
+      description: 'Newest first unless `sortOrder=asc`. The same entries as GET /api/tasks/{id}/history, across tasks.',
+      responses: {
+        200: { description: 'A page of audit entries', schema: envelope(paginated(ref('TaskAuditEntry'))) },
+        400: errorResponse('Invalid request')
+      }
+    }
+  }
+};
@@ -0,0 +1,46 @@
+import authRoutes from '../routes/auth';
+import { RouterDocs, ref, envelope, errorResponse } from './document';
+
+const tokenResponse = {
+  type: 'object',
+  properties: {
+    token: { type: 'string', description: 'Bearer token for the Authorization header' },
+    expiresIn: { type: 'string', description: 'Lifetime of the token, such as 7d' },
+    user: ref('User')
+  }
+};
+
+export const authDocs: RouterDocs = {
+  basePath: '/api/auth',
+  router: authRoutes,
+  tag: 'Authentication',
+  description: 'Accounts and login tokens.',
+  operations: {
+    'POST /register': {
+      summary: 'Create an account',
+      description: 'Returns a login token for the new account.',
+      public: true,
+      responses: {
+        201: { description: 'Account created', schema: envelope(tokenResponse) },
+        400: errorResponse('Invalid request'),
+        409: errorResponse('The email address is already registered')
+      }
+    },
+    'POST /login': {
+      summary: 'Log in',
+      public: true,
+      responses: {
+        200: { description: 'Login token', schema: envelope(tokenResponse) },
+        400: errorResponse('Invalid request'),
+        401: errorResponse('Invalid email or password')
+      }
+    },
+    'GET /me': {
+      summary: 'Get the authenticated user',
+      responses: {
+        200: { description: 'The user', schema: envelope(ref('User')) },
+        401: errorResponse('Not authenticated')
+      }
+    }
+  }
+};
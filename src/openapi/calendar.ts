@@ -0,0 +1,63 @@
+import calendarRoutes from '../routes/calendar';
+import { RouterDocs, envelope, errorResponse } from './document';
+
+const icsImportResult = {
+  type: 'object',
+  properties: {
+    created: { type: 'integer' },
+    skipped: { type: 'integer' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer', description: 'Position of the component in the calendar' },
+          uid: { type: 'string' },
+          reason: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+export const calendarDocs: RouterDocs = {
+  basePath: '/api',
+  router: calendarRoutes,
+  tag: 'Calendar',
+  description: 'iCalendar feed and import.',
+  operations: {
+    'GET /tasks.ics': {
+      summary: 'Subscribe to tasks as an iCalendar feed',
+      description: 'Every task matching the filters as a VTODO; pagination parameters are ignored. ' +
+        'Calendar apps pass a feed token as `token`; API keys are refused in the URL.',
+      parameters: [
+        {
+          name: 'token',
+          in: 'query',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Feed token created with POST /api/keys and `kind: feed`'
+        }
+      ],
+      responses: {
+        200: { description: 'iCalendar document', contentType: 'text/calendar', schema: { type: 'string' } },
+        401: errorResponse('Missing or invalid feed token')
+      }
+    },
+    'POST /import/ics': {
+      summary: 'Import tasks from an iCalendar document',
+      description: 'VTODO and VEVENT components become tasks. Components that cannot be imported are skipped and reported; the rest are saved together.',
+      requestBody: {
+        content: {
+          'text/calendar': { schema: { type: 'string' } }
+        }
+      },
+      responses: {
+        200: { description: 'Nothing could be imported', schema: envelope(icsImportResult) },
+        201: { description: 'Tasks imported', schema: envelope(icsImportResult) },
+        400: errorResponse('The body is not an iCalendar document'),
+        413: errorResponse('The document is too large')
+      }
+    }
+  }
+};
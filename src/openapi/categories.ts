@@ -0,0 +1,95 @@
+import categoryRoutes from '../routes/categories';
+import { RouterDocs, ref, envelope, errorResponse } from './document';
+
+const categoryNotFound = errorResponse('Category not found');
+const invalidRequest = errorResponse('Invalid request');
+const duplicateName = errorResponse('A category with that name already exists');
+
+export const categoryDocs: RouterDocs = {
+  basePath: '/api/categories',
+  router: categoryRoutes,
+  tag: 'Categories',
+  description: 'Categories group tasks and events. API keys need the tasks:read scope to read them and tasks:write to change them.',
+  operations: {
+    'GET /': {
+      summary: 'List categories',
+      responses: {
+        200: { description: 'The categories', schema: envelope({ type: 'array', items: ref('Category') }) }
+      }
+    },
+    'GET /stats/summary': {
+      summary: 'Get category statistics',
+      responses: {
+        200: {
+          description: 'Category counts and usage',
+          schema: envelope({
+            type: 'object',
+            properties: {
+              total: { type: 'integer' },
+              inUse: { type: 'integer' },
+              unused: { type: 'integer' },
+              usage: { type: 'array', items: ref('CategoryUsage') }
+            }
+          })
+        }
+      }
+    },
+    'GET /:id': {
+      summary: 'Get a category',
+      responses: {
+        200: { description: 'The category', schema: envelope(ref('Category')) },
+        404: categoryNotFound
+      }
+    },
+    'GET /:id/usage': {
+      summary: 'Count the tasks and events in a category',
+      responses: {
+        200: { description: 'Usage counts', schema: envelope(ref('CategoryUsage')) },
+        404: categoryNotFound
+      }
+    },
+    'POST /': {
+      summary: 'Create a category',
+      responses: {
+        201: { description: 'The created category', schema: envelope(ref('Category')) },
+        400: invalidRequest,
+        409: duplicateName
+      }
+    },
+    'PUT /:id': {
+      summary: 'Update a category',
+      responses: {
+        200: { description: 'The updated category', schema: envelope(ref('Category')) },
+        400: invalidRequest,
+        404: categoryNotFound,
+        409: duplicateName
+      }
+    },
+    'DELETE /:id': {
+      summary: 'Delete a category',
+      description: 'Refused while tasks or events are in the category; use the force delete to detach them.',
+      responses: {
+        200: { description: 'Category deleted', schema: envelope() },
+        404: categoryNotFound,
+        409: errorResponse('The category is in use')
+      }
+    },
+    'DELETE /:id/force': {
+      summary: 'Delete a category and detach its tasks and events',
+      description: 'Runs in one transaction. Each detached task gets a history entry and a task.updated event.',
+      responses: {
+        200: {
+          description: 'Category deleted',
+          schema: envelope({
+            type: 'object',
+            properties: {
+              detachedTasks: { type: 'integer' },
+              detachedEvents: { type: 'integer' }
+            }
+          })
+        },
+        404: categoryNotFound
+      }
+    }
+  }
+};
@@ -0,0 +1,35 @@
+import docsRoutes from '../routes/docs';
+import { RouterDocs } from './document';
+
+export const docsDocs: RouterDocs = {
+  basePath: '/api',
+  // Read when used: this router serves the document, so the two modules
+  // import each other and the router is not defined yet at load time
+  get router() {
+    return docsRoutes;
+  },
+  tag: 'Documentation',
+  operations: {
+    'GET /openapi.json': {
+      summary: 'Get this OpenAPI document',
+      public: true,
+      responses: {
+        200: { description: 'OpenAPI 3 document', schema: { type: 'object' } }
+      }
+    },
+    'GET /docs': {
+      summary: 'Interactive API reference',
+      public: true,
+      responses: {
+        200: { description: 'HTML page', contentType: 'text/html', schema: { type: 'string' } }
+      }
+    },
+    'GET /docs/docs.js': {
+      summary: 'Script of the API reference page',
+      public: true,
+      responses: {
+        200: { description: 'JavaScript', contentType: 'application/javascript', schema: { type: 'string' } }
+      }
+    }
+  }
+};
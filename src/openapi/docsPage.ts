@@ -0,0 +1,194 @@
+/**
+ * A self-contained API reference page that renders /api/openapi.json. The
+ * script is served from its own URL because the Content-Security-Policy set
+ * by helmet blocks inline scripts.
+ */
+
+export const DOCS_PAGE_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Day Planner API</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 24px; color: #1f2933; }
+    h1 { margin-bottom: 4px; }
+    h2 { border-bottom: 1px solid #d9e2ec; padding-bottom: 6px; margin-top: 32px; }
+    details { border: 1px solid #d9e2ec; border-radius: 6px; margin: 8px 0; }
+    summary { cursor: pointer; padding: 8px 12px; display: flex; gap: 12px; align-items: center; }
+    .body { padding: 0 16px 12px; }
+    .method { font-weight: bold; font-size: 12px; color: #fff; border-radius: 4px; padding: 2px 8px; min-width: 52px; text-align: center; }
+    .get { background: #2f80ed; } .post { background: #27ae60; } .put { background: #f2994a; }
+    .patch { background: #9b51e0; } .delete { background: #eb5757; }
+    .path { font-family: monospace; font-size: 14px; }
+    .muted { color: #627d98; }
+    table { border-collapse: collapse; width: 100%; font-size: 14px; }
+    th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #f0f4f8; vertical-align: top; }
+    code, .schema { font-family: monospace; font-size: 13px; }
+    .schema ul { list-style: none; padding-left: 18px; margin: 2px 0; }
+    .required { color: #eb5757; }
+  </style>
+</head>
+<body>
+  <h1 id="title">Day Planner API</h1>
+  <p class="muted">Generated from the route validation schemas. Raw document: <a href="/api/openapi.json">/api/openapi.json</a></p>
+  <div id="content">Loading…</div>
+  <script src="/api/docs/docs.js"></script>
+</body>
+</html>
+`;
+
+export const DOCS_PAGE_SCRIPT = `(function () {
+  var spec;
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) { node.setAttribute(key, attrs[key]); });
+    (children || []).forEach(function (child) {
+      node.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+    });
+    return node;
+  }
+
+  function resolve(schema) {
+    if (schema && schema.$ref) {
+      return spec.components.schemas[schema.$ref.split('/').pop()];
+    }
+    return schema || {};
+  }
+
+  // Flattens allOf so envelopes show as one object
+  function merge(schema) {
+    schema = resolve(schema);
+    if (!schema.allOf) {
+      return schema;
+    }
+    var merged = { type: 'object', properties: {}, required: [] };
+    schema.allOf.map(merge).forEach(function (part) {
+      Object.assign(merged.properties, part.properties || {});
+      merged.required = merged.required.concat(part.required || []);
+    });
+    return merged;
+  }
+
+  function describeType(schema) {
+    var parts = [];
+    if (schema.$ref) {
+      parts.push(schema.$ref.split('/').pop());
+      schema = resolve(schema);
+    }
+    var type = schema.type === 'array' ? describeType(schema.items || {}) + '[]' : (schema.type || 'any');
+    parts.push(schema.format ? type + ' (' + schema.format + ')' : type);
+    if (schema.nullable) { parts.push('nullable'); }
+    if (schema.enum) { parts.push('one of ' + schema.enum.join(', ')); }
+    ['minLength', 'maxLength', 'minimum', 'maximum', 'minItems', 'maxItems'].forEach(function (key) {
+      if (schema[key] !== undefined) { parts.push(key + ' ' + schema[key]); }
+    });
+    if (schema.default !== undefined) { parts.push('default ' + JSON.stringify(schema.default)); }
+    return parts.join(', ');
+  }
+
+  // Renders properties as a nested list; refs already being shown are not expanded again
+  function renderSchema(schema, seen) {
+    var ref = schema && schema.$ref;
+    var resolved = merge(schema);
+    if (resolved.type === 'array' && resolved.items) {
+      return renderSchema(resolved.items, seen);
+    }
+    var list = el('ul');
+    if (!resolved.properties || (ref && seen.indexOf(ref) !== -1)) {
+      return list;
+    }
+    var nextSeen = ref ? seen.concat(ref) : seen;
+    Object.keys(resolved.properties).forEach(function (name) {
+      var property = resolved.properties[name];
+      var required = (resolved.required || []).indexOf(name) !== -1;
+      var item = el('li', {}, [
+        el('code', {}, [name]),
+        required ? el('span', { class: 'required' }, [' *']) : '',
+        el('span', { class: 'muted' }, [' ' + describeType(property)]),
+        property.description ? ' ' + property.description : ''
+      ]);
+      item.appendChild(renderSchema(property, nextSeen));
+      list.appendChild(item);
+    });
+    return list;
+  }
+
+  function renderParameters(parameters) {
+    var rows = parameters.map(function (parameter) {
+      return el('tr', {}, [
+        el('td', {}, [el('code', {}, [parameter.name]), parameter.required ? el('span', { class: 'required' }, [' *']) : '']),
+        el('td', {}, [parameter.in]),
+        el('td', {}, [describeType(parameter.schema || {})]),
+        el('td', {}, [parameter.description || ''])
+      ]);
+    });
+    return el('table', {}, [el('tr', {}, [el('th', {}, ['Name']), el('th', {}, ['In']), el('th', {}, ['Type']), el('th', {}, ['Notes'])])].concat(rows));
+  }
+
+  function renderContent(content) {
+    var nodes = [];
+    Object.keys(content || {}).forEach(function (type) {
+      nodes.push(el('div', { class: 'muted' }, [type]));
+      nodes.push(el('div', { class: 'schema' }, [renderSchema(content[type].schema, [])]));
+    });
+    return nodes;
+  }
+
+  function renderOperation(path, method, operation) {
+    var body = el('div', { class: 'body' });
+    if (operation.description) { body.appendChild(el('p', {}, [operation.description])); }
+    if (operation.security && operation.security.length === 0) { body.appendChild(el('p', { class: 'muted' }, ['No authentication required'])); }
+    if (operation.parameters) {
+      body.appendChild(el('h4', {}, ['Parameters']));
+      body.appendChild(renderParameters(operation.parameters));
+    }
+    if (operation.requestBody) {
+      body.appendChild(el('h4', {}, ['Request body']));
+      renderContent(operation.requestBody.content).forEach(function (node) { body.appendChild(node); });
+    }
+    body.appendChild(el('h4', {}, ['Responses']));
+    Object.keys(operation.responses).forEach(function (status) {
+      var response = operation.responses[status];
+      body.appendChild(el('p', {}, [el('strong', {}, [status]), ' ' + response.description]));
+      renderContent(response.content).forEach(function (node) { body.appendChild(node); });
+    });
+
+    return el('details', {}, [
+      el('summary', {}, [
+        el('span', { class: 'method ' + method }, [method.toUpperCase()]),
+        el('span', { class: 'path' }, [path]),
+        el('span', { class: 'muted' }, [operation.summary || ''])
+      ]),
+      body
+    ]);
+  }
+
+  function render() {
+    var content = document.getElementById('content');
+    content.textContent = '';
+    document.getElementById('title').textContent = spec.info.title + ' ' + spec.info.version;
+
+    spec.tags.forEach(function (tag) {
+      content.appendChild(el('h2', {}, [tag.name]));
+      if (tag.description) { content.appendChild(el('p', { class: 'muted' }, [tag.description])); }
+      Object.keys(spec.paths).forEach(function (path) {
+        Object.keys(spec.paths[path]).forEach(function (method) {
+          var operation = spec.paths[path][method];
+          if (operation.tags.indexOf(tag.name) !== -1) {
+            content.appendChild(renderOperation(path, method, operation));
+          }
+        });
+      });
+    });
+  }
+
+  fetch('/api/openapi.json')
+    .then(function (response) { return response.json(); })
+    .then(function (loaded) { spec = loaded; render(); })
+    .catch(function (error) {
+      document.getElementById('content').textContent = 'Could not load the API description: ' + error.message;
+    });
+})();
+`;
@@ -0,0 +1,477 @@
+import express from 'express';
+import { isValidationMiddleware, recurrenceRuleSchema } from '../utils/validation';
+import { idempotent } from '../middleware/idempotency';
+import { joiToSchema, joiToParameters, OpenApiParameter, SchemaObject } from './joiSchema';
+
+/**
+ * Builds the OpenAPI 3 document by walking the registered Express routers.
+ * Parameters and request bodies come from each route's validation
+ * middleware; summaries and responses come from the router's operation docs,
+ * keyed by `METHOD path` exactly as the route is declared.
+ */
+
+export interface ResponseDoc {
+  description: string;
+  schema?: SchemaObject;
+  // Defaults to application/json when a schema is given
+  contentType?: string;
+  headers?: Record<string, { description: string; schema: SchemaObject }>;
+}
+
+export interface OperationDoc {
+  summary: string;
+  description?: string;
+  // Request bodies that are not validated by Joi, such as file uploads
+  requestBody?: { description?: string; content: Record<string, { schema: SchemaObject }> };
+  parameters?: OpenApiParameter[];
+  responses: Record<string, ResponseDoc>;
+  // Operations that can be called without credentials
+  public?: boolean;
+}
+
+export interface RouterDocs {
+  // Mount path as passed to app.use, e.g. /api/tasks
+  basePath: string;
+  router: express.Router;
+  tag: string;
+  description?: string;
+  operations: Record<string, OperationDoc>;
+  // False for routers mounted outside the /api rate limit
+  rateLimited?: boolean;
+}
+
+interface RouteDefinition {
+  method: string;
+  path: string;
+  handlers: unknown[];
+}
+
+export const ref = (name: string): SchemaObject => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * Wraps `data` in the `ApiResponse` envelope used by every JSON endpoint
+ */
+export const envelope = (data?: SchemaObject): SchemaObject => ({
+  allOf: [
+    ref('ApiResponse'),
+    ...(data ? [{ type: 'object', properties: { data } }] : [])
+  ]
+});
+
+export const paginated = (item: SchemaObject): SchemaObject => ({
+  type: 'object',
+  required: ['items', 'pagination'],
+  properties: {
+    items: { type: 'array', items: item },
+    pagination: ref('PaginationMeta')
+  }
+});
+
+export const errorResponse = (description: string): ResponseDoc => ({
+  description,
+  schema: ref('ErrorResponse')
+});
+
+const idempotencyKeyHeader: OpenApiParameter = {
+  name: 'Idempotency-Key',
+  in: 'header',
+  required: false,
+  schema: { type: 'string', maxLength: 255 },
+  description: 'Makes the request safe to retry: repeats with the same key and request replay the first response.'
+};
+
+const rateLimitedResponse: ResponseDoc = {
+  description: 'Rate limit exceeded',
+  schema: ref('ErrorResponse'),
+  headers: {
+    'Retry-After': { description: 'Seconds until the request may be retried', schema: { type: 'integer' } }
+  }
+};
+
+const idempotencyResponses: Record<string, ResponseDoc> = {
+  409: errorResponse('A request with the same Idempotency-Key is still being processed'),
+  422: errorResponse('The Idempotency-Key was already used for a different request')
+};
+
+const components = {
+  securitySchemes: {
+    bearerAuth: {
+      type: 'http',
+      scheme: 'bearer',
+      bearerFormat: 'JWT',
+      description: 'Login token from POST /api/auth/login. API keys are accepted as bearer tokens too.'
+    },
+    apiKeyAuth: {
+      type: 'apiKey',
+      in: 'header',
+      name: 'Authorization',
+      description: 'An API key sent as `Authorization: ApiKey <key>`'
+    }
+  },
+  schemas: {
+    ApiResponse: {
+      type: 'object',
+      required: ['success'],
+      properties: {
+        success: { type: 'boolean' },
+        data: {},
+        message: { type: 'string' },
+        error: { type: 'string' }
+      }
+    },
+    ErrorResponse: {
+      type: 'object',
+      required: ['success', 'error'],
+      properties: {
+        success: { type: 'boolean', enum: [false] },
+        error: { type: 'string' },
+        message: { type: 'string', description: 'Details of a validation error' }
+      }
+    },
+    PaginationMeta: {
+      type: 'object',
+      required: ['limit', 'total', 'hasNextPage', 'hasPrevPage'],
+      properties: {
+        page: { type: 'integer', description: 'Omitted in cursor mode' },
+        limit: { type: 'integer' },
+        total: { type: 'integer' },
+        totalPages: { type: 'integer', description: 'Omitted in cursor mode' },
+        hasNextPage: { type: 'boolean' },
+        hasPrevPage: { type: 'boolean' },
+        nextPage: { type: 'integer' },
+        prevPage: { type: 'integer' },
+        nextCursor: { type: 'string' },
+        prevCursor: { type: 'string' }
+      }
+    },
+    RecurrenceRule: joiToSchema(recurrenceRuleSchema),
+    Task: {
+      type: 'object',
+      required: ['id', 'userId', 'title', 'completed', 'priority', 'tags', 'version', 'createdAt', 'updatedAt'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        userId: { type: 'string', format: 'uuid' },
+        title: { type: 'string' },
+        description: { type: 'string' },
+        completed: { type: 'boolean' },
+        priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+        dueDate: { type: 'string', format: 'date-time' },
+        categoryId: { type: 'string', format: 'uuid' },
+        tags: { type: 'array', items: { type: 'string' } },
+        recurrence: ref('RecurrenceRule'),
+        occurrenceIndex: { type: 'integer' },
+        nextOccurrenceId: { type: 'string', format: 'uuid' },
+        parentId: { type: 'string', format: 'uuid' },
+        search: {
+          type: 'object',
+          description: 'Present on search results',
+          properties: {
+            rank: { type: 'number' },
+            title: { type: 'string', description: 'HTML-escaped title with matches wrapped in <mark>' },
+            snippet: { type: 'string', description: 'HTML-escaped description excerpt with matches wrapped in <mark>' }
+          }
+        },
+        progress: {
+          type: 'object',
+          description: 'Completed and total subtask counts',
+          properties: {
+            completed: { type: 'integer' },
+            total: { type: 'integer' }
+          }
+        },
+        subtasks: { type: 'array', items: ref('Task') },
+        deletedAt: { type: 'string', format: 'date-time', description: 'Set while the task is in the trash' },
+        version: { type: 'integer', description: 'Incremented on every change to the task or its subtasks; exposed as the ETag' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    TrashedTask: {
+      allOf: [
+        ref('Task'),
+        {
+          type: 'object',
+          required: ['deletedAt'],
+          properties: {
+            purgeAt: { type: 'string', format: 'date-time', description: 'When the task will be permanently deleted; omitted when trash retention is disabled' }
+          }
+        }
+      ]
+    },
+    User: {
+      type: 'object',
+      required: ['id', 'email', 'createdAt', 'updatedAt'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        email: { type: 'string', format: 'email' },
+        name: { type: 'string' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    ApiKey: {
+      type: 'object',
+      required: ['id', 'name', 'kind', 'prefix', 'scopes', 'createdAt'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        name: { type: 'string' },
+        kind: { type: 'string', enum: ['api', 'feed'], description: 'Feed tokens only work with the calendar feed' },
+        prefix: { type: 'string', description: 'Start of the key, to tell keys apart' },
+        scopes: { type: 'array', items: { type: 'string', enum: ['tasks:read', 'tasks:write', 'admin'] } },
+        lastUsedAt: { type: 'string', format: 'date-time' },
+        revokedAt: { type: 'string', format: 'date-time' },
+        createdAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    Category: {
+      type: 'object',
+      required: ['id', 'name', 'color', 'createdAt', 'updatedAt'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        name: { type: 'string' },
+        color: { type: 'string', description: 'Hex color such as #3366ff' },
+        description: { type: 'string' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    CategoryUsage: {
+      type: 'object',
+      properties: {
+        categoryId: { type: 'string', format: 'uuid' },
+        taskCount: { type: 'integer' },
+        completedTaskCount: { type: 'integer' },
+        eventCount: { type: 'integer' }
+      }
+    },
+    Event: {
+      type: 'object',
+      required: ['id', 'title', 'startDate', 'endDate', 'allDay', 'createdAt', 'updatedAt'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        title: { type: 'string' },
+        description: { type: 'string' },
+        startDate: { type: 'string', format: 'date-time' },
+        endDate: { type: 'string', format: 'date-time' },
+        allDay: { type: 'boolean' },
+        location: { type: 'string' },
+        categoryId: { type: 'string', format: 'uuid' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    Reminder: {
+      type: 'object',
+      required: ['id', 'taskId', 'channel', 'status', 'createdAt'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        taskId: { type: 'string', format: 'uuid' },
+        remindAt: { type: 'string', format: 'date-time', description: 'Computed from the due date when offsetMinutes is set' },
+        offsetMinutes: { type: 'integer', description: 'Minutes before the task is due' },
+        channel: { type: 'string' },
+        status: { type: 'string', enum: ['pending', 'fired', 'failed', 'skipped'] },
+        firedAt: { type: 'string', format: 'date-time' },
+        error: { type: 'string' },
+        createdAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    Webhook: {
+      type: 'object',
+      required: ['id', 'url', 'events', 'active', 'createdAt', 'updatedAt'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        url: { type: 'string', format: 'uri' },
+        events: { type: 'array', items: { type: 'string' } },
+        active: { type: 'boolean' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    WebhookDelivery: {
+      type: 'object',
+      required: ['id', 'webhookId', 'event', 'payload', 'status', 'attempts', 'createdAt'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        webhookId: { type: 'string', format: 'uuid' },
+        event: { type: 'string' },
+        payload: {},
+        status: { type: 'string', enum: ['pending', 'succeeded', 'failed'] },
+        attempts: { type: 'integer' },
+        nextAttemptAt: { type: 'string', format: 'date-time' },
+        lastAttemptAt: { type: 'string', format: 'date-time' },
+        responseStatus: { type: 'integer' },
+        lastError: { type: 'string' },
+        createdAt: { type: 'string', format: 'date-time' }
+      }
+    },
+    TaskAuditEntry: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        taskId: { type: 'string', format: 'uuid' },
+        action: { type: 'string', enum: ['create', 'update', 'delete', 'restore', 'purge'] },
+        changes: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: { before: {}, after: {} }
+          }
+        },
+        origin: {
+          type: 'object',
+          properties: {
+            actorId: { type: 'string' },
+            apiKeyId: { type: 'string' },
+            method: { type: 'string' },
+            path: { type: 'string' },
+            ip: { type: 'string' },
+            userAgent: { type: 'string' }
+          }
+        },
+        createdAt: { type: 'string', format: 'date-time' }
+      }
+    }
+  }
+};
+
+// Express route paths use :param, OpenAPI paths use {param}
+const toOpenApiPath = (path: string): string => path.replace(/:(\w+)/g, '{$1}');
+
+const getPathParameterNames = (path: string): string[] => {
+  return Array.from(path.matchAll(/:(\w+)/g), match => match[1]);
+};
+
+const getRouteDefinitions = (router: express.Router): RouteDefinition[] => {
+  const definitions: RouteDefinition[] = [];
+
+  for (const layer of router.stack) {
+    const route: any = layer.route;
+    if (!route) {
+      continue;
+    }
+    for (const method of Object.keys(route.methods)) {
+      definitions.push({
+        method: method.toUpperCase(),
+        path: route.path,
+        handlers: route.stack.map((routeLayer: any) => routeLayer.handle)
+      });
+    }
+  }
+
+  return definitions;
+};
+
+const getOperationKey = (route: RouteDefinition): string => `${route.method} ${route.path}`;
+
+const buildResponses = (responses: Record<string, ResponseDoc>): Record<string, SchemaObject> => {
+  return Object.fromEntries(Object.entries(responses).map(([status, response]) => [
+    status,
+    {
+      description: response.description,
+      ...(response.headers && { headers: response.headers }),
+      ...(response.schema && {
+        content: { [response.contentType || 'application/json']: { schema: response.schema } }
+      })
+    }
+  ]));
+};
+
+const buildOperation = (docs: RouterDocs, route: RouteDefinition, operation: OperationDoc): SchemaObject => {
+  const fullPath = `${docs.basePath}${route.path === '/' ? '' : route.path}`;
+  const parameters: OpenApiParameter[] = [];
+  let requestBody: SchemaObject | undefined = operation.requestBody;
+
+  for (const handler of route.handlers) {
+    if (!isValidationMiddleware(handler)) {
+      continue;
+    }
+    if (handler.source === 'body') {
+      requestBody = {
+        required: true,
+        content: { 'application/json': { schema: joiToSchema(handler.schema) } }
+      };
+    } else {
+      parameters.push(...joiToParameters(handler.schema, handler.source === 'params' ? 'path' : 'query'));
+    }
+  }
+
+  // Path segments without a validator, including those of the mount path
+  for (const name of getPathParameterNames(fullPath)) {
+    if (!parameters.some(parameter => parameter.in === 'path' && parameter.name === name)) {
+      parameters.unshift({ name, in: 'path', required: true, schema: { type: 'string' } });
+    }
+  }
+
+  parameters.push(...(operation.parameters || []));
+
+  const isIdempotent = route.handlers.includes(idempotent);
+  if (isIdempotent) {
+    parameters.push(idempotencyKeyHeader);
+  }
+
+  return {
+    tags: [docs.tag],
+    summary: operation.summary,
+    ...(operation.description && { description: operation.description }),
+    operationId: `${route.method.toLowerCase()}${toOpenApiPath(fullPath).replace(/[^a-zA-Z0-9]+(\w)?/g, (_, next) => (next || '').toUpperCase())}`,
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses: buildResponses({
+      ...(isIdempotent && idempotencyResponses),
+      ...(docs.rateLimited !== false && { 429: rateLimitedResponse }),
+      ...operation.responses
+    }),
+    ...(operation.public && { security: [] })
+  };
+};
+
+/**
+ * Routes registered on the routers that have no operation docs, and
+ * operation docs that no longer match a route, as `METHOD /full/path`
+ */
+export const findUndocumentedRoutes = (routers: RouterDocs[]): { undocumented: string[]; stale: string[] } => {
+  const undocumented: string[] = [];
+  const stale: string[] = [];
+
+  for (const docs of routers) {
+    const keys = new Set(getRouteDefinitions(docs.router).map(getOperationKey));
+
+    for (const key of keys) {
+      if (!docs.operations[key]) {
+        undocumented.push(key.replace(' ', ` ${docs.basePath}`));
+      }
+    }
+    for (const key of Object.keys(docs.operations)) {
+      if (!keys.has(key)) {
+        stale.push(key.replace(' ', ` ${docs.basePath}`));
+      }
+    }
+  }
+
+  return { undocumented, stale };
+};
+
+export const buildOpenApiDocument = (routers: RouterDocs[], info: { title: string; version: string }): SchemaObject => {
+  const paths: Record<string, Record<string, SchemaObject>> = {};
+
+  for (const docs of routers) {
+    for (const route of getRouteDefinitions(docs.router)) {
+      const operation = docs.operations[getOperationKey(route)];
+      if (!operation) {
+        continue;
+      }
+
+      const path = toOpenApiPath(`${docs.basePath}${route.path === '/' ? '' : route.path}`);
+      paths[path] = { ...paths[path], [route.method.toLowerCase()]: buildOperation(docs, route, operation) };
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info,
+    tags: routers.map(docs => ({ name: docs.tag, ...(docs.description && { description: docs.description }) })),
+    security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+    paths,
+    components
+  };
+};
@@ -0,0 +1,88 @@
+import eventRoutes from '../routes/events';
+import { RouterDocs, ref, envelope, paginated, errorResponse } from './document';
+
+const eventNotFound = errorResponse('Event not found');
+
+const eventsInRange = {
+  description: 'Events overlapping the range',
+  schema: envelope({
+    type: 'object',
+    properties: {
+      range: {
+        type: 'object',
+        properties: {
+          start: { type: 'string', format: 'date-time' },
+          end: { type: 'string', format: 'date-time' }
+        }
+      },
+      events: { type: 'array', items: ref('Event') }
+    }
+  })
+};
+
+export const eventDocs: RouterDocs = {
+  basePath: '/api/events',
+  router: eventRoutes,
+  tag: 'Events',
+  description: 'Calendar events. API keys need the tasks:read scope to read them and tasks:write to change them.',
+  operations: {
+    'GET /': {
+      summary: 'List events',
+      responses: {
+        200: { description: 'A page of events', schema: envelope(paginated(ref('Event'))) },
+        400: errorResponse('Invalid request')
+      }
+    },
+    'GET /range/:start/:end': {
+      summary: 'List events in a date range',
+      responses: {
+        200: eventsInRange,
+        400: errorResponse('Invalid range')
+      }
+    },
+    'GET /filter/today': {
+      summary: "List today's events",
+      responses: { 200: eventsInRange }
+    },
+    'GET /filter/week': {
+      summary: "List this week's events",
+      responses: { 200: eventsInRange }
+    },
+    'GET /month/:year/:month': {
+      summary: 'List the events of a month',
+      responses: {
+        200: eventsInRange,
+        400: errorResponse('Invalid month')
+      }
+    },
+    'GET /:id': {
+      summary: 'Get an event',
+      responses: {
+        200: { description: 'The event', schema: envelope(ref('Event')) },
+        404: eventNotFound
+      }
+    },
+    'POST /': {
+      summary: 'Create an event',
+      responses: {
+        201: { description: 'The created event', schema: envelope(ref('Event')) },
+        400: errorResponse('Invalid request or category not found')
+      }
+    },
+    'PUT /:id': {
+      summary: 'Update an event',
+      responses: {
+        200: { description: 'The updated event', schema: envelope(ref('Event')) },
+        400: errorResponse('Invalid request or category not found'),
+        404: eventNotFound
+      }
+    },
+    'DELETE /:id': {
+      summary: 'Delete an event',
+      responses: {
+        200: { description: 'Event deleted', schema: envelope() },
+        404: eventNotFound
+      }
+    }
+  }
+};
@@ -0,0 +1,61 @@
+import healthRoutes from '../routes/health';
+import { RouterDocs, ResponseDoc } from './document';
+
+const check = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['up', 'down'] },
+    durationMs: { type: 'integer' },
+    error: { type: 'string' }
+  }
+};
+
+const healthStatus = (checks: boolean) => ({
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['OK', 'UNAVAILABLE'] },
+    message: { type: 'string' },
+    timestamp: { type: 'string', format: 'date-time' },
+    ...(checks && {
+      checks: {
+        type: 'object',
+        properties: {
+          database: check,
+          migrations: { allOf: [check, { type: 'object', properties: { version: { type: 'integer' } } }] }
+        }
+      }
+    })
+  }
+});
+
+const alive: ResponseDoc = { description: 'The process is serving requests', schema: healthStatus(false) };
+
+export const healthDocs: RouterDocs = {
+  basePath: '/api/health',
+  router: healthRoutes,
+  tag: 'Health',
+  description: 'Liveness and readiness probes.',
+  rateLimited: false,
+  operations: {
+    'GET /': {
+      summary: 'Liveness check',
+      description: 'Same as /api/health/live, kept for existing health checks.',
+      public: true,
+      responses: { 200: alive }
+    },
+    'GET /live': {
+      summary: 'Liveness check',
+      public: true,
+      responses: { 200: alive }
+    },
+    'GET /ready': {
+      summary: 'Readiness check',
+      description: 'Ready when the database is reachable and every migration of this build has been applied.',
+      public: true,
+      responses: {
+        200: { description: 'Ready for traffic', schema: healthStatus(true) },
+        503: { description: 'Not ready, or shutting down', schema: healthStatus(true) }
+      }
+    }
+  }
+};
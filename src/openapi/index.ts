@@ -0,0 +1,53 @@
+import { buildOpenApiDocument, RouterDocs } from './document';
+import { SchemaObject } from './joiSchema';
+import { healthDocs } from './health';
+import { authDocs } from './auth';
+import { apiKeyDocs } from './apiKeys';
+import { reminderDocs } from './reminders';
+import { taskDocs } from './tasks';
+import { trashDocs } from './trash';
+import { categoryDocs } from './categories';
+import { eventDocs } from './events';
+import { tagDocs } from './tags';
+import { webhookDocs } from './webhooks';
+import { auditDocs } from './audit';
+import { streamDocs } from './stream';
+import { calendarDocs } from './calendar';
+import { docsDocs } from './docs';
+import { metricsDocs } from './metrics';
+
+// Routers described in the OpenAPI document, in the order app.ts mounts them.
+// Every router the app mounts must be listed; a test checks this.
+export const documentedRouters: RouterDocs[] = [
+  healthDocs,
+  authDocs,
+  apiKeyDocs,
+  reminderDocs,
+  taskDocs,
+  trashDocs,
+  categoryDocs,
+  eventDocs,
+  tagDocs,
+  webhookDocs,
+  auditDocs,
+  streamDocs,
+  calendarDocs,
+  docsDocs,
+  metricsDocs
+];
+
+let openApiDocument: SchemaObject | null = null;
+
+/**
+ * The OpenAPI document, built on first use. Routes are registered at import
+ * time, so the document never changes while the server runs.
+ */
+export const getOpenApiDocument = (): SchemaObject => {
+  if (!openApiDocument) {
+    openApiDocument = buildOpenApiDocument(documentedRouters, {
+      title: 'Day Planner API',
+      version: process.env.npm_package_version || '1.0.0'
+    });
+  }
+  return openApiDocument;
+};
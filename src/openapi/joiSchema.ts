@@ -0,0 +1,221 @@
+import Joi from 'joi';
+
+/**
+ * Converts Joi schemas into OpenAPI 3.0 schema objects, working from
+ * `schema.describe()`. Only the features used in `utils/validation.ts` are
+ * mapped; conditional rules (`when`) and key dependencies (`xor`, `or`,
+ * `nand`) cannot be expressed in OpenAPI 3.0 and are explained in the
+ * description instead.
+ */
+
+export type SchemaObject = Record<string, any>;
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'query' | 'path' | 'header';
+  required: boolean;
+  schema: SchemaObject;
+  description?: string;
+}
+
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  uri: 'uri',
+  guid: 'uuid',
+  isoDate: 'date-time'
+};
+
+// `allow` lists may contain Joi's override marker, which is not a value
+const getAllowedValues = (description: any): any[] => {
+  return (description.allow || []).filter((value: any) => typeof value !== 'object' || value === null);
+};
+
+const getRules = (description: any): Map<string, any> => {
+  return new Map((description.rules || []).map((rule: any) => [rule.name, rule.args || {}]));
+};
+
+const describeCondition = (when: any): string | null => {
+  const ref = when.ref?.path?.join('.');
+  if (!ref || !when.is) {
+    return null;
+  }
+
+  const values = getAllowedValues(when.is);
+  return values.length > 0 ? `${ref} is ${values.join(' or ')}` : `${ref} is set`;
+};
+
+const describeOutcome = (schema: any): string | null => {
+  const presence = schema?.flags?.presence;
+  if (presence === 'required') {
+    return 'Required';
+  }
+  if (presence === 'forbidden') {
+    return 'Not allowed';
+  }
+  return null;
+};
+
+const describeWhens = (whens: any[]): string[] => {
+  const notes: string[] = [];
+
+  for (const when of whens) {
+    const condition = describeCondition(when);
+    if (!condition) {
+      continue;
+    }
+
+    const then = describeOutcome(when.then);
+    const otherwise = describeOutcome(when.otherwise);
+    if (then) {
+      notes.push(`${then} when ${condition}.`);
+    }
+    if (otherwise) {
+      notes.push(then ? `${otherwise} otherwise.` : `${otherwise} unless ${condition}.`);
+    }
+  }
+
+  return notes;
+};
+
+const describeDependencies = (dependencies: any[]): string[] => {
+  return dependencies.map(dependency => {
+    const peers = dependency.peers.join(', ');
+    switch (dependency.rel) {
+      case 'xor':
+        return `Exactly one of ${peers} is required.`;
+      case 'or':
+        return `At least one of ${peers} is required.`;
+      case 'nand':
+        return `${peers} cannot be combined.`;
+      default:
+        return `Dependency ${dependency.rel}: ${peers}.`;
+    }
+  });
+};
+
+const convertDescription = (description: any): SchemaObject => {
+  const schema: SchemaObject = {};
+  const rules = getRules(description);
+  const allowed = getAllowedValues(description);
+  const notes: string[] = [];
+
+  switch (description.type) {
+    case 'string':
+      schema.type = 'string';
+      for (const [rule, format] of Object.entries(STRING_FORMATS)) {
+        if (rules.has(rule)) {
+          schema.format = format;
+        }
+      }
+      if (rules.has('min')) {
+        schema.minLength = rules.get('min').limit;
+      }
+      if (rules.has('max')) {
+        schema.maxLength = rules.get('max').limit;
+      }
+      if (rules.has('pattern')) {
+        schema.pattern = String(rules.get('pattern').regex).replace(/^\/|\/[a-z]*$/g, '');
+      }
+      break;
+    case 'number':
+      schema.type = rules.has('integer') ? 'integer' : 'number';
+      if (rules.has('min')) {
+        schema.minimum = rules.get('min').limit;
+      }
+      if (rules.has('max')) {
+        schema.maximum = rules.get('max').limit;
+      }
+      break;
+    case 'boolean':
+      schema.type = 'boolean';
+      break;
+    case 'array':
+      schema.type = 'array';
+      schema.items = description.items?.length === 1 ? convertDescription(description.items[0]) : {};
+      if (rules.has('min')) {
+        schema.minItems = rules.get('min').limit;
+      }
+      if (rules.has('max')) {
+        schema.maxItems = rules.get('max').limit;
+      }
+      if (rules.has('unique')) {
+        schema.uniqueItems = true;
+      }
+      if (description.flags?.single) {
+        notes.push('A single value is accepted in place of a list.');
+      }
+      break;
+    case 'object': {
+      schema.type = 'object';
+      const properties: Record<string, SchemaObject> = {};
+      const required: string[] = [];
+
+      for (const [key, child] of Object.entries<any>(description.keys || {})) {
+        if (child.flags?.presence === 'forbidden') {
+          continue;
+        }
+        properties[key] = convertDescription(child);
+        if (child.flags?.presence === 'required') {
+          required.push(key);
+        }
+      }
+
+      schema.properties = properties;
+      if (required.length > 0) {
+        schema.required = required;
+      }
+      if (rules.has('min')) {
+        schema.minProperties = rules.get('min').limit;
+      }
+      schema.additionalProperties = false;
+      notes.push(...describeDependencies(description.dependencies || []));
+      break;
+    }
+    default:
+      break;
+  }
+
+  const values = allowed.filter(value => value !== null && value !== '');
+  if (description.flags?.only && values.length > 0) {
+    schema.enum = values;
+  }
+  if (allowed.includes(null)) {
+    schema.nullable = true;
+  }
+  if (allowed.includes('') && schema.minLength === undefined) {
+    notes.push('May be empty.');
+  }
+  if (description.flags?.default !== undefined && typeof description.flags.default !== 'object') {
+    schema.default = description.flags.default;
+  }
+
+  notes.push(...describeWhens(description.whens || []));
+  if (notes.length > 0) {
+    schema.description = notes.join(' ');
+  }
+
+  return schema;
+};
+
+export const joiToSchema = (schema: Joi.Schema): SchemaObject => {
+  return convertDescription(schema.describe());
+};
+
+/**
+ * One parameter per key of an object schema, for query strings and path segments
+ */
+export const joiToParameters = (schema: Joi.ObjectSchema, location: 'query' | 'path'): OpenApiParameter[] => {
+  const objectSchema = joiToSchema(schema);
+  const required: string[] = objectSchema.required || [];
+
+  return Object.entries<SchemaObject>(objectSchema.properties || {}).map(([name, property]) => {
+    const { description, ...parameterSchema } = property;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || required.includes(name),
+      schema: parameterSchema,
+      ...(description && { description })
+    };
+  });
+};
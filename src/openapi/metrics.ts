@@ -0,0 +1,21 @@
+import metricsRoutes from '../routes/metrics';
+import { RouterDocs, errorResponse } from './document';
+
+export const metricsDocs: RouterDocs = {
+  basePath: '/metrics',
+  router: metricsRoutes,
+  tag: 'Metrics',
+  rateLimited: false,
+  operations: {
+    'GET /': {
+      summary: 'Prometheus metrics',
+      description: 'When METRICS_TOKEN is set, send it as a bearer token. In production metrics are only served once it is set.',
+      public: true,
+      responses: {
+        200: { description: 'Metrics in the Prometheus text format', contentType: 'text/plain', schema: { type: 'string' } },
+        401: errorResponse('Invalid metrics token'),
+        503: errorResponse('METRICS_TOKEN is not set in production')
+      }
+    }
+  }
+};
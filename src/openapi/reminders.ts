@@ -0,0 +1,37 @@
+import reminderRoutes from '../routes/reminders';
+import { RouterDocs, ref, envelope, errorResponse } from './document';
+
+const taskNotFound = errorResponse('Task not found');
+
+export const reminderDocs: RouterDocs = {
+  basePath: '/api/tasks/:taskId/reminders',
+  router: reminderRoutes,
+  tag: 'Reminders',
+  description: 'Notifications sent at a set time or a number of minutes before a task is due.',
+  operations: {
+    'GET /': {
+      summary: "List a task's reminders",
+      description: 'Soonest first.',
+      responses: {
+        200: { description: 'The reminders', schema: envelope({ type: 'array', items: ref('Reminder') }) },
+        404: taskNotFound
+      }
+    },
+    'POST /': {
+      summary: 'Add a reminder',
+      description: 'Reminders relative to the due date (`offsetMinutes`) move with it and need the task to have a due date.',
+      responses: {
+        201: { description: 'The created reminder', schema: envelope(ref('Reminder')) },
+        400: errorResponse('Invalid request or unknown channel'),
+        404: taskNotFound
+      }
+    },
+    'DELETE /:id': {
+      summary: 'Delete a reminder',
+      responses: {
+        200: { description: 'Reminder deleted', schema: envelope() },
+        404: errorResponse('Reminder not found')
+      }
+    }
+  }
+};
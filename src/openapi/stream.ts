@@ -0,0 +1,61 @@
+import streamRoutes from '../routes/stream';
+import { RouterDocs, envelope, errorResponse } from './document';
+
+export const streamDocs: RouterDocs = {
+  basePath: '/api/stream',
+  router: streamRoutes,
+  tag: 'Event stream',
+  description: "Server-Sent Events for changes to the user's tasks.",
+  operations: {
+    'POST /token': {
+      summary: 'Issue a stream token',
+      description: 'Returns a token that can be passed as `access_token` to open the stream within 60 seconds. ' +
+        'It cannot be used for anything else, and requests for one must authenticate with a header.',
+      responses: {
+        201: {
+          description: 'The token',
+          schema: envelope({
+            type: 'object',
+            properties: {
+              token: { type: 'string' },
+              expiresAt: { type: 'string', format: 'date-time' }
+            }
+          })
+        },
+        401: errorResponse('Not authenticated')
+      }
+    },
+    'GET /': {
+      summary: 'Stream task events',
+      description: 'Sends task.created, task.updated, task.toggled, task.deleted and task.restored events with a heartbeat comment every 15 seconds. ' +
+        'Reconnecting clients get the events they missed, or a resync event when those are no longer available.',
+      parameters: [
+        {
+          name: 'access_token',
+          in: 'query',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Stream token or feed token, for EventSource clients that cannot set headers. Login tokens and API keys are refused.'
+        },
+        {
+          name: 'Last-Event-ID',
+          in: 'header',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Id of the last event received, to replay missed events'
+        },
+        {
+          name: 'lastEventId',
+          in: 'query',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Same as the Last-Event-ID header'
+        }
+      ],
+      responses: {
+        200: { description: 'Event stream', contentType: 'text/event-stream', schema: { type: 'string' } },
+        401: errorResponse('Not authenticated')
+      }
+    }
+  }
+};
@@ -0,0 +1,31 @@
+import tagRoutes from '../routes/tags';
+import { RouterDocs, envelope } from './document';
+
+export const tagDocs: RouterDocs = {
+  basePath: '/api/tags',
+  router: tagRoutes,
+  tag: 'Tags',
+  description: 'Tags are created and removed along with the tasks that use them.',
+  operations: {
+    'GET /': {
+      summary: 'List tags with usage counts',
+      responses: {
+        200: {
+          description: 'The tags',
+          schema: envelope({
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+                taskCount: { type: 'integer' },
+                createdAt: { type: 'string', format: 'date-time' }
+              }
+            }
+          })
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,239 @@
+import taskRoutes from '../routes/tasks';
+import { OpenApiParameter } from './joiSchema';
+import { RouterDocs, ResponseDoc, ref, envelope, paginated, errorResponse } from './document';
+
+const ifMatchHeader: OpenApiParameter = {
+  name: 'If-Match',
+  in: 'header',
+  required: false,
+  schema: { type: 'string' },
+  description: 'ETag the change is based on. Required when the server runs with REQUIRE_IF_MATCH=true.'
+};
+
+const etagHeader = {
+  ETag: { description: 'Version of the returned task, for If-Match and If-None-Match', schema: { type: 'string' } }
+};
+
+const taskResponse = (description: string): ResponseDoc => ({
+  description,
+  schema: envelope(ref('Task')),
+  headers: etagHeader
+});
+
+const preconditionFailed: ResponseDoc = {
+  description: 'The task changed since the given ETag; the current task is returned',
+  schema: envelope(ref('Task')),
+  headers: etagHeader
+};
+
+const preconditionRequired = errorResponse('If-Match is required but was not sent');
+const invalidRequest = errorResponse('Invalid request');
+const taskNotFound = errorResponse('Task not found');
+
+const importResult = {
+  type: 'object',
+  properties: {
+    dryRun: { type: 'boolean' },
+    committed: { type: 'boolean' },
+    total: { type: 'integer' },
+    valid: { type: 'integer' },
+    failed: { type: 'integer' },
+    imported: { type: 'integer' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { row: { type: 'integer' }, reason: { type: 'string' } }
+      }
+    }
+  }
+};
+
+const bulkResult = {
+  type: 'object',
+  properties: {
+    action: { type: 'string' },
+    committed: { type: 'boolean' },
+    matched: { type: 'integer' },
+    affected: { type: 'integer' },
+    failed: { type: 'integer' },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          status: { type: 'string', enum: ['updated', 'unchanged', 'deleted', 'not_found', 'failed'] },
+          error: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+export const taskDocs: RouterDocs = {
+  basePath: '/api/tasks',
+  router: taskRoutes,
+  tag: 'Tasks',
+  description: 'Reads need the tasks:read scope and writes tasks:write when using an API key.',
+  operations: {
+    'GET /': {
+      summary: 'List tasks',
+      description: 'Filters, searches and paginates the tasks. Send `cursor` from a previous page for keyset pagination.',
+      responses: {
+        200: { description: 'A page of tasks', schema: envelope(paginated(ref('Task'))) },
+        400: invalidRequest
+      }
+    },
+    'GET /export.csv': {
+      summary: 'Export tasks as CSV',
+      description: 'Streams every task matching the filters; pagination parameters are ignored.',
+      responses: {
+        200: { description: 'CSV file', contentType: 'text/csv', schema: { type: 'string' } }
+      }
+    },
+    'GET /export.ndjson': {
+      summary: 'Export tasks as NDJSON',
+      description: 'Streams every task matching the filters, one JSON object per line.',
+      responses: {
+        200: { description: 'Newline-delimited JSON', contentType: 'application/x-ndjson', schema: { type: 'string' } }
+      }
+    },
+    'POST /import': {
+      summary: 'Import tasks',
+      description: 'Imports a CSV or NDJSON export in a single transaction. Nothing is saved unless every row is valid.',
+      requestBody: {
+        content: {
+          'text/csv': { schema: { type: 'string' } },
+          'application/x-ndjson': { schema: { type: 'string' } }
+        }
+      },
+      responses: {
+        200: { description: 'Dry run result', schema: envelope(importResult) },
+        201: { description: 'Tasks imported', schema: envelope(importResult) },
+        400: { description: 'The file is empty or has invalid rows; nothing was saved', schema: envelope(importResult) },
+        413: errorResponse('Too many rows'),
+        415: errorResponse('Unknown import format')
+      }
+    },
+    'POST /bulk': {
+      summary: 'Apply an action to many tasks',
+      description: 'Runs in a single transaction: if any selected task fails, no changes are saved.',
+      responses: {
+        200: { description: 'Every selected task was processed', schema: envelope(bulkResult) },
+        400: { description: 'Some tasks could not be processed; nothing was saved', schema: envelope(bulkResult) }
+      }
+    },
+    'GET /:id': {
+      summary: 'Get a task',
+      description: 'Includes the nested subtasks. Answers 304 when If-None-Match matches the ETag.',
+      responses: {
+        200: taskResponse('The task'),
+        304: { description: 'The task has not changed' },
+        404: taskNotFound
+      }
+    },
+    'GET /:id/history': {
+      summary: 'Get the change history of a task',
+      description: 'Also available after the task has been deleted.',
+      responses: {
+        200: { description: 'A page of audit entries', schema: envelope(paginated(ref('TaskAuditEntry'))) },
+        404: taskNotFound
+      }
+    },
+    'GET /:id/occurrences': {
+      summary: 'List occurrences of a recurring task',
+      responses: {
+        200: {
+          description: 'Occurrences within the window',
+          schema: envelope({
+            type: 'object',
+            properties: {
+              taskId: { type: 'string', format: 'uuid' },
+              recurrence: ref('RecurrenceRule'),
+              occurrences: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    index: { type: 'integer' },
+                    dueDate: { type: 'string', format: 'date-time' }
+                  }
+                }
+              }
+            }
+          })
+        },
+        400: errorResponse('The task does not recur'),
+        404: taskNotFound
+      }
+    },
+    'POST /': {
+      summary: 'Create a task',
+      responses: {
+        201: taskResponse('The created task'),
+        400: invalidRequest
+      }
+    },
+    'PUT /:id': {
+      summary: 'Update a task',
+      description: 'Completing an occurrence of a recurring task schedules the next one.',
+      parameters: [ifMatchHeader],
+      responses: {
+        200: taskResponse('The updated task'),
+        400: invalidRequest,
+        404: taskNotFound,
+        412: preconditionFailed,
+        428: preconditionRequired
+      }
+    },
+    'PATCH /:id/toggle': {
+      summary: 'Toggle task completion',
+      parameters: [ifMatchHeader],
+      responses: {
+        200: taskResponse('The updated task'),
+        404: taskNotFound,
+        412: preconditionFailed,
+        428: preconditionRequired
+      }
+    },
+    'POST /:id/restore': {
+      summary: 'Restore a task from the trash',
+      description: 'Subtasks deleted along with the task are restored too.',
+      responses: {
+        200: taskResponse('The restored task'),
+        404: errorResponse('Task not found in trash'),
+        409: errorResponse('The parent task is still in the trash')
+      }
+    },
+    'DELETE /:id': {
+      summary: 'Move a task to the trash',
+      description: 'Its subtasks are moved to the trash with it.',
+      parameters: [ifMatchHeader],
+      responses: {
+        200: { description: 'Task moved to trash', schema: envelope() },
+        404: taskNotFound,
+        412: preconditionFailed,
+        428: preconditionRequired
+      }
+    },
+    'GET /stats/summary': {
+      summary: 'Get task statistics',
+      responses: {
+        200: {
+          description: 'Task counts',
+          schema: envelope({
+            type: 'object',
+            properties: {
+              total: { type: 'integer' },
+              completed: { type: 'integer' },
+              pending: { type: 'integer' },
+              highPriority: { type: 'integer' },
+              overdue: { type: 'integer' }
+            }
+          })
+        }
+      }
+    }
+  }
+};
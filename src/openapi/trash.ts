@@ -0,0 +1,35 @@
+import trashRoutes from '../routes/trash';
+import { RouterDocs, ref, envelope, paginated, errorResponse } from './document';
+
+export const trashDocs: RouterDocs = {
+  basePath: '/api/trash',
+  router: trashRoutes,
+  tag: 'Trash',
+  description: 'Deleted tasks, kept until the retention period (TRASH_RETENTION_DAYS) has passed. Restore them with POST /api/tasks/{id}/restore.',
+  operations: {
+    'GET /': {
+      summary: 'List trashed tasks',
+      description: 'Most recently deleted first.',
+      responses: {
+        200: { description: 'A page of trashed tasks', schema: envelope(paginated(ref('TrashedTask'))) }
+      }
+    },
+    'DELETE /:id': {
+      summary: 'Permanently delete a trashed task',
+      description: 'Its subtasks are deleted too. This cannot be undone.',
+      responses: {
+        200: { description: 'Task deleted', schema: envelope() },
+        404: errorResponse('Task not found in trash')
+      }
+    },
+    'DELETE /': {
+      summary: 'Empty the trash',
+      responses: {
+        200: {
+          description: 'Number of tasks deleted',
+          schema: envelope({ type: 'object', properties: { purged: { type: 'integer' } } })
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,68 @@
+import webhookRoutes from '../routes/webhooks';
+import { RouterDocs, ref, envelope, paginated, errorResponse } from './document';
+
+const webhookNotFound = errorResponse('Webhook not found');
+const invalidRequest = errorResponse('Invalid request, or a URL on a private or reserved network');
+
+export const webhookDocs: RouterDocs = {
+  basePath: '/api/webhooks',
+  router: webhookRoutes,
+  tag: 'Webhooks',
+  description: 'Signed HTTP callbacks for task changes. Requires the admin scope when using an API key.',
+  operations: {
+    'GET /': {
+      summary: 'List webhooks',
+      responses: {
+        200: { description: 'The webhooks', schema: envelope({ type: 'array', items: ref('Webhook') }) }
+      }
+    },
+    'GET /:id': {
+      summary: 'Get a webhook',
+      responses: {
+        200: { description: 'The webhook', schema: envelope(ref('Webhook')) },
+        404: webhookNotFound
+      }
+    },
+    'GET /:id/deliveries': {
+      summary: "List a webhook's deliveries",
+      description: 'Newest first. Failed deliveries keep only the response status code, not the body.',
+      responses: {
+        200: { description: 'A page of deliveries', schema: envelope(paginated(ref('WebhookDelivery'))) },
+        404: webhookNotFound
+      }
+    },
+    'POST /': {
+      summary: 'Create a webhook',
+      description: 'The signing secret is generated unless given, and only returned in this response.',
+      responses: {
+        201: {
+          description: 'The webhook and its secret',
+          schema: envelope({
+            type: 'object',
+            properties: {
+              webhook: ref('Webhook'),
+              secret: { type: 'string' }
+            }
+          })
+        },
+        400: invalidRequest
+      }
+    },
+    'PUT /:id': {
+      summary: 'Update a webhook',
+      description: 'Deliveries for paused webhooks stay queued until the webhook is reactivated.',
+      responses: {
+        200: { description: 'The updated webhook', schema: envelope(ref('Webhook')) },
+        400: invalidRequest,
+        404: webhookNotFound
+      }
+    },
+    'DELETE /:id': {
+      summary: 'Delete a webhook',
+      responses: {
+        200: { description: 'Webhook deleted', schema: envelope() },
+        404: webhookNotFound
+      }
+    }
+  }
+};
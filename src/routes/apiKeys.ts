@@ -0,0 +1,58 @@
+import express from 'express';
+import { createApiKey, findApiKeysByUser, revokeApiKey } from '../models/ApiKey';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { validate, validateParams, createApiKeySchema, uuidSchema } from '../utils/validation';
+import { ApiResponse, ApiKey, CreatedApiKey } from '../types';
+import Joi from 'joi';
+
+const router = express.Router();
+
+// GET /api/keys - List the authenticated user's API keys
+router.get('/',
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const apiKeys = await findApiKeysByUser(req.user!.id);
+
+    const response: ApiResponse<ApiKey[]> = {
+      success: true,
+      data: apiKeys
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /api/keys - Create an API key (the key itself is only shown in this response)
+router.post('/',
+  validate(createApiKeySchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const created = await createApiKey(req.user!.id, req.body);
+
+    const response: ApiResponse<CreatedApiKey> = {
+      success: true,
+      data: created,
+      message: 'API key created successfully. Store the key now; it cannot be shown again.'
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// DELETE /api/keys/:id - Revoke an API key
+router.delete('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const revoked = await revokeApiKey(req.user!.id, req.params.id);
+    if (!revoked) {
+      throw createError('API key not found', 404);
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'API key revoked successfully'
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
@@ -0,0 +1,32 @@
+import express from 'express';
+import { findAuditEntries, getAuditCount } from '../models/AuditLog';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateQuery, auditFiltersSchema } from '../utils/validation';
+import { normalizePaginationQuery, createPaginatedResponse } from '../utils/pagination';
+import { ApiResponse, AuditFilters, PaginatedResponse, TaskAuditEntry } from '../types';
+
+const router = express.Router();
+
+// GET /api/audit - Changes to all of the user's tasks, newest first
+router.get('/',
+  validateQuery(auditFiltersSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    const filters = req.query as AuditFilters;
+    const pagination = normalizePaginationQuery(filters);
+
+    const [entries, total] = await Promise.all([
+      findAuditEntries(userId, { ...filters, ...pagination }),
+      getAuditCount(userId, filters)
+    ]);
+
+    const response: ApiResponse<PaginatedResponse<TaskAuditEntry>> = {
+      success: true,
+      data: createPaginatedResponse(entries, pagination, total)
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
@@ -0,0 +1,76 @@
+import express from 'express';
+import { createUser, findUserById, verifyUserCredentials } from '../models/User';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { authenticate } from '../middleware/auth';
+import { rateLimitByCredential } from '../middleware/rateLimit';
+import { validate, registerSchema, loginSchema } from '../utils/validation';
+import { signAuthToken, getTokenExpiry } from '../utils/auth';
+import { ApiResponse, AuthTokenResponse, User } from '../types';
+
+const router = express.Router();
+
+// POST /api/auth/register - Create a user account and sign in
+router.post('/register',
+  validate(registerSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const user = await createUser(req.body);
+
+    const response: ApiResponse<AuthTokenResponse> = {
+      success: true,
+      data: {
+        token: signAuthToken(user),
+        expiresIn: getTokenExpiry(),
+        user
+      },
+      message: 'User registered successfully'
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// POST /api/auth/login - Exchange credentials for a bearer token
+router.post('/login',
+  validate(loginSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { email, password } = req.body;
+
+    const user = await verifyUserCredentials(email, password);
+    if (!user) {
+      throw createError('Invalid email or password', 401);
+    }
+
+    const response: ApiResponse<AuthTokenResponse> = {
+      success: true,
+      data: {
+        token: signAuthToken(user),
+        expiresIn: getTokenExpiry(),
+        user
+      },
+      message: 'Logged in successfully'
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/auth/me - Get the authenticated user
+router.get('/me',
+  authenticate,
+  rateLimitByCredential(),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const user = await findUserById(req.user!.id);
+    if (!user) {
+      throw createError('User not found', 404);
+    }
+
+    const response: ApiResponse<User> = {
+      success: true,
+      data: user
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
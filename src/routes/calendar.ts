@@ -0,0 +1,131 @@
+import express from 'express';
+import { findAllTasks } from '../models/Task';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { idempotent } from '../middleware/idempotency';
+import { authenticate, authenticateFeed, requireScope } from '../middleware/auth';
+import { rateLimitByIp, rateLimitByCredential } from '../middleware/rateLimit';
+import { validateQuery, taskFiltersSchema, icsImportQuerySchema } from '../utils/validation';
+import { importTasks } from '../utils/taskImport';
+import { TaskImportRow } from '../utils/taskTransfer';
+import {
+  renderTasksCalendar,
+  parseCalendar,
+  getProperty,
+  parseDateTimeProperty,
+  unescapeText,
+  icalPriorityToTaskPriority,
+  ICalComponent
+} from '../utils/ical';
+import { ApiResponse, TaskFilters } from '../types';
+
+const router = express.Router();
+
+const MAX_ICS_SIZE = '5mb';
+
+interface IcsImportResult {
+  created: number;
+  skipped: number;
+  errors: { index: number; uid?: string; reason: string }[];
+}
+
+/**
+ * Maps a VTODO or VEVENT onto an import row. VTODOs use DUE, VEVENTs DTSTART;
+ * local times are read in their TZID, or `timeZone` when they have none.
+ */
+const componentToImportRow = (component: ICalComponent, index: number, timeZone?: string): TaskImportRow => {
+  const row = index + 1;
+  const sourceId = getProperty(component, 'UID')?.value;
+  const status = getProperty(component, 'STATUS')?.value.toUpperCase();
+  if (status === 'CANCELLED') {
+    return { row, sourceId, completed: false, error: 'Cancelled items are not imported' };
+  }
+
+  const summary = getProperty(component, 'SUMMARY');
+  if (!summary || !summary.value.trim()) {
+    return { row, sourceId, completed: false, error: 'Missing SUMMARY' };
+  }
+
+  const dateProperty = getProperty(component, component.type === 'VTODO' ? 'DUE' : 'DTSTART');
+  let dueDate: string | undefined;
+  if (dateProperty) {
+    const parsed = parseDateTimeProperty(dateProperty, timeZone);
+    if (parsed.error) {
+      return { row, sourceId, completed: false, error: parsed.error };
+    }
+    dueDate = parsed.value;
+  }
+
+  const description = getProperty(component, 'DESCRIPTION');
+  const categories = getProperty(component, 'CATEGORIES');
+  const data: Record<string, unknown> = {
+    title: unescapeText(summary.value).trim(),
+    description: description ? unescapeText(description.value) : undefined,
+    priority: icalPriorityToTaskPriority(getProperty(component, 'PRIORITY')?.value),
+    dueDate,
+    tags: categories
+      ? categories.value.split(/(?<!\\),/).map(unescapeText).filter(Boolean)
+      : undefined
+  };
+
+  return { row, sourceId, completed: status === 'COMPLETED', data };
+};
+
+// GET /api/tasks.ics - iCalendar feed of tasks as VTODO items (accepts a feed token as ?token=)
+router.get('/tasks.ics',
+  rateLimitByIp('export'),
+  authenticateFeed,
+  rateLimitByCredential(),
+  rateLimitByCredential('export'),
+  requireScope('tasks:read'),
+  validateQuery(taskFiltersSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    // The feed contains every matching task rather than a single page
+    const { page, limit, ...filters } = req.query as TaskFilters;
+
+    const tasks = await findAllTasks(userId, filters);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="tasks.ics"');
+    res.send(renderTasksCalendar(tasks));
+  })
+);
+
+// POST /api/import/ics - Import VTODO and VEVENT components as tasks
+router.post('/import/ics',
+  authenticate,
+  rateLimitByCredential(),
+  requireScope('tasks:write'),
+  validateQuery(icsImportQuerySchema),
+  express.text({ type: ['text/calendar', 'text/plain'], limit: MAX_ICS_SIZE }),
+  idempotent,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+
+    if (typeof req.body !== 'string' || !req.body.includes('BEGIN:VCALENDAR')) {
+      throw createError('Request body must be an iCalendar document sent as text/calendar', 400);
+    }
+
+    const { timezone } = req.query as { timezone?: string };
+    const components = parseCalendar(req.body);
+    const rows = components.map((component, index) => componentToImportRow(component, index, timezone));
+
+    // Items that cannot be imported are skipped; the rest are saved together
+    const { errors } = await importTasks(userId, rows, { skipInvalid: true });
+    const result: IcsImportResult = {
+      created: rows.length - errors.length,
+      skipped: errors.length,
+      errors: errors.map(({ row, reason }) => ({ index: row - 1, uid: rows[row - 1].sourceId, reason }))
+    };
+
+    const response: ApiResponse<IcsImportResult> = {
+      success: true,
+      data: result,
+      message: `Imported ${result.created} tasks, skipped ${result.skipped}`
+    };
+
+    res.status(result.created > 0 ? 201 : 200).json(response);
+  })
+);
+
+export default router;
@@ -0,0 +1,206 @@
+import express from 'express';
+import {
+  createCategory,
+  findCategoryById,
+  findAllCategories,
+  updateCategory,
+  deleteCategory,
+  getCategoryUsage,
+  getAllCategoryUsage,
+  getCategoryCount
+} from '../models/Category';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { withTransaction } from '../database/init';
+import { publishTaskEvent } from '../utils/taskStream';
+import {
+  validate,
+  validateQuery,
+  validateParams,
+  createCategorySchema,
+  updateCategorySchema,
+  categoryQuerySchema,
+  uuidSchema
+} from '../utils/validation';
+import { ApiResponse, Category, CategoryFilters, CategoryUsage } from '../types';
+import Joi from 'joi';
+
+const router = express.Router();
+
+// GET /api/categories - Get all categories
+router.get('/',
+  validateQuery(categoryQuerySchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const filters = req.query as CategoryFilters;
+
+    const categories = await findAllCategories(req.user!.id, filters);
+
+    const response: ApiResponse<Category[]> = {
+      success: true,
+      data: categories
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/categories/stats/summary - Get category statistics
+router.get('/stats/summary',
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const [total, usage] = await Promise.all([
+      getCategoryCount(req.user!.id),
+      getAllCategoryUsage(req.user!.id)
+    ]);
+
+    const response: ApiResponse<{
+      total: number;
+      inUse: number;
+      unused: number;
+      usage: CategoryUsage[];
+    }> = {
+      success: true,
+      data: {
+        total,
+        inUse: usage.filter(item => item.taskCount > 0 || item.eventCount > 0).length,
+        unused: usage.filter(item => item.taskCount === 0 && item.eventCount === 0).length,
+        usage
+      }
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/categories/:id - Get category by ID
+router.get('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const category = await findCategoryById(req.user!.id, id);
+    if (!category) {
+      throw createError('Category not found', 404);
+    }
+
+    const response: ApiResponse<Category> = {
+      success: true,
+      data: category
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/categories/:id/usage - Get category usage statistics
+router.get('/:id/usage',
+  validateParams(Joi.object({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const category = await findCategoryById(req.user!.id, id);
+    if (!category) {
+      throw createError('Category not found', 404);
+    }
+
+    const usage = await getCategoryUsage(req.user!.id, id);
+
+    const response: ApiResponse<CategoryUsage> = {
+      success: true,
+      data: usage
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /api/categories - Create new category
+router.post('/',
+  validate(createCategorySchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const category = await createCategory(req.user!.id, req.body);
+
+    const response: ApiResponse<Category> = {
+      success: true,
+      data: category,
+      message: 'Category created successfully'
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// PUT /api/categories/:id - Update category
+router.put('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  validate(updateCategorySchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const category = await updateCategory(req.user!.id, id, req.body);
+    if (!category) {
+      throw createError('Category not found', 404);
+    }
+
+    const response: ApiResponse<Category> = {
+      success: true,
+      data: category,
+      message: 'Category updated successfully'
+    };
+
+    res.json(response);
+  })
+);
+
+// DELETE /api/categories/:id - Delete category (refused while in use)
+router.delete('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const category = await findCategoryById(req.user!.id, id);
+    if (!category) {
+      throw createError('Category not found', 404);
+    }
+
+    const result = await deleteCategory(req.user!.id, id);
+    if (result.inUse) {
+      throw createError('Category is in use by one or more tasks or events. Use force delete to detach them.', 409);
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Category deleted successfully'
+    };
+
+    res.json(response);
+  })
+);
+
+// DELETE /api/categories/:id/force - Delete category and detach its tasks and events
+router.delete('/:id/force',
+  validateParams(Joi.object({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const category = await findCategoryById(req.user!.id, id);
+    if (!category) {
+      throw createError('Category not found', 404);
+    }
+
+    const userId = req.user!.id;
+    const result = await withTransaction(() => deleteCategory(userId, id, true));
+    result.detachedTasks.forEach(task => publishTaskEvent(userId, 'task.updated', { task }));
+
+    const response: ApiResponse<{ detachedTasks: number; detachedEvents: number }> = {
+      success: true,
+      data: {
+        detachedTasks: result.detachedTasks.length,
+        detachedEvents: result.detachedEvents
+      },
+      message: 'Category deleted successfully'
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
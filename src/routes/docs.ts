@@ -0,0 +1,22 @@
+import express from 'express';
+import { getOpenApiDocument } from '../openapi';
+import { DOCS_PAGE_HTML, DOCS_PAGE_SCRIPT } from '../openapi/docsPage';
+
+const router = express.Router();
+
+// GET /api/openapi.json - OpenAPI 3 description of the documented routes
+router.get('/openapi.json', (req: express.Request, res: express.Response) => {
+  res.json(getOpenApiDocument());
+});
+
+// GET /api/docs - Interactive API reference
+router.get('/docs', (req: express.Request, res: express.Response) => {
+  res.type('html').send(DOCS_PAGE_HTML);
+});
+
+// GET /api/docs/docs.js - Script of the API reference page
+router.get('/docs/docs.js', (req: express.Request, res: express.Response) => {
+  res.type('application/javascript').send(DOCS_PAGE_SCRIPT);
+});
+
+export default router;
@@ -0,0 +1,211 @@
+import express from 'express';
+import {
+  createEvent,
+  findEventById,
+  findAllEvents,
+  findEventsInRange,
+  updateEvent,
+  deleteEvent,
+  getEventCount
+} from '../models/Event';
+import { findCategoryById } from '../models/Category';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import {
+  validate,
+  validateQuery,
+  validateParams,
+  createEventSchema,
+  updateEventSchema,
+  eventFiltersSchema,
+  eventRangeParamsSchema,
+  eventMonthParamsSchema,
+  eventRangeQuerySchema,
+  uuidSchema
+} from '../utils/validation';
+import {
+  normalizePaginationQuery,
+  createPaginatedResponse
+} from '../utils/pagination';
+import { getDayRange, getWeekRange, getMonthRange, DateRange } from '../utils/dateRange';
+import { ApiResponse, Event, EventFilters, PaginatedResponse } from '../types';
+import Joi from 'joi';
+
+const router = express.Router();
+
+const sendRange = async (
+  req: express.Request,
+  res: express.Response,
+  range: DateRange
+) => {
+  const { categoryId } = req.query as { categoryId?: string };
+  const events = await findEventsInRange(req.user!.id, range.start, range.end, categoryId);
+
+  const response: ApiResponse<{ range: DateRange; events: Event[] }> = {
+    success: true,
+    data: { range, events }
+  };
+
+  res.json(response);
+};
+
+// GET /api/events - Get all events with filtering and pagination
+router.get('/',
+  validateQuery(eventFiltersSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const filters = req.query as EventFilters;
+    const pagination = normalizePaginationQuery(filters);
+
+    const [events, total] = await Promise.all([
+      findAllEvents(req.user!.id, { ...filters, ...pagination }),
+      getEventCount(req.user!.id, filters)
+    ]);
+
+    const paginatedData = createPaginatedResponse(events, pagination, total);
+
+    const response: ApiResponse<PaginatedResponse<Event>> = {
+      success: true,
+      data: paginatedData
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/events/range/:start/:end - Get events overlapping a date range
+router.get('/range/:start/:end',
+  validateParams(eventRangeParamsSchema),
+  validateQuery(eventRangeQuerySchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { start, end } = req.params;
+    await sendRange(req, res, { start, end });
+  })
+);
+
+// GET /api/events/filter/today - Get today's events
+router.get('/filter/today',
+  validateQuery(eventRangeQuerySchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    await sendRange(req, res, getDayRange());
+  })
+);
+
+// GET /api/events/filter/week - Get this week's events
+router.get('/filter/week',
+  validateQuery(eventRangeQuerySchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    await sendRange(req, res, getWeekRange());
+  })
+);
+
+// GET /api/events/month/:year/:month - Get events for a specific month
+router.get('/month/:year/:month',
+  validateParams(eventMonthParamsSchema),
+  validateQuery(eventRangeQuerySchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { year, month } = req.params as unknown as { year: number; month: number };
+    await sendRange(req, res, getMonthRange(year, month));
+  })
+);
+
+// GET /api/events/:id - Get event by ID
+router.get('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const event = await findEventById(req.user!.id, id);
+    if (!event) {
+      throw createError('Event not found', 404);
+    }
+
+    const response: ApiResponse<Event> = {
+      success: true,
+      data: event
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /api/events - Create new event
+router.post('/',
+  validate(createEventSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+
+    if (req.body.categoryId && !await findCategoryById(userId, req.body.categoryId)) {
+      throw createError('Category not found', 400);
+    }
+
+    const event = await createEvent(userId, req.body);
+
+    const response: ApiResponse<Event> = {
+      success: true,
+      data: event,
+      message: 'Event created successfully'
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// PUT /api/events/:id - Update event
+router.put('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  validate(updateEventSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const existingEvent = await findEventById(userId, id);
+    if (!existingEvent) {
+      throw createError('Event not found', 404);
+    }
+
+    // Only one side of the range may be changing, so check against the stored value
+    const startDate = req.body.startDate ?? existingEvent.startDate;
+    const endDate = req.body.endDate ?? existingEvent.endDate;
+    if (new Date(endDate) <= new Date(startDate)) {
+      throw createError('"endDate" must be after "startDate"', 400);
+    }
+
+    if (req.body.categoryId && !await findCategoryById(userId, req.body.categoryId)) {
+      throw createError('Category not found', 400);
+    }
+
+    const event = await updateEvent(userId, id, req.body);
+    if (!event) {
+      throw createError('Event not found', 404);
+    }
+
+    const response: ApiResponse<Event> = {
+      success: true,
+      data: event,
+      message: 'Event updated successfully'
+    };
+
+    res.json(response);
+  })
+);
+
+// DELETE /api/events/:id - Delete event
+router.delete('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+
+    const deleted = await deleteEvent(req.user!.id, id);
+    if (!deleted) {
+      throw createError('Event not found', 404);
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Event deleted successfully'
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
@@ -0,0 +1,102 @@
+import express from 'express';
+import { getDatabase, pingDatabase } from '../database/init';
+import { getMigrationStatus, formatMigrationName } from '../database/migrator';
+import { asyncHandler } from '../middleware/errorHandler';
+import { isShuttingDown } from '../utils/shutdown';
+
+const router = express.Router();
+
+// Checks slower than this count as failed, so probes get a prompt answer
+const CHECK_TIMEOUT_MS = 2000;
+
+interface CheckResult {
+  status: 'up' | 'down';
+  durationMs: number;
+  error?: string;
+  [detail: string]: unknown;
+}
+
+const withTimeout = <T>(work: Promise<T>, timeoutMs: number): Promise<T> => {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Runs a readiness check, reporting it as down when it throws or is too slow
+ */
+const runCheck = async (check: () => Promise<Record<string, unknown> | void>): Promise<CheckResult> => {
+  const startedAt = Date.now();
+  try {
+    const details = await withTimeout(check(), CHECK_TIMEOUT_MS);
+    return { status: 'up', durationMs: Date.now() - startedAt, ...details };
+  } catch (error: any) {
+    return { status: 'down', durationMs: Date.now() - startedAt, error: error?.message || String(error) };
+  }
+};
+
+/**
+ * The schema is ready when every migration of this build, and no other, has
+ * been applied
+ */
+const checkMigrations = async (): Promise<Record<string, unknown>> => {
+  const statuses = await getMigrationStatus(getDatabase());
+  const pending = statuses.filter(migration => !migration.appliedAt).map(formatMigrationName);
+  const unknown = statuses.filter(migration => migration.unknown).map(formatMigrationName);
+  const applied = statuses.filter(migration => migration.appliedAt && !migration.unknown);
+
+  if (pending.length > 0 || unknown.length > 0) {
+    const problems = [
+      pending.length > 0 ? `pending: ${pending.join(', ')}` : '',
+      unknown.length > 0 ? `unknown to this build: ${unknown.join(', ')}` : ''
+    ].filter(Boolean);
+    throw new Error(`Schema is out of date (${problems.join('; ')})`);
+  }
+
+  return { version: applied.length > 0 ? applied[applied.length - 1].version : 0 };
+};
+
+const liveness = (req: express.Request, res: express.Response) => {
+  res.status(200).json({
+    status: 'OK',
+    message: 'Day Planner API is running',
+    timestamp: new Date().toISOString()
+  });
+};
+
+// GET /api/health - Liveness check (kept for existing health checks)
+router.get('/', liveness);
+
+// GET /api/health/live - Liveness: the process is up and serving requests
+router.get('/live', liveness);
+
+// GET /api/health/ready - Readiness: the database is reachable and its schema is current
+router.get('/ready',
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    if (isShuttingDown()) {
+      res.status(503).json({
+        status: 'UNAVAILABLE',
+        message: 'Day Planner API is shutting down',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const database = await runCheck(pingDatabase);
+    const migrations = database.status === 'up'
+      ? await runCheck(checkMigrations)
+      : { status: 'down' as const, durationMs: 0, error: 'Database is unreachable' };
+    const ready = database.status === 'up' && migrations.status === 'up';
+
+    res.status(ready ? 200 : 503).json({
+      status: ready ? 'OK' : 'UNAVAILABLE',
+      message: ready ? 'Day Planner API is ready' : 'Day Planner API is not ready',
+      timestamp: new Date().toISOString(),
+      checks: { database, migrations }
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,51 @@
+import express from 'express';
+import { timingSafeEqual } from 'crypto';
+import { getTaskCount } from '../models/Task';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { getBearerToken } from '../middleware/auth';
+import { tasksGauge, renderMetrics } from '../utils/metrics';
+
+const router = express.Router();
+
+const PRIORITIES = ['low', 'medium', 'high'] as const;
+
+/**
+ * When METRICS_TOKEN is set, scrapers must send it as a bearer token. In
+ * production it must be set; until it is, metrics are not served.
+ */
+const isAuthorizedScrape = (req: express.Request): boolean => {
+  const expected = process.env.METRICS_TOKEN;
+  if (!expected) {
+    if (process.env.NODE_ENV === 'production') {
+      throw createError('Metrics are disabled until METRICS_TOKEN is set', 503);
+    }
+    return true;
+  }
+  const token = getBearerToken(req);
+  return token !== null
+    && token.length === expected.length
+    && timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+};
+
+const collectTaskMetrics = async (): Promise<void> => {
+  const combinations = [true, false].flatMap(completed => PRIORITIES.map(priority => ({ completed, priority })));
+  const counts = await Promise.all(combinations.map(filters => getTaskCount(null, filters)));
+
+  combinations.forEach(({ completed, priority }, index) => {
+    tasksGauge.set({ completed: String(completed), priority }, counts[index]);
+  });
+};
+
+// GET /metrics - Prometheus metrics
+router.get('/',
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    if (!isAuthorizedScrape(req)) {
+      throw createError('Invalid metrics token', 401);
+    }
+
+    await collectTaskMetrics();
+    res.type('text/plain; version=0.0.4; charset=utf-8').send(renderMetrics());
+  })
+);
+
+export default router;
@@ -0,0 +1,86 @@
+import express from 'express';
+import { findTaskById } from '../models/Task';
+import { createReminder, findRemindersByTask, deleteReminder } from '../models/Reminder';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { validate, validateParams, createReminderSchema, uuidSchema } from '../utils/validation';
+import { getReminderChannel, getReminderChannelNames } from '../utils/reminderChannels';
+import { ApiResponse, Reminder } from '../types';
+import Joi from 'joi';
+
+// Mounted at /api/tasks/:taskId/reminders
+const router = express.Router({ mergeParams: true });
+
+const taskParamsSchema = Joi.object({ taskId: uuidSchema });
+
+// GET /api/tasks/:taskId/reminders - List a task's reminders, soonest first
+router.get('/',
+  validateParams(taskParamsSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    const { taskId } = req.params;
+
+    if (!await findTaskById(userId, taskId)) {
+      throw createError('Task not found', 404);
+    }
+
+    const response: ApiResponse<Reminder[]> = {
+      success: true,
+      data: await findRemindersByTask(userId, taskId)
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /api/tasks/:taskId/reminders - Add a reminder at a fixed time or before the due date
+router.post('/',
+  validateParams(taskParamsSchema),
+  validate(createReminderSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    const { taskId } = req.params;
+
+    const task = await findTaskById(userId, taskId);
+    if (!task) {
+      throw createError('Task not found', 404);
+    }
+
+    if (!getReminderChannel(req.body.channel)) {
+      throw createError(`Unknown reminder channel. Available channels: ${getReminderChannelNames().join(', ')}`, 400);
+    }
+
+    if (req.body.offsetMinutes !== undefined && !task.dueDate) {
+      throw createError('A reminder relative to the due date requires the task to have a dueDate', 400);
+    }
+
+    const reminder = await createReminder(userId, taskId, req.body, task.dueDate);
+
+    const response: ApiResponse<Reminder> = {
+      success: true,
+      data: reminder,
+      message: 'Reminder created successfully'
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// DELETE /api/tasks/:taskId/reminders/:id - Delete a reminder
+router.delete('/:id',
+  validateParams(taskParamsSchema.keys({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const deleted = await deleteReminder(req.user!.id, req.params.taskId, req.params.id);
+    if (!deleted) {
+      throw createError('Reminder not found', 404);
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Reminder deleted successfully'
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
@@ -0,0 +1,106 @@
+import express from 'express';
+import { subscribeToTaskEvents, getTaskEventsSince, onTaskStreamsClosing } from '../utils/taskStream';
+import { signStreamToken, STREAM_TOKEN_EXPIRY_SECONDS } from '../utils/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { ApiResponse, StreamToken, TaskStreamEvent } from '../types';
+
+const router = express.Router();
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+// How long EventSource clients wait before reconnecting
+const RECONNECT_DELAY_MS = 3000;
+// Messages held for a client that is not keeping up before its stream is
+// ended; it reconnects and resumes from its Last-Event-ID
+const MAX_QUEUED_MESSAGES = 100;
+
+const formatEvent = (event: TaskStreamEvent): string => {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+};
+
+// POST /api/stream/token - Issue a short-lived token for opening the stream
+router.post('/token', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const response: ApiResponse<StreamToken> = {
+    success: true,
+    data: {
+      token: signStreamToken(req.user!),
+      expiresAt: new Date(Date.now() + STREAM_TOKEN_EXPIRY_SECONDS * 1000).toISOString()
+    }
+  };
+
+  res.status(201).json(response);
+}));
+
+// GET /api/stream - Server-Sent Events stream of the user's task changes
+router.get('/', (req: express.Request, res: express.Response) => {
+  const userId = req.user!.id;
+  const lastEventId = req.header('Last-Event-ID') || (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop reverse proxies such as nginx from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  // Set while waiting for the socket to drain
+  let queued: string[] | null = null;
+
+  const send = (message: string) => {
+    if (res.writableEnded) {
+      return;
+    }
+    if (queued) {
+      if (queued.length >= MAX_QUEUED_MESSAGES) {
+        close();
+      } else {
+        queued.push(message);
+      }
+      return;
+    }
+
+    if (!res.write(message)) {
+      queued = [];
+      res.once('drain', () => {
+        const pending = queued || [];
+        queued = null;
+        pending.forEach(send);
+      });
+    }
+  };
+
+  // Subscribing before replaying cannot miss events: both happen synchronously
+  const unsubscribe = subscribeToTaskEvents(userId, event => {
+    send(formatEvent(event));
+  });
+
+  const heartbeat = setInterval(() => {
+    send(`: heartbeat ${new Date().toISOString()}\n\n`);
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // On shutdown the stream ends and the client reconnects after the retry delay
+  const stopClosing = onTaskStreamsClosing(() => close());
+
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    stopClosing();
+    res.end();
+  };
+
+  req.on('close', close);
+
+  send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  if (lastEventId) {
+    const missed = getTaskEventsSince(userId, lastEventId);
+    if (missed) {
+      missed.forEach(event => send(formatEvent(event)));
+    } else {
+      // The missed events are gone; the client should reload its tasks
+      send(`event: resync\ndata: {}\n\n`);
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import { findAllTagsWithUsage } from '../models/Tag';
+import { asyncHandler } from '../middleware/errorHandler';
+import { ApiResponse, TagUsage } from '../types';
+
+const router = express.Router();
+
+// GET /api/tags - Get the authenticated user's tags with usage counts
+router.get('/',
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const tags = await findAllTagsWithUsage(req.user!.id);
+
+    const response: ApiResponse<TagUsage[]> = {
+      success: true,
+      data: tags
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
@@ -5,9 +5,21 @@ import {
   findAllTasks, 
   updateTask, 
   deleteTask, 
-  getTaskCount 
+  getTaskCount,
+  spawnNextOccurrence,
+  findSubtaskTree,
+  isTaskOrDescendant,
+  findTrashedTaskById,
+  restoreTask,
+  getTaskSort,
+  getTaskCursor,
+  encodeTaskCursor,
+  decodeTaskCursor,
+  findTasksByCursor
 } from '../models/Task';
 import { asyncHandler, createError } from '../middleware/errorHandler';
+import { idempotent } from '../middleware/idempotency';
+import { rateLimit } from '../middleware/rateLimit';
 import { 
   validate, 
   validateQuery, 
@@ -15,30 +27,289 @@ import {
   createTaskSchema, 
   updateTaskSchema, 
   taskFiltersSchema,
+  occurrencesQuerySchema,
+  taskImportQuerySchema,
+  bulkTaskSchema,
+  MAX_BULK_TASKS,
+  auditFiltersSchema,
   uuidSchema 
 } from '../utils/validation';
 import { 
   normalizePaginationQuery, 
-  createPaginatedResponse 
+  createPaginatedResponse,
+  createCursorPaginationMeta
 } from '../utils/pagination';
-import { ApiResponse, Task, TaskFilters, PaginatedResponse } from '../types';
+import { expandOccurrences, Occurrence } from '../utils/recurrence';
+import { findCategoryById } from '../models/Category';
+import {
+  formatTaskCsvHeader,
+  formatTaskCsvRow,
+  formatTaskNdjsonLine,
+  parseTaskImport,
+  TaskImportFormat,
+  TaskImportRow
+} from '../utils/taskTransfer';
+import { importTasks } from '../utils/taskImport';
+import { withTransaction } from '../database/init';
+import { publishTaskEvent } from '../utils/taskStream';
+import { setTaskETag, checkIfMatch } from '../utils/etag';
+import { logger } from '../utils/logger';
+import { findAuditEntries, getAuditCount } from '../models/AuditLog';
+import {
+  ApiResponse,
+  Task,
+  TaskFilters,
+  PaginatedResponse,
+  RecurrenceRule,
+  AuditFilters,
+  TaskAuditEntry,
+  BulkTaskAction,
+  BulkTaskRequest,
+  TaskSort,
+  TaskStreamEventType,
+  UpdateTaskRequest
+} from '../types';
 import Joi from 'joi';
 
 const router = express.Router();
 
+// Tasks fetched per query while streaming an export
+const EXPORT_BATCH_SIZE = 500;
+const MAX_IMPORT_SIZE = '5mb';
+const MAX_IMPORT_ROWS = 5000;
+
+const IMPORT_CONTENT_TYPES: Record<string, TaskImportFormat> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/jsonl': 'ndjson'
+};
+
+interface TaskImportResult {
+  dryRun: boolean;
+  committed: boolean;
+  total: number;
+  valid: number;
+  failed: number;
+  imported: number;
+  errors: { row: number; reason: string }[];
+}
+
+interface BulkTaskItemResult {
+  id: string;
+  status: 'updated' | 'unchanged' | 'deleted' | 'not_found' | 'failed';
+  error?: string;
+}
+
+interface BulkTaskResult {
+  action: BulkTaskAction;
+  committed: boolean;
+  matched: number;
+  affected: number;
+  failed: number;
+  results: BulkTaskItemResult[];
+}
+
+/**
+ * Streams every task matching the request's filters, fetching them in
+ * batches and waiting for the client to drain each one. Each batch starts
+ * after the last task sent, so tasks added or deleted meanwhile do not
+ * shift later batches.
+ */
+const streamTasks = async (
+  req: express.Request,
+  res: express.Response,
+  formatTask: (task: Task) => string,
+  header: string = ''
+): Promise<void> => {
+  const userId = req.user!.id;
+  const { page, limit, cursor, ...filters } = req.query as TaskFilters;
+  const sort = getTaskSort(filters);
+
+  try {
+    if (header) {
+      res.write(header);
+    }
+
+    let tasks = await findAllTasks(userId, { ...filters, page: 1, limit: EXPORT_BATCH_SIZE });
+    let hasMore = tasks.length === EXPORT_BATCH_SIZE;
+
+    while (!res.destroyed) {
+      const chunk = tasks.map(formatTask).join('');
+      if (chunk && !res.write(chunk)) {
+        await new Promise(resolve => res.once('drain', resolve));
+      }
+
+      if (!hasMore) {
+        break;
+      }
+
+      const after = getTaskCursor(tasks[tasks.length - 1], sort, 'next');
+      ({ tasks, hasMore } = await findTasksByCursor(userId, filters, after, EXPORT_BATCH_SIZE));
+    }
+  } catch (error) {
+    // Once streaming has started the only way to signal failure is to abort
+    logger.error('Task export failed', { error });
+    res.destroy();
+    return;
+  }
+
+  res.end();
+};
+
+/**
+ * Cursors to the pages either side of `tasks`
+ */
+const buildTaskCursors = (
+  tasks: Task[],
+  sort: TaskSort,
+  hasNextPage: boolean,
+  hasPrevPage: boolean
+): { nextCursor?: string; prevCursor?: string } => {
+  const first = tasks[0];
+  const last = tasks[tasks.length - 1];
+
+  return {
+    nextCursor: hasNextPage && last ? encodeTaskCursor(last, sort, 'next') : undefined,
+    prevCursor: hasPrevPage && first ? encodeTaskCursor(first, sort, 'prev') : undefined
+  };
+};
+
+/**
+ * Rejects a write made against an outdated version of the task, returning
+ * the current task so the client can reconcile and retry
+ */
+const sendPreconditionFailed = (res: express.Response, task: Task): void => {
+  setTaskETag(res, task);
+
+  const response: ApiResponse<Task> = {
+    success: false,
+    data: task,
+    error: 'Task has been modified since it was fetched'
+  };
+
+  res.status(412).json(response);
+};
+
+/**
+ * Handles a conditional write that matched no task: either the task changed
+ * between the If-Match check and the write, or it is gone
+ */
+const handleFailedWrite = async (userId: string, id: string, res: express.Response): Promise<void> => {
+  const currentTask = await findTaskById(userId, id);
+  if (!currentTask) {
+    throw createError('Task not found', 404);
+  }
+  sendPreconditionFailed(res, currentTask);
+};
+
+/**
+ * Applies a bulk action to one task, collecting the stream events to publish
+ * once the whole batch has been committed
+ */
+const applyBulkAction = async (
+  userId: string,
+  task: Task,
+  request: BulkTaskRequest,
+  events: { type: TaskStreamEventType; data: unknown }[]
+): Promise<BulkTaskItemResult> => {
+  const { action } = request;
+
+  if (action === 'delete') {
+    // Subtasks whose parent was deleted earlier in the batch are already in the trash
+    await deleteTask(userId, task.id);
+    events.push({ type: 'task.deleted', data: { id: task.id } });
+    return { id: task.id, status: 'deleted' };
+  }
+
+  let changes: UpdateTaskRequest;
+  let unchanged: boolean;
+  if (action === 'complete' || action === 'uncomplete') {
+    changes = { completed: action === 'complete' };
+    unchanged = task.completed === changes.completed;
+  } else if (action === 'setPriority') {
+    changes = { priority: request.priority };
+    unchanged = task.priority === request.priority;
+  } else {
+    if (!request.dueDate && task.recurrence) {
+      return { id: task.id, status: 'failed', error: 'A recurring task requires a dueDate' };
+    }
+    changes = { dueDate: request.dueDate };
+    unchanged = (task.dueDate || null) === request.dueDate;
+  }
+
+  if (unchanged) {
+    return { id: task.id, status: 'unchanged' };
+  }
+
+  let updatedTask = (await updateTask(userId, task.id, changes))!;
+
+  // Completing an occurrence of a recurring task schedules the next one
+  const nextTask = !task.completed && updatedTask.completed ? await spawnNextOccurrence(updatedTask) : null;
+  if (nextTask) {
+    updatedTask = (await findTaskById(userId, task.id))!;
+  }
+
+  events.push({ type: 'task.updated', data: { task: updatedTask } });
+  if (nextTask) {
+    events.push({ type: 'task.created', data: { task: nextTask } });
+  }
+
+  return { id: task.id, status: 'updated' };
+};
+
 // GET /api/tasks - Get all tasks with filtering and pagination
 router.get('/', 
   validateQuery(taskFiltersSchema),
   asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
     const filters = req.query as TaskFilters;
     const pagination = normalizePaginationQuery(filters);
-    
+
+    if (filters.cursor !== undefined) {
+      const cursor = decodeTaskCursor(filters.cursor, filters);
+      if (!cursor) {
+        throw createError('Invalid cursor', 400);
+      }
+
+      const [{ tasks, hasMore }, total] = await Promise.all([
+        findTasksByCursor(userId, filters, cursor, pagination.limit),
+        getTaskCount(userId, filters)
+      ]);
+
+      // The tasks on the other side of the cursor are where the client came from
+      const cursors = buildTaskCursors(
+        tasks,
+        { sortBy: cursor.sortBy, sortOrder: cursor.sortOrder },
+        cursor.direction === 'next' ? hasMore : true,
+        cursor.direction === 'prev' ? hasMore : true
+      );
+
+      const response: ApiResponse<PaginatedResponse<Task>> = {
+        success: true,
+        data: {
+          items: tasks,
+          pagination: createCursorPaginationMeta(pagination.limit, total, cursors)
+        }
+      };
+
+      res.json(response);
+      return;
+    }
+
     const [tasks, total] = await Promise.all([
-      findAllTasks({ ...filters, ...pagination }),
-      getTaskCount(filters)
+      findAllTasks(userId, { ...filters, ...pagination }),
+      getTaskCount(userId, filters)
     ]);
 
     const paginatedData = createPaginatedResponse(tasks, pagination, total);
+    // Page mode also hands out cursors so clients can switch to keyset paging
+    Object.assign(paginatedData.pagination, buildTaskCursors(
+      tasks,
+      getTaskSort({ ...filters, ...pagination }),
+      paginatedData.pagination.hasNextPage,
+      paginatedData.pagination.hasPrevPage
+    ));
 
     const response: ApiResponse<PaginatedResponse<Task>> = {
       success: true,
@@ -49,20 +320,252 @@ router.get('/',
   })
 );
 
-// GET /api/tasks/:id - Get task by ID
+// GET /api/tasks/export.csv - Stream all matching tasks as CSV
+router.get('/export.csv',
+  rateLimit('export'),
+  validateQuery(taskFiltersSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="tasks.csv"');
+
+    await streamTasks(req, res, formatTaskCsvRow, formatTaskCsvHeader());
+  })
+);
+
+// GET /api/tasks/export.ndjson - Stream all matching tasks as newline-delimited JSON
+router.get('/export.ndjson',
+  rateLimit('export'),
+  validateQuery(taskFiltersSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="tasks.ndjson"');
+
+    await streamTasks(req, res, formatTaskNdjsonLine);
+  })
+);
+
+// POST /api/tasks/import - Import tasks from CSV or NDJSON in a single transaction
+router.post('/import',
+  validateQuery(taskImportQuerySchema),
+  express.text({ type: ['text/*', ...Object.keys(IMPORT_CONTENT_TYPES)], limit: MAX_IMPORT_SIZE }),
+  idempotent,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    const { dryRun } = req.query as unknown as { dryRun: boolean };
+    const format = (req.query.format as TaskImportFormat | undefined)
+      || IMPORT_CONTENT_TYPES[(req.headers['content-type'] || '').split(';')[0].trim().toLowerCase()];
+
+    if (!format) {
+      throw createError('Send text/csv or application/x-ndjson, or set the format query parameter', 415);
+    }
+
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      throw createError('Import file is empty', 400);
+    }
+
+    let rows: TaskImportRow[];
+    try {
+      rows = parseTaskImport(req.body, format);
+    } catch (error: any) {
+      throw createError(`Could not parse ${format.toUpperCase()} file: ${error.message}`, 400);
+    }
+
+    if (rows.length === 0) {
+      throw createError('Import file contains no rows', 400);
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw createError(`Import files are limited to ${MAX_IMPORT_ROWS} rows`, 413);
+    }
+
+    // Nothing is kept unless every row imports cleanly and this is not a dry run
+    const { committed, errors } = await importTasks(userId, rows, { dryRun });
+    const result: TaskImportResult = {
+      dryRun,
+      committed,
+      total: rows.length,
+      valid: rows.length - errors.length,
+      failed: errors.length,
+      imported: committed ? rows.length : 0,
+      errors
+    };
+
+    if (result.failed > 0) {
+      const response: ApiResponse<TaskImportResult> = {
+        success: false,
+        data: result,
+        error: `${result.failed} of ${result.total} rows could not be imported; no tasks were saved`
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const response: ApiResponse<TaskImportResult> = {
+      success: true,
+      data: result,
+      message: dryRun
+        ? `Dry run: ${result.valid} tasks would be imported`
+        : `Imported ${result.imported} tasks`
+    };
+
+    res.status(dryRun ? 200 : 201).json(response);
+  })
+);
+
+// POST /api/tasks/bulk - Apply one action to many tasks in a single transaction
+router.post('/bulk',
+  validate(bulkTaskSchema),
+  idempotent,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    const request = req.body as BulkTaskRequest;
+    const events: { type: TaskStreamEventType; data: unknown }[] = [];
+
+    // Nothing is kept unless the action succeeds for every selected task
+    const result = await withTransaction(async (): Promise<BulkTaskResult> => {
+      // Every task is loaded before any is changed, so subtasks deleted along
+      // with their parent still count as matched
+      let selection: { id: string; task: Task | null }[];
+      if (request.ids) {
+        selection = [];
+        for (const id of request.ids) {
+          selection.push({ id, task: await findTaskById(userId, id) });
+        }
+      } else {
+        const tasks = await findAllTasks(userId, { ...request.filter, page: 1, limit: MAX_BULK_TASKS + 1 });
+        if (tasks.length > MAX_BULK_TASKS) {
+          throw createError(`The filter matches more than ${MAX_BULK_TASKS} tasks; narrow it down`, 400);
+        }
+        selection = tasks.map(task => ({ id: task.id, task }));
+      }
+
+      const results: BulkTaskItemResult[] = [];
+      for (const { id, task } of selection) {
+        results.push(task ? await applyBulkAction(userId, task, request, events) : { id, status: 'not_found' });
+      }
+
+      const failed = results.filter(item => item.status === 'not_found' || item.status === 'failed').length;
+      return {
+        action: request.action,
+        committed: failed === 0,
+        matched: selection.filter(item => item.task).length,
+        affected: failed === 0 ? results.filter(item => item.status === 'updated' || item.status === 'deleted').length : 0,
+        failed,
+        results
+      };
+    }, outcome => outcome.committed);
+
+    if (!result.committed) {
+      const response: ApiResponse<BulkTaskResult> = {
+        success: false,
+        data: result,
+        error: `${result.failed} task${result.failed === 1 ? '' : 's'} could not be processed; no changes were saved`
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    events.forEach(event => publishTaskEvent(userId, event.type, event.data));
+
+    const response: ApiResponse<BulkTaskResult> = {
+      success: true,
+      data: result,
+      message: `${result.affected} of ${result.matched} tasks affected`
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/tasks/:id - Get task by ID, including nested subtasks
 router.get('/:id', 
   validateParams(Joi.object({ id: uuidSchema })),
   asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
     const { id } = req.params;
     
-    const task = await findTaskById(id);
+    const task = await findTaskById(userId, id);
     if (!task) {
       throw createError('Task not found', 404);
     }
 
+    const subtasks = await findSubtaskTree(userId, id);
+
     const response: ApiResponse<Task> = {
       success: true,
-      data: task
+      data: { ...task, subtasks }
+    };
+
+    setTaskETag(res, task);
+    res.json(response);
+  })
+);
+
+// GET /api/tasks/:id/history - Change history of a task (also available after deletion)
+router.get('/:id/history',
+  validateParams(Joi.object({ id: uuidSchema })),
+  validateQuery(auditFiltersSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    const filters: AuditFilters = { ...(req.query as AuditFilters), taskId: req.params.id };
+    const pagination = normalizePaginationQuery(filters);
+
+    const [entries, total] = await Promise.all([
+      findAuditEntries(userId, { ...filters, ...pagination }),
+      getAuditCount(userId, filters)
+    ]);
+
+    if (total === 0 && !await findTaskById(userId, req.params.id)) {
+      throw createError('Task not found', 404);
+    }
+
+    const response: ApiResponse<PaginatedResponse<TaskAuditEntry>> = {
+      success: true,
+      data: createPaginatedResponse(entries, pagination, total)
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/tasks/:id/occurrences - Expand a recurring task's occurrences within a date window
+router.get('/:id/occurrences', 
+  validateParams(Joi.object({ id: uuidSchema })),
+  validateQuery(occurrencesQuerySchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { from, to, limit } = req.query as unknown as { from: string; to: string; limit: number };
+    
+    const task = await findTaskById(userId, id);
+    if (!task) {
+      throw createError('Task not found', 404);
+    }
+
+    if (!task.recurrence || !task.dueDate) {
+      throw createError('Task does not have a recurrence rule', 400);
+    }
+
+    const occurrences = expandOccurrences(
+      task.recurrence,
+      new Date(task.dueDate),
+      task.occurrenceIndex || 1,
+      new Date(from),
+      new Date(to),
+      limit
+    );
+
+    const response: ApiResponse<{
+      taskId: string;
+      recurrence: RecurrenceRule;
+      occurrences: Occurrence[];
+    }> = {
+      success: true,
+      data: {
+        taskId: task.id,
+        recurrence: task.recurrence,
+        occurrences
+      }
     };
 
     res.json(response);
@@ -72,8 +575,21 @@ router.get('/:id',
 // POST /api/tasks - Create new task
 router.post('/', 
   validate(createTaskSchema),
+  idempotent,
   asyncHandler(async (req: express.Request, res: express.Response) => {
-    const task = await createTask(req.body);
+    const userId = req.user!.id;
+
+    if (req.body.parentId && !await findTaskById(userId, req.body.parentId)) {
+      throw createError('Parent task not found', 400);
+    }
+
+    if (req.body.categoryId && !await findCategoryById(userId, req.body.categoryId)) {
+      throw createError('Category not found', 400);
+    }
+
+    // The task, its tags, audit entry and webhook events are saved together
+    const task = await withTransaction(() => createTask(userId, req.body));
+    publishTaskEvent(userId, 'task.created', { task });
 
     const response: ApiResponse<Task> = {
       success: true,
@@ -81,6 +597,7 @@ router.post('/',
       message: 'Task created successfully'
     };
 
+    setTaskETag(res, task);
     res.status(201).json(response);
   })
 );
@@ -89,20 +606,68 @@ router.post('/',
 router.put('/:id', 
   validateParams(Joi.object({ id: uuidSchema })),
   validate(updateTaskSchema),
+  idempotent,
   asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
     const { id } = req.params;
     
-    const task = await updateTask(id, req.body);
-    if (!task) {
+    const existingTask = await findTaskById(userId, id);
+    if (!existingTask) {
       throw createError('Task not found', 404);
     }
 
+    if (!checkIfMatch(req, existingTask)) {
+      sendPreconditionFailed(res, existingTask);
+      return;
+    }
+    const expectedVersion = req.header('If-Match') ? existingTask.version : undefined;
+
+    const recurrence = req.body.recurrence !== undefined ? req.body.recurrence : existingTask.recurrence;
+    const dueDate = req.body.dueDate !== undefined ? req.body.dueDate : existingTask.dueDate;
+    if (recurrence && !dueDate) {
+      throw createError('A recurring task requires a dueDate', 400);
+    }
+
+    if (req.body.parentId) {
+      if (!await findTaskById(userId, req.body.parentId)) {
+        throw createError('Parent task not found', 400);
+      }
+      if (await isTaskOrDescendant(id, req.body.parentId)) {
+        throw createError('A task cannot be moved under itself or one of its subtasks', 400);
+      }
+    }
+
+    if (req.body.categoryId && !await findCategoryById(userId, req.body.categoryId)) {
+      throw createError('Category not found', 400);
+    }
+
+    // The update and the next occurrence it schedules are kept or rolled back together
+    const { task, nextTask } = await withTransaction(async () => {
+      const updatedTask = await updateTask(userId, id, req.body, expectedVersion);
+      if (!updatedTask) {
+        return { task: null, nextTask: null };
+      }
+
+      const spawned = !existingTask.completed && updatedTask.completed ? await spawnNextOccurrence(updatedTask) : null;
+      return { task: spawned ? await findTaskById(userId, id) : updatedTask, nextTask: spawned };
+    });
+    if (!task) {
+      await handleFailedWrite(userId, id, res);
+      return;
+    }
+
+    publishTaskEvent(userId, 'task.updated', { task });
+    if (nextTask) {
+      publishTaskEvent(userId, 'task.created', { task: nextTask });
+    }
+
     const response: ApiResponse<Task> = {
       success: true,
       data: task,
       message: 'Task updated successfully'
     };
 
+    setTaskETag(res, task);
     res.json(response);
   })
 );
@@ -110,40 +675,117 @@ router.put('/:id',
 // PATCH /api/tasks/:id/toggle - Toggle task completion status
 router.patch('/:id/toggle', 
   validateParams(Joi.object({ id: uuidSchema })),
+  idempotent,
   asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
     const { id } = req.params;
     
-    const existingTask = await findTaskById(id);
+    const existingTask = await findTaskById(userId, id);
     if (!existingTask) {
       throw createError('Task not found', 404);
     }
 
-    const task = await updateTask(id, { completed: !existingTask.completed });
+    if (!checkIfMatch(req, existingTask)) {
+      sendPreconditionFailed(res, existingTask);
+      return;
+    }
+    const expectedVersion = req.header('If-Match') ? existingTask.version : undefined;
+
+    const { task, nextTask } = await withTransaction(async () => {
+      const updatedTask = await updateTask(userId, id, { completed: !existingTask.completed }, expectedVersion);
+      if (!updatedTask) {
+        return { task: null, nextTask: null };
+      }
+
+      // Completing an occurrence of a recurring task schedules the next one
+      const spawned = updatedTask.completed ? await spawnNextOccurrence(updatedTask) : null;
+      return { task: spawned ? await findTaskById(userId, id) : updatedTask, nextTask: spawned };
+    });
+    if (!task) {
+      await handleFailedWrite(userId, id, res);
+      return;
+    }
+
+    publishTaskEvent(userId, 'task.toggled', { task });
+    if (nextTask) {
+      publishTaskEvent(userId, 'task.created', { task: nextTask });
+    }
+
+    const response: ApiResponse<Task> = {
+      success: true,
+      data: task,
+      message: `Task marked as ${task.completed ? 'completed' : 'incomplete'}` +
+        (nextTask ? `; next occurrence due ${nextTask.dueDate}` : '')
+    };
+
+    setTaskETag(res, task);
+    res.json(response);
+  })
+);
+
+// POST /api/tasks/:id/restore - Restore a trashed task with the subtasks deleted along with it
+router.post('/:id/restore',
+  validateParams(Joi.object({ id: uuidSchema })),
+  idempotent,
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const trashedTask = await findTrashedTaskById(userId, id);
+    if (!trashedTask) {
+      throw createError('Task not found in trash', 404);
+    }
+
+    if (trashedTask.parentId && !await findTaskById(userId, trashedTask.parentId)) {
+      throw createError('Parent task is in the trash; restore it first', 409);
+    }
+
+    const task = (await withTransaction(() => restoreTask(userId, id)))!;
+
+    publishTaskEvent(userId, 'task.restored', { task });
 
     const response: ApiResponse<Task> = {
       success: true,
-      data: task!,
-      message: `Task marked as ${task!.completed ? 'completed' : 'incomplete'}`
+      data: task,
+      message: 'Task restored successfully'
     };
 
+    setTaskETag(res, task);
     res.json(response);
   })
 );
 
-// DELETE /api/tasks/:id - Delete task
+// DELETE /api/tasks/:id - Move task and its subtasks to the trash
 router.delete('/:id', 
   validateParams(Joi.object({ id: uuidSchema })),
+  idempotent,
   asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
     const { id } = req.params;
-    
-    const deleted = await deleteTask(id);
-    if (!deleted) {
+
+    const existingTask = await findTaskById(userId, id);
+    if (!existingTask) {
       throw createError('Task not found', 404);
     }
 
+    if (!checkIfMatch(req, existingTask)) {
+      sendPreconditionFailed(res, existingTask);
+      return;
+    }
+    const expectedVersion = req.header('If-Match') ? existingTask.version : undefined;
+
+    const deleted = await withTransaction(() => deleteTask(userId, id, expectedVersion));
+    if (!deleted) {
+      await handleFailedWrite(userId, id, res);
+      return;
+    }
+
+    // Clients remove the task's subtasks along with it
+    publishTaskEvent(userId, 'task.deleted', { id });
+
     const response: ApiResponse<null> = {
       success: true,
-      message: 'Task deleted successfully'
+      message: 'Task moved to trash'
     };
 
     res.json(response);
@@ -153,6 +795,7 @@ router.delete('/:id',
 // GET /api/tasks/stats/summary - Get task statistics
 router.get('/stats/summary', 
   asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
     const [
       total,
       completed,
@@ -160,11 +803,11 @@ router.get('/stats/summary',
       highPriority,
       overdue
     ] = await Promise.all([
-      getTaskCount(),
-      getTaskCount({ completed: true }),
-      getTaskCount({ completed: false }),
-      getTaskCount({ priority: 'high' }),
-      getTaskCount({ 
+      getTaskCount(userId),
+      getTaskCount(userId, { completed: true }),
+      getTaskCount(userId, { completed: false }),
+      getTaskCount(userId, { priority: 'high' }),
+      getTaskCount(userId, { 
         completed: false, 
         dueDateTo: new Date().toISOString() 
       })
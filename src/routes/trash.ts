@@ -0,0 +1,72 @@
+import express from 'express';
+import { findTrashedTasks, getTrashedTaskCount, purgeTask, emptyTrash } from '../models/Task';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import { validateQuery, validateParams, paginationSchema, uuidSchema } from '../utils/validation';
+import { normalizePaginationQuery, createPaginatedResponse } from '../utils/pagination';
+import { getPurgeAt } from '../utils/trashPurger';
+import { ApiResponse, TrashedTask, PaginatedResponse } from '../types';
+import Joi from 'joi';
+
+const router = express.Router();
+
+// GET /api/trash - List trashed tasks, most recently deleted first
+router.get('/',
+  validateQuery(paginationSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const userId = req.user!.id;
+    const pagination = normalizePaginationQuery(req.query);
+
+    const [tasks, total] = await Promise.all([
+      findTrashedTasks(userId, pagination),
+      getTrashedTaskCount(userId)
+    ]);
+
+    const trashedTasks: TrashedTask[] = tasks.map(task => ({
+      ...task,
+      deletedAt: task.deletedAt!,
+      purgeAt: getPurgeAt(task.deletedAt!)
+    }));
+
+    const response: ApiResponse<PaginatedResponse<TrashedTask>> = {
+      success: true,
+      data: createPaginatedResponse(trashedTasks, pagination, total)
+    };
+
+    res.json(response);
+  })
+);
+
+// DELETE /api/trash/:id - Permanently delete a trashed task and its subtasks
+router.delete('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const purged = await purgeTask(req.user!.id, req.params.id);
+    if (!purged) {
+      throw createError('Task not found in trash', 404);
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Task permanently deleted'
+    };
+
+    res.json(response);
+  })
+);
+
+// DELETE /api/trash - Permanently delete everything in the trash
+router.delete('/',
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const purged = await emptyTrash(req.user!.id);
+
+    const response: ApiResponse<{ purged: number }> = {
+      success: true,
+      data: { purged },
+      message: `${purged} task${purged === 1 ? '' : 's'} permanently deleted`
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
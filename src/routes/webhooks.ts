@@ -0,0 +1,148 @@
+import express from 'express';
+import {
+  createWebhook,
+  findWebhooksByUser,
+  findWebhookById,
+  updateWebhook,
+  deleteWebhook,
+  findDeliveries,
+  getDeliveryCount
+} from '../models/Webhook';
+import { asyncHandler, createError } from '../middleware/errorHandler';
+import {
+  validate,
+  validateQuery,
+  validateParams,
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookDeliveryFiltersSchema,
+  uuidSchema
+} from '../utils/validation';
+import { normalizePaginationQuery, createPaginatedResponse } from '../utils/pagination';
+import {
+  ApiResponse,
+  Webhook,
+  CreatedWebhook,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  PaginatedResponse
+} from '../types';
+import Joi from 'joi';
+
+const router = express.Router();
+
+// GET /api/webhooks - List the authenticated user's webhooks
+router.get('/',
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const webhooks = await findWebhooksByUser(req.user!.id);
+
+    const response: ApiResponse<Webhook[]> = {
+      success: true,
+      data: webhooks
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/webhooks/:id - Get webhook by ID
+router.get('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const webhook = await findWebhookById(req.user!.id, req.params.id);
+    if (!webhook) {
+      throw createError('Webhook not found', 404);
+    }
+
+    const response: ApiResponse<Webhook> = {
+      success: true,
+      data: webhook
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /api/webhooks/:id/deliveries - Delivery log of a webhook, newest first
+router.get('/:id/deliveries',
+  validateParams(Joi.object({ id: uuidSchema })),
+  validateQuery(webhookDeliveryFiltersSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const { id } = req.params;
+    const filters = req.query as WebhookDeliveryFilters;
+
+    const webhook = await findWebhookById(req.user!.id, id);
+    if (!webhook) {
+      throw createError('Webhook not found', 404);
+    }
+
+    const pagination = normalizePaginationQuery(filters);
+    const [deliveries, total] = await Promise.all([
+      findDeliveries(id, { ...filters, ...pagination }),
+      getDeliveryCount(id, filters)
+    ]);
+
+    const response: ApiResponse<PaginatedResponse<WebhookDelivery>> = {
+      success: true,
+      data: createPaginatedResponse(deliveries, pagination, total)
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /api/webhooks - Create a webhook (the signing secret is only shown in this response)
+router.post('/',
+  validate(createWebhookSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const created = await createWebhook(req.user!.id, req.body);
+
+    const response: ApiResponse<CreatedWebhook> = {
+      success: true,
+      data: created,
+      message: 'Webhook created successfully. Store the secret now; it cannot be shown again.'
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// PUT /api/webhooks/:id - Update a webhook's URL, events, secret or active flag
+router.put('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  validate(updateWebhookSchema),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const webhook = await updateWebhook(req.user!.id, req.params.id, req.body);
+    if (!webhook) {
+      throw createError('Webhook not found', 404);
+    }
+
+    const response: ApiResponse<Webhook> = {
+      success: true,
+      data: webhook,
+      message: 'Webhook updated successfully'
+    };
+
+    res.json(response);
+  })
+);
+
+// DELETE /api/webhooks/:id - Delete a webhook and its delivery log
+router.delete('/:id',
+  validateParams(Joi.object({ id: uuidSchema })),
+  asyncHandler(async (req: express.Request, res: express.Response) => {
+    const deleted = await deleteWebhook(req.user!.id, req.params.id);
+    if (!deleted) {
+      throw createError('Webhook not found', 404);
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Webhook deleted successfully'
+    };
+
+    res.json(response);
+  })
+);
+
+export default router;
@@ -1,63 +1,34 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import morgan from 'morgan';
-import dotenv from 'dotenv';
-import { initializeDatabase } from './database/init';
-import { errorHandler } from './middleware/errorHandler';
-import taskRoutes from './routes/tasks';
+import app from './app';
+import { initializeDatabase, closeDatabase } from './database/init';
+import { startWebhookWorker, stopWebhookWorker } from './utils/webhooks';
+import { startReminderScheduler, stopReminderScheduler } from './utils/reminderScheduler';
+import { startTrashPurger, stopTrashPurger } from './utils/trashPurger';
+import { handleShutdownSignals } from './utils/shutdown';
+import { logger } from './utils/logger';
 
-// Load environment variables
-dotenv.config();
-
-const app = express();
 const PORT = process.env.PORT || 3001;
 
-// Middleware
-app.use(helmet());
-app.use(cors({
-  origin: process.env.FRONTEND_URL || 'http://localhost:5173',
-  credentials: true
-}));
-app.use(morgan('combined'));
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
-
-// Routes
-app.use('/api/tasks', taskRoutes);
-
-// Health check endpoint
-app.get('/api/health', (req, res) => {
-  res.status(200).json({ 
-    status: 'OK', 
-    message: 'Day Planner API is running',
-    timestamp: new Date().toISOString()
-  });
-});
-
-// Error handling middleware
-app.use(errorHandler);
-
-// 404 handler
-app.use('*', (req, res) => {
-  res.status(404).json({
-    error: 'Route not found',
-    message: `The requested route ${req.originalUrl} does not exist`
-  });
-});
-
 // Initialize database and start server
 const startServer = async () => {
   try {
     await initializeDatabase();
-    console.log('Database initialized successfully');
+    logger.info('Database initialized successfully');
+
+    startWebhookWorker();
+    startReminderScheduler();
+    startTrashPurger();
     
-    app.listen(PORT, () => {
-      console.log(`Day Planner API server is running on port ${PORT}`);
-      console.log(`Health check: http://localhost:${PORT}/api/health`);
+    const server = app.listen(PORT, () => {
+      logger.info('Day Planner API server is running', { port: PORT, healthCheck: `http://localhost:${PORT}/api/health` });
+    });
+
+    handleShutdownSignals(server, async () => {
+      // Runs in progress still need the database
+      await Promise.all([stopWebhookWorker(), stopReminderScheduler(), stopTrashPurger()]);
+      await closeDatabase();
     });
   } catch (error) {
-    console.error('Failed to start server:', error);
+    logger.error('Failed to start server', { error });
     process.exit(1);
   }
 };
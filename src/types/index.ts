@@ -1,19 +1,58 @@
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval?: number;
+  byWeekday?: Weekday[];
+  until?: string;
+  count?: number;
+}
+
 export interface Task {
   id: string;
+  userId: string;
   title: string;
   description?: string;
   completed: boolean;
   priority: 'low' | 'medium' | 'high';
   dueDate?: string;
+  categoryId?: string;
+  tags: string[];
+  recurrence?: RecurrenceRule;
+  occurrenceIndex?: number;
+  nextOccurrenceId?: string;
+  parentId?: string;
+  search?: TaskSearchMatch;
+  progress?: TaskProgress;
+  subtasks?: Task[];
+  // Set while the task is in the trash
+  deletedAt?: string;
+  // Incremented on every change; exposed as the task's ETag
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TaskSearchMatch {
+  rank: number;
+  title: string;
+  snippet: string;
+}
+
+export interface TaskProgress {
+  completed: number;
+  total: number;
+}
+
 export interface CreateTaskRequest {
   title: string;
   description?: string;
   priority?: 'low' | 'medium' | 'high';
   dueDate?: string;
+  categoryId?: string;
+  parentId?: string;
+  tags?: string[];
+  recurrence?: RecurrenceRule;
 }
 
 export interface UpdateTaskRequest {
@@ -21,7 +60,271 @@ export interface UpdateTaskRequest {
   description?: string;
   completed?: boolean;
   priority?: 'low' | 'medium' | 'high';
-  dueDate?: string;
+  dueDate?: string | null;
+  categoryId?: string | null;
+  parentId?: string | null;
+  tags?: string[];
+  recurrence?: RecurrenceRule | null;
+}
+
+export type BulkTaskAction = 'complete' | 'uncomplete' | 'setPriority' | 'setDueDate' | 'delete';
+
+/**
+ * Applies one action to the tasks listed in `ids` or matched by `filter`
+ */
+export interface BulkTaskRequest {
+  action: BulkTaskAction;
+  ids?: string[];
+  filter?: Omit<TaskFilters, keyof PaginationQuery>;
+  // Required by setPriority and setDueDate respectively
+  priority?: 'low' | 'medium' | 'high';
+  dueDate?: string | null;
+}
+
+export interface TagUsage {
+  id: string;
+  name: string;
+  taskCount: number;
+  createdAt: string;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  color: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCategoryRequest {
+  name: string;
+  color: string;
+  description?: string;
+}
+
+export interface UpdateCategoryRequest {
+  name?: string;
+  color?: string;
+  description?: string;
+}
+
+export interface CategoryUsage {
+  categoryId: string;
+  taskCount: number;
+  completedTaskCount: number;
+  eventCount: number;
+}
+
+export interface Event {
+  id: string;
+  title: string;
+  description?: string;
+  startDate: string;
+  endDate: string;
+  allDay: boolean;
+  location?: string;
+  categoryId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateEventRequest {
+  title: string;
+  description?: string;
+  startDate: string;
+  endDate: string;
+  allDay?: boolean;
+  location?: string;
+  categoryId?: string;
+}
+
+export interface UpdateEventRequest {
+  title?: string;
+  description?: string;
+  startDate?: string;
+  endDate?: string;
+  allDay?: boolean;
+  location?: string;
+  categoryId?: string | null;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RegisterUserRequest {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export type ApiKeyScope = 'tasks:read' | 'tasks:write' | 'admin';
+
+// Feed tokens are read-only keys for calendar subscription URLs
+export type ApiKeyKind = 'api' | 'feed';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  // Set when the request was authenticated with an API key rather than a login token
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[];
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  kind: ApiKeyKind;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  kind?: ApiKeyKind;
+  scopes: ApiKeyScope[];
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+export interface AuthTokenResponse {
+  token: string;
+  expiresIn: string;
+  user: User;
+}
+
+export type WebhookEvent = 'task.created' | 'task.updated' | 'task.completed' | 'task.deleted' | 'task.reminder';
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: WebhookEvent[];
+  // Generated when omitted
+  secret?: string;
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: WebhookEvent[];
+  active?: boolean;
+  secret?: string;
+}
+
+export interface CreatedWebhook {
+  webhook: Webhook;
+  secret: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+export type ReminderStatus = 'pending' | 'fired' | 'failed' | 'skipped';
+
+export interface Reminder {
+  id: string;
+  taskId: string;
+  // Absolute time, or computed from the task's dueDate when offsetMinutes is set
+  remindAt?: string;
+  offsetMinutes?: number;
+  channel: string;
+  status: ReminderStatus;
+  firedAt?: string;
+  error?: string;
+  createdAt: string;
+}
+
+export interface CreateReminderRequest {
+  remindAt?: string;
+  offsetMinutes?: number;
+  channel: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditOrigin {
+  // Set when the change was made through the API rather than by the server itself
+  actorId?: string;
+  apiKeyId?: string;
+  method?: string;
+  path?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface TaskAuditEntry {
+  id: string;
+  taskId: string;
+  action: AuditAction;
+  changes: Record<string, FieldChange>;
+  origin: AuditOrigin;
+  createdAt: string;
+}
+
+export type TaskStreamEventType = 'task.created' | 'task.updated' | 'task.toggled' | 'task.deleted' | 'task.restored';
+
+export interface TaskStreamEvent {
+  id: string;
+  userId: string;
+  type: TaskStreamEventType;
+  data: unknown;
+  createdAt: string;
+}
+
+export interface StreamToken {
+  token: string;
+  expiresAt: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      // Correlates the log entries of the request; echoed as X-Request-Id
+      requestId?: string;
+    }
+  }
 }
 
 export interface ApiResponse<T> {
@@ -40,14 +343,18 @@ export interface PaginationQuery {
 }
 
 export interface PaginationMeta {
-  page: number;
+  // Omitted in cursor mode, where pages are not numbered
+  page?: number;
   limit: number;
   total: number;
-  totalPages: number;
+  totalPages?: number;
   hasNextPage: boolean;
   hasPrevPage: boolean;
   nextPage?: number;
   prevPage?: number;
+  // Opaque cursors for keyset pagination, where supported
+  nextCursor?: string;
+  prevCursor?: string;
 }
 
 export interface PaginatedResponse<T> {
@@ -63,11 +370,64 @@ export interface PaginationOptions {
   maxLimit?: number;
 }
 
+export interface TaskSort {
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+}
+
+/**
+ * Position in a sorted task list: the sort value and id of the task the page
+ * starts after (`next`) or ends before (`prev`)
+ */
+export interface TaskCursor extends TaskSort {
+  value: string | number | null;
+  id: string;
+  direction: 'next' | 'prev';
+}
+
 export interface TaskFilters extends PaginationQuery {
   completed?: boolean;
   priority?: 'low' | 'medium' | 'high';
   dueDateFrom?: string;
   dueDateTo?: string;
+  categoryId?: string;
+  parentId?: string;
+  topLevel?: boolean;
+  tags?: string[];
+  tagMatch?: 'any' | 'all';
+  q?: string;
+  cursor?: string;
+}
+
+export interface EventFilters extends PaginationQuery {
+  categoryId?: string;
+  startDateFrom?: string;
+  startDateTo?: string;
+}
+
+export interface WebhookDeliveryFilters extends PaginationQuery {
+  status?: WebhookDeliveryStatus;
+  event?: WebhookEvent;
+}
+
+export interface AuditFilters extends PaginationQuery {
+  taskId?: string;
+  action?: AuditAction;
+  field?: string;
+  apiKeyId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface TrashedTask extends Task {
+  deletedAt: string;
+  // When the task will be permanently deleted, if trash retention is enabled
+  purgeAt?: string;
+}
+
+export interface CategoryFilters {
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
 }
 
 
@@ -0,0 +1,91 @@
+import jwt from 'jsonwebtoken';
+import { randomBytes } from 'crypto';
+import { AuthUser } from '../types';
+import { logger } from './logger';
+
+const DEFAULT_TOKEN_EXPIRY = '7d';
+// Stream tokens travel in URLs, so they are only good for opening a stream shortly after
+export const STREAM_TOKEN_EXPIRY_SECONDS = 60;
+const STREAM_TOKEN_PURPOSE = 'stream';
+
+let generatedSecret: string | undefined;
+
+/**
+ * Returns the secret used to sign bearer tokens. Outside production a random
+ * per-process secret is used when JWT_SECRET is unset, which invalidates all
+ * tokens on restart.
+ */
+export function getJwtSecret(): string {
+  if (process.env.JWT_SECRET) {
+    return process.env.JWT_SECRET;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+
+  if (!generatedSecret) {
+    generatedSecret = randomBytes(32).toString('hex');
+    logger.warn('JWT_SECRET is not set; using a temporary secret for this process');
+  }
+  return generatedSecret;
+}
+
+export function getTokenExpiry(): string {
+  return process.env.JWT_EXPIRES_IN || DEFAULT_TOKEN_EXPIRY;
+}
+
+/**
+ * Signs a bearer token identifying the given user
+ */
+export function signAuthToken(user: AuthUser): string {
+  return jwt.sign({ email: user.email }, getJwtSecret(), {
+    subject: user.id,
+    expiresIn: getTokenExpiry()
+  } as jwt.SignOptions);
+}
+
+/**
+ * Verifies a bearer token and returns the user it identifies, or null when
+ * the token is invalid or expired
+ */
+export function verifyAuthToken(token: string): AuthUser | null {
+  try {
+    const payload = jwt.verify(token, getJwtSecret()) as jwt.JwtPayload;
+    // Stream tokens are not login tokens
+    if (!payload.sub || payload.purpose !== undefined) {
+      return null;
+    }
+    return { id: payload.sub, email: payload.email };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Signs a short-lived token that can only open the event stream, for
+ * EventSource clients that have to pass their credential in the URL
+ */
+export function signStreamToken(user: AuthUser): string {
+  return jwt.sign({ email: user.email, purpose: STREAM_TOKEN_PURPOSE }, getJwtSecret(), {
+    subject: user.id,
+    expiresIn: STREAM_TOKEN_EXPIRY_SECONDS
+  });
+}
+
+/**
+ * Verifies a stream token and returns the user it identifies, with read
+ * access only, or null when the token is invalid, expired or not a stream
+ * token
+ */
+export function verifyStreamToken(token: string): AuthUser | null {
+  try {
+    const payload = jwt.verify(token, getJwtSecret()) as jwt.JwtPayload;
+    if (!payload.sub || payload.purpose !== STREAM_TOKEN_PURPOSE) {
+      return null;
+    }
+    return { id: payload.sub, email: payload.email, scopes: ['tasks:read'] };
+  } catch {
+    return null;
+  }
+}
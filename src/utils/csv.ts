@@ -0,0 +1,97 @@
+/**
+ * Minimal RFC 4180 CSV support: comma separated, double-quoted fields with
+ * `""` escapes, CRLF or LF line endings
+ */
+
+const NEEDS_QUOTING = /[",\r\n]|^\s|\s$/;
+
+export function formatCsvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = String(value);
+  return NEEDS_QUOTING.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRow(values: unknown[]): string {
+  return values.map(formatCsvField).join(',') + '\r\n';
+}
+
+/**
+ * Parses CSV text into rows of raw field values. Blank lines are skipped.
+ * Throws when a quoted field is never closed.
+ */
+export function parseCsv(source: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = source.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parses CSV text whose first row is a header into one record per row,
+ * keyed by header name
+ */
+export function parseCsvRecords(source: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(source);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(name => name.trim());
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = row[index] ?? '';
+    });
+    return record;
+  });
+}
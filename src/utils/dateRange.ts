@@ -0,0 +1,52 @@
+/**
+ * Date range helpers used by calendar views.
+ * All boundaries are computed in UTC and returned as ISO strings.
+ */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * Returns the range covering the UTC day that contains `date`
+ */
+export function getDayRange(date: Date = new Date()): DateRange {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000 - 1);
+
+  return {
+    start: start.toISOString(),
+    end: end.toISOString()
+  };
+}
+
+/**
+ * Returns the range covering the ISO week (Monday to Sunday) that contains `date`
+ */
+export function getWeekRange(date: Date = new Date()): DateRange {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  const start = new Date(Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate() - daysSinceMonday
+  ));
+  const end = new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000 - 1);
+
+  return {
+    start: start.toISOString(),
+    end: end.toISOString()
+  };
+}
+
+/**
+ * Returns the range covering the given month (1-12) of the given year
+ */
+export function getMonthRange(year: number, month: number): DateRange {
+  const start = new Date(Date.UTC(year, month - 1, 1));
+  const end = new Date(Date.UTC(year, month, 1) - 1);
+
+  return {
+    start: start.toISOString(),
+    end: end.toISOString()
+  };
+}
@@ -0,0 +1,45 @@
+import express from 'express';
+import { Task } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+/**
+ * Entity tags for optimistic concurrency on tasks. The tag is the task's
+ * version, which changes whenever the task or one of its subtasks does.
+ */
+
+export function getTaskETag(task: Task): string {
+  return `"${task.version}"`;
+}
+
+/**
+ * Sets the task's ETag on the response. For GET requests Express then
+ * answers a matching If-None-Match with 304 Not Modified.
+ */
+export function setTaskETag(res: express.Response, task: Task): void {
+  res.setHeader('ETag', getTaskETag(task));
+}
+
+// Clients must send If-Match on writes when REQUIRE_IF_MATCH=true
+const isIfMatchRequired = (): boolean => process.env.REQUIRE_IF_MATCH === 'true';
+
+/**
+ * Whether the request's If-Match header allows changing `task`. Tags are
+ * compared strongly, so weak (W/) tags never match. Throws 428 when the
+ * header is required but missing.
+ */
+export function checkIfMatch(req: express.Request, task: Task): boolean {
+  const header = req.header('If-Match');
+  if (!header) {
+    if (isIfMatchRequired()) {
+      throw createError('If-Match header is required', 428);
+    }
+    return true;
+  }
+
+  if (header.trim() === '*') {
+    return true;
+  }
+
+  const etag = getTaskETag(task);
+  return header.split(',').some(tag => tag.trim() === etag);
+}
@@ -0,0 +1,301 @@
+import { Task } from '../types';
+
+/**
+ * Minimal iCalendar (RFC 5545) support for exporting tasks as VTODO items
+ * and reading VTODO/VEVENT components back in
+ */
+
+export const ICAL_PRODUCT_ID = '-//Day Planner//Day Planner API//EN';
+
+const UID_DOMAIN = 'day-planner';
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalComponent {
+  type: string;
+  properties: ICalProperty[];
+}
+
+// Task priority <-> iCalendar PRIORITY (1 = highest, 9 = lowest, 0 = undefined)
+const PRIORITY_TO_ICAL: Record<Task['priority'], number> = {
+  high: 1,
+  medium: 5,
+  low: 9
+};
+
+export function icalPriorityToTaskPriority(value?: string): Task['priority'] {
+  const priority = Number(value);
+  if (!priority || Number.isNaN(priority)) {
+    return 'medium';
+  }
+  if (priority < 5) {
+    return 'high';
+  }
+  return priority === 5 ? 'medium' : 'low';
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (match, char: string) => {
+    return char === 'n' || char === 'N' ? '\n' : char;
+  });
+}
+
+/**
+ * Formats an ISO timestamp as a UTC DATE-TIME (e.g. 20240115T100000Z)
+ */
+export function formatDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Whether `timeZone` is an IANA time zone name known to the runtime
+ */
+export function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Milliseconds `timeZone` is ahead of UTC at the instant `time`
+const getTimeZoneOffset = (timeZone: string, time: number): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(new Date(time));
+  const field = (type: string): number => Number(parts.find(part => part.type === type)?.value);
+
+  const wallClock = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  return wallClock - Math.floor(time / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock time in `timeZone` (given as if it were UTC) to the
+ * actual UTC instant. Times skipped by a DST change move forward by the gap.
+ */
+const zonedTimeToUtc = (wallClock: number, timeZone: string): number => {
+  const guess = wallClock - getTimeZoneOffset(timeZone, wallClock);
+  const offset = getTimeZoneOffset(timeZone, guess);
+  const utc = wallClock - offset;
+  // Inside a gap no offset maps back to the wall-clock time
+  return getTimeZoneOffset(timeZone, utc) === offset ? utc : guess;
+};
+
+/**
+ * Parses a DATE or DATE-TIME value into an ISO string. UTC times end in Z;
+ * other times are read in `timeZone` (an IANA name). DATE values and UTC
+ * times need no zone. Returns null for malformed values, and for local
+ * times without a known zone.
+ */
+export function parseDateTime(value: string, timeZone?: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute = '00', second = '00', utc] = match;
+  const isLocalTime = hour !== undefined && !utc;
+  if (isLocalTime && (!timeZone || !isKnownTimeZone(timeZone))) {
+    return null;
+  }
+
+  const wallClock = Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hour || '00'), Number(minute), Number(second)
+  );
+  const date = new Date(isLocalTime ? zonedTimeToUtc(wallClock, timeZone!) : wallClock);
+
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Reads a DATE or DATE-TIME property into an ISO string, resolving its TZID
+ * parameter, or `defaultTimeZone` for floating times. Local times whose zone
+ * cannot be resolved are reported as errors rather than guessed.
+ */
+export function parseDateTimeProperty(
+  property: ICalProperty,
+  defaultTimeZone?: string
+): { value?: string; error?: string } {
+  // Globally unique TZIDs start with a slash
+  const tzid = property.params.TZID?.replace(/^\//, '');
+  const timeZone = tzid || defaultTimeZone;
+  const isLocalTime = /T\d{6}$/.test(property.value.trim());
+
+  if (isLocalTime && !timeZone) {
+    return { error: `${property.name} "${property.value}" has no time zone; pass the timezone query parameter` };
+  }
+  if (isLocalTime && !isKnownTimeZone(timeZone!)) {
+    return { error: `Unknown time zone "${timeZone}" in ${property.name}` };
+  }
+
+  const value = parseDateTime(property.value, timeZone);
+  return value ? { value } : { error: `Invalid ${property.name} value "${property.value}"` };
+}
+
+/**
+ * Folds a content line to 75 octets as required by RFC 5545
+ */
+export function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+const renderTask = (task: Task, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatDateTime(task.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(task.updatedAt)}`,
+    `SUMMARY:${escapeText(task.title)}`
+  ];
+
+  if (task.description) {
+    lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  }
+
+  if (task.dueDate) {
+    lines.push(`DUE:${formatDateTime(task.dueDate)}`);
+  }
+
+  lines.push(`PRIORITY:${PRIORITY_TO_ICAL[task.priority]}`);
+
+  if (task.completed) {
+    lines.push('STATUS:COMPLETED');
+    lines.push(`COMPLETED:${formatDateTime(task.updatedAt)}`);
+    lines.push('PERCENT-COMPLETE:100');
+  } else {
+    lines.push('STATUS:NEEDS-ACTION');
+  }
+
+  if (task.tags.length > 0) {
+    lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+  }
+
+  if (task.parentId) {
+    lines.push(`RELATED-TO;RELTYPE=PARENT:${task.parentId}@${UID_DOMAIN}`);
+  }
+
+  lines.push('END:VTODO');
+  return lines;
+};
+
+/**
+ * Renders tasks as a VCALENDAR document of VTODO components
+ */
+export function renderTasksCalendar(tasks: Task[], calendarName: string = 'Day Planner Tasks'): string {
+  const stamp = formatDateTime(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...tasks.flatMap(task => renderTask(task, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+const parseContentLine = (line: string): ICalProperty | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+/**
+ * Parses an iCalendar document and returns its components of the given
+ * types (nested components such as VALARM are ignored)
+ */
+export function parseCalendar(source: string, types: string[] = ['VTODO', 'VEVENT']): ICalComponent[] {
+  const lines = source
+    .replace(/\r\n[ \t]/g, '')
+    .replace(/\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(line => line.length > 0);
+
+  const components: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      stack.push({ type: property.value.toUpperCase(), properties: [] });
+    } else if (property.name === 'END') {
+      const component = stack.pop();
+      if (component && stack.length > 0 && types.includes(component.type)) {
+        components.push(component);
+      }
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  return components;
+}
+
+export function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find(property => property.name === name);
+}
@@ -0,0 +1,145 @@
+import { getCurrentRequest } from './requestContext';
+
+/**
+ * Structured logger. Every entry carries a timestamp, level and message plus
+ * optional fields, and the id of the request being handled, if any, so the
+ * lines of one request can be correlated.
+ *
+ * LOG_LEVEL sets the lowest level written (debug, info, warn, error or
+ * silent; default info). SQL statements are logged at debug. LOG_FORMAT is
+ * `json` for one JSON object per line or `pretty` for readable lines; it
+ * defaults to json in production and pretty otherwise.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+};
+
+// Field names whose values are never written to the log
+const SENSITIVE_FIELDS = new Set([
+  'password',
+  'passwordhash',
+  'secret',
+  'token',
+  'accesstoken',
+  'access_token',
+  'authorization',
+  'cookie',
+  'apikey',
+  'key',
+  'keyhash'
+]);
+
+const REDACTED = '[REDACTED]';
+
+// Objects nested deeper than this are not copied, so sensitive fields inside
+// them can never reach the log
+const MAX_REDACT_DEPTH = 5;
+const TRUNCATED = '[Truncated]';
+
+const getMinimumLevel = (): number => {
+  const configured = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel | 'silent';
+  return LEVELS[configured] ?? LEVELS.info;
+};
+
+const isPrettyFormat = (): boolean => {
+  const format = process.env.LOG_FORMAT || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty');
+  return format === 'pretty';
+};
+
+/**
+ * Copies `value` with sensitive fields replaced, errors turned into plain
+ * objects and objects nested too deeply to inspect replaced by a marker
+ */
+export const redact = (value: unknown, depth: number = 0): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth > MAX_REDACT_DEPTH) {
+    return TRUNCATED;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([name, fieldValue]) => [
+    name,
+    SENSITIVE_FIELDS.has(name.toLowerCase()) ? REDACTED : redact(fieldValue, depth + 1)
+  ]));
+};
+
+/**
+ * Masks credentials passed in the query string (?token=, ?access_token=, and
+ * API keys sent as ?key=, which are refused but still logged)
+ */
+export const redactUrl = (url: string): string => {
+  return url.replace(/([?&](?:key|token|access_token)=)[^&]*/gi, `$1${REDACTED}`);
+};
+
+const formatPretty = (entry: LogFields): string => {
+  const { time, level, msg, requestId, ...fields } = entry;
+  const details = Object.entries(fields)
+    .filter(([name]) => name !== 'error')
+    .map(([name, value]) => `${name}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  const error = fields.error as { stack?: string; message?: string } | undefined;
+
+  const line = [
+    `${time} ${String(level).toUpperCase().padEnd(5)}`,
+    requestId ? `[${requestId}]` : '',
+    msg,
+    details
+  ].filter(Boolean).join(' ');
+
+  return error ? `${line}\n${error.stack || error.message || JSON.stringify(error)}` : line;
+};
+
+const write = (level: LogLevel, msg: string, fields: LogFields = {}): void => {
+  if (LEVELS[level] < getMinimumLevel()) {
+    return;
+  }
+
+  const requestId = getCurrentRequest()?.requestId;
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(requestId && { requestId }),
+    ...(redact(fields) as LogFields)
+  };
+
+  const line = isPrettyFormat() ? formatPretty(entry) : JSON.stringify(entry);
+  if (LEVELS[level] >= LEVELS.warn) {
+    process.stderr.write(`${line}\n`);
+  } else {
+    process.stdout.write(`${line}\n`);
+  }
+};
+
+/**
+ * Milliseconds elapsed since `startedAt` (from process.hrtime.bigint()),
+ * rounded to microseconds
+ */
+export const getDurationMs = (startedAt: bigint): number => {
+  return Math.round(Number(process.hrtime.bigint() - startedAt) / 1e3) / 1e3;
+};
+
+export const isLogLevelEnabled = (level: LogLevel): boolean => LEVELS[level] >= getMinimumLevel();
+
+export const logger = {
+  debug: (msg: string, fields?: LogFields) => write('debug', msg, fields),
+  info: (msg: string, fields?: LogFields) => write('info', msg, fields),
+  warn: (msg: string, fields?: LogFields) => write('warn', msg, fields),
+  error: (msg: string, fields?: LogFields) => write('error', msg, fields)
+};
@@ -0,0 +1,42 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+/**
+ * Outgoing email over SMTP, configured with the SMTP_* environment variables
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+let transporter: Transporter | null = null;
+
+export function isMailConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST);
+}
+
+const getTransporter = (): Transporter => {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined
+    });
+  }
+  return transporter;
+};
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!isMailConfigured()) {
+    throw new Error('Email is not configured (set SMTP_HOST)');
+  }
+
+  await getTransporter().sendMail({
+    from: process.env.MAIL_FROM || 'Day Planner <no-reply@planner.local>',
+    ...message
+  });
+}
@@ -0,0 +1,194 @@
+/**
+ * In-process metrics rendered in the Prometheus text exposition format
+ * (version 0.0.4). Metrics are registered once at module load and updated as
+ * requests and queries complete; gauges are set when /metrics is scraped.
+ * Values live in memory, so each server process reports its own.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Metric {
+  name: string;
+  help: string;
+  type: MetricType;
+  render: () => string[];
+}
+
+// Seconds; covers fast SQLite statements up to slow exports
+const DEFAULT_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const registry: Metric[] = [];
+
+const escapeLabelValue = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+};
+
+const formatLabels = (labels: MetricLabels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatValue = (value: number): string => {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  if (value === -Infinity) {
+    return '-Inf';
+  }
+  return Number.isNaN(value) ? 'NaN' : String(value);
+};
+
+// Series are keyed by their label values in the order the metric declares them
+const getSeriesKey = (labelNames: string[], labels: MetricLabels): string => {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ''));
+};
+
+const pickLabels = (labelNames: string[], labels: MetricLabels): MetricLabels => {
+  return Object.fromEntries(labelNames.map(name => [name, labels[name] ?? '']));
+};
+
+const register = (metric: Metric): void => {
+  if (registry.some(existing => existing.name === metric.name)) {
+    throw new Error(`Metric ${metric.name} is already registered`);
+  }
+  registry.push(metric);
+};
+
+export const createCounter = (name: string, help: string, labelNames: string[] = []) => {
+  const series = new Map<string, { labels: MetricLabels; value: number }>();
+
+  register({
+    name,
+    help,
+    type: 'counter',
+    render: () => [...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`)
+  });
+
+  return {
+    inc: (labels: MetricLabels = {}, amount: number = 1): void => {
+      const key = getSeriesKey(labelNames, labels);
+      const existing = series.get(key);
+      if (existing) {
+        existing.value += amount;
+      } else {
+        series.set(key, { labels: pickLabels(labelNames, labels), value: amount });
+      }
+    }
+  };
+};
+
+export const createGauge = (name: string, help: string, labelNames: string[] = []) => {
+  const series = new Map<string, { labels: MetricLabels; value: number }>();
+
+  register({
+    name,
+    help,
+    type: 'gauge',
+    render: () => [...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`)
+  });
+
+  return {
+    set: (labels: MetricLabels, value: number): void => {
+      series.set(getSeriesKey(labelNames, labels), { labels: pickLabels(labelNames, labels), value });
+    }
+  };
+};
+
+export const createHistogram = (
+  name: string,
+  help: string,
+  labelNames: string[] = [],
+  buckets: number[] = DEFAULT_BUCKETS
+) => {
+  const series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+
+  register({
+    name,
+    help,
+    type: 'histogram',
+    render: () => [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...buckets.map((bound, index) => `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`),
+      `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+      `${name}_count${formatLabels(labels)} ${count}`
+    ])
+  });
+
+  return {
+    observe: (labels: MetricLabels, value: number): void => {
+      const key = getSeriesKey(labelNames, labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels: pickLabels(labelNames, labels), counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      // Buckets are cumulative: each counts every observation up to its bound
+      buckets.forEach((bound, index) => {
+        if (value <= bound) {
+          entry!.counts[index] += 1;
+        }
+      });
+      entry.sum += value;
+      entry.count += 1;
+    }
+  };
+};
+
+/**
+ * Seconds elapsed since `startedAt` (from process.hrtime.bigint())
+ */
+export const getDurationSeconds = (startedAt: bigint): number => {
+  return Number(process.hrtime.bigint() - startedAt) / 1e9;
+};
+
+export const httpRequestsTotal = createCounter(
+  'http_requests_total',
+  'HTTP requests completed, by method, route template and status code',
+  ['method', 'route', 'status']
+);
+
+export const httpRequestDuration = createHistogram(
+  'http_request_duration_seconds',
+  'Time from receiving an HTTP request to finishing the response',
+  ['method', 'route', 'status']
+);
+
+export const dbQueryDuration = createHistogram(
+  'db_query_duration_seconds',
+  'Time taken by database statements, by SQL operation and outcome',
+  ['operation', 'outcome']
+);
+
+export const tasksGauge = createGauge(
+  'tasks',
+  'Tasks not in the trash, across all users, by completion and priority',
+  ['completed', 'priority']
+);
+
+const processStartTime = createGauge('process_start_time_seconds', 'Start time of the process since the Unix epoch');
+const processMemory = createGauge('process_resident_memory_bytes', 'Resident memory size of the process');
+const processHeapUsed = createGauge('nodejs_heap_used_bytes', 'V8 heap in use');
+
+const collectProcessMetrics = (): void => {
+  const memory = process.memoryUsage();
+  processStartTime.set({}, Math.round(Date.now() / 1000 - process.uptime()));
+  processMemory.set({}, memory.rss);
+  processHeapUsed.set({}, memory.heapUsed);
+};
+
+/**
+ * Every registered metric in the Prometheus text format
+ */
+export const renderMetrics = (): string => {
+  collectProcessMetrics();
+
+  return registry
+    .map(metric => [
+      `# HELP ${metric.name} ${metric.help}`,
+      `# TYPE ${metric.name} ${metric.type}`,
+      ...metric.render()
+    ].join('\n'))
+    .join('\n') + '\n';
+};
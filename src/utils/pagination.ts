@@ -66,6 +66,43 @@ export function createPaginatedResponse<T>(
   };
 }
 
+/**
+ * Creates pagination metadata for cursor (keyset) pagination
+ */
+export function createCursorPaginationMeta(
+  limit: number,
+  total: number,
+  cursors: { nextCursor?: string; prevCursor?: string }
+): PaginationMeta {
+  return {
+    limit,
+    total,
+    hasNextPage: Boolean(cursors.nextCursor),
+    hasPrevPage: Boolean(cursors.prevCursor),
+    nextCursor: cursors.nextCursor,
+    prevCursor: cursors.prevCursor
+  };
+}
+
+/**
+ * Encodes a cursor position as an opaque URL-safe string
+ */
+export function encodeCursor(position: object): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor created by `encodeCursor`, or returns null if it is not one
+ */
+export function decodeCursor(cursor: string): Record<string, any> | null {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return position && typeof position === 'object' && !Array.isArray(position) ? position : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Calculates SQL OFFSET for pagination
  */
@@ -0,0 +1,153 @@
+import { RecurrenceRule, Weekday } from '../types';
+
+/**
+ * Weekday codes in the order returned by Date#getUTCDay
+ */
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Upper bound on occurrences produced by a single expansion
+ */
+export const MAX_OCCURRENCES = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Occurrence {
+  index: number;
+  dueDate: string;
+}
+
+const addUTCDays = (date: Date, days: number): Date => {
+  return new Date(date.getTime() + days * DAY_MS);
+};
+
+/**
+ * Start of the ISO week (Monday 00:00 UTC) containing `date`
+ */
+const startOfUTCWeek = (date: Date): Date => {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday));
+};
+
+/**
+ * Adds whole months/years while keeping the day of month and time of day.
+ * Returns null when the target month has no such day (e.g. 31 February).
+ */
+const addUTCMonthsStrict = (date: Date, months: number): Date | null => {
+  const result = new Date(Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + months,
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    date.getUTCMilliseconds()
+  ));
+
+  return result.getUTCDate() === date.getUTCDate() ? result : null;
+};
+
+/**
+ * Computes the occurrence that follows `current` under `rule`, ignoring the
+ * `until` and `count` limits. `current` is assumed to be a valid occurrence
+ * itself, so it anchors the day of month and week alignment. Returns null
+ * when the rule can never produce another date.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, current: Date): Date | null {
+  const interval = rule.interval || 1;
+  const byWeekday = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : undefined;
+
+  switch (rule.frequency) {
+    case 'daily': {
+      let candidate = addUTCDays(current, interval);
+      if (!byWeekday) {
+        return candidate;
+      }
+      // The weekday pattern repeats after at most seven steps
+      for (let step = 0; step < 7; step++) {
+        if (byWeekday.includes(WEEKDAYS[candidate.getUTCDay()])) {
+          return candidate;
+        }
+        candidate = addUTCDays(candidate, interval);
+      }
+      return null;
+    }
+
+    case 'weekly': {
+      if (!byWeekday) {
+        return addUTCDays(current, 7 * interval);
+      }
+
+      const anchorWeek = startOfUTCWeek(current).getTime();
+      let candidate = addUTCDays(current, 1);
+      for (;;) {
+        const weeksApart = Math.round((startOfUTCWeek(candidate).getTime() - anchorWeek) / (7 * DAY_MS));
+        if (weeksApart % interval === 0 && byWeekday.includes(WEEKDAYS[candidate.getUTCDay()])) {
+          return candidate;
+        }
+        candidate = addUTCDays(candidate, 1);
+      }
+    }
+
+    case 'monthly':
+    case 'yearly': {
+      const step = rule.frequency === 'monthly' ? interval : interval * 12;
+      // Skip months that lack the anchor day, as RFC 5545 does
+      for (let multiple = 1; ; multiple++) {
+        const candidate = addUTCMonthsStrict(current, step * multiple);
+        if (candidate) {
+          return candidate;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Whether an occurrence with the given 1-based index and date is still
+ * inside the rule's `until`/`count` limits
+ */
+export function isWithinLimits(rule: RecurrenceRule, index: number, date: Date): boolean {
+  if (rule.count !== undefined && index > rule.count) {
+    return false;
+  }
+
+  if (rule.until && date.getTime() > new Date(rule.until).getTime()) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Expands the occurrences of a series that falls within [from, to], starting
+ * from a known occurrence (`start`, with 1-based `startIndex`).
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  start: Date,
+  startIndex: number,
+  from: Date,
+  to: Date,
+  max: number = MAX_OCCURRENCES
+): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  let current: Date | null = start;
+  let index = startIndex;
+
+  while (
+    current &&
+    occurrences.length < max &&
+    current.getTime() <= to.getTime() &&
+    isWithinLimits(rule, index, current)
+  ) {
+    if (current.getTime() >= from.getTime()) {
+      occurrences.push({ index, dueDate: current.toISOString() });
+    }
+
+    current = getNextOccurrence(rule, current);
+    index++;
+  }
+
+  return occurrences;
+}
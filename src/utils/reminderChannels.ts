@@ -0,0 +1,65 @@
+import { Reminder, Task } from '../types';
+import { enqueueWebhookEvent } from '../models/Webhook';
+import { sendMail } from './mailer';
+import { logger } from './logger';
+
+/**
+ * Registry of the ways a reminder can be delivered. A channel throws to
+ * mark the reminder as failed.
+ */
+
+export interface ReminderNotification {
+  reminder: Reminder;
+  task: Task;
+  userId: string;
+  email: string;
+}
+
+export type ReminderChannel = (notification: ReminderNotification) => Promise<void>;
+
+const channels = new Map<string, ReminderChannel>();
+
+export function registerReminderChannel(name: string, channel: ReminderChannel): void {
+  channels.set(name, channel);
+}
+
+export function getReminderChannel(name: string): ReminderChannel | undefined {
+  return channels.get(name);
+}
+
+export function getReminderChannelNames(): string[] {
+  return [...channels.keys()];
+}
+
+const describeDue = (task: Task): string => {
+  return task.dueDate ? `due ${task.dueDate}` : 'no due date';
+};
+
+registerReminderChannel('log', async ({ reminder, task, email }) => {
+  logger.info('Reminder due', { reminderId: reminder.id, taskId: task.id, email, title: task.title, due: describeDue(task) });
+});
+
+registerReminderChannel('webhook', async ({ reminder, task, userId }) => {
+  const queued = await enqueueWebhookEvent(userId, 'task.reminder', { task, reminder });
+  if (queued === 0) {
+    throw new Error('No active webhook subscribes to task.reminder');
+  }
+});
+
+registerReminderChannel('email', async ({ task, email }) => {
+  const lines = [
+    `Reminder: ${task.title}`,
+    '',
+    `Priority: ${task.priority}`,
+    `Due: ${task.dueDate || 'no due date'}`
+  ];
+  if (task.description) {
+    lines.push('', task.description);
+  }
+
+  await sendMail({
+    to: email,
+    subject: `Reminder: ${task.title}`,
+    text: lines.join('\n')
+  });
+});
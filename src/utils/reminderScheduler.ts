@@ -0,0 +1,99 @@
+import { findDueReminders, claimReminder, recordReminderFailure } from '../models/Reminder';
+import { findTaskById } from '../models/Task';
+import { getReminderChannel } from './reminderChannels';
+import { logger } from './logger';
+
+/**
+ * Background loop that dispatches reminders once their time has come.
+ * Each reminder is claimed in the database before it is sent, so it fires
+ * at most once even when the server restarts mid-run.
+ */
+
+const POLL_INTERVAL_MS = 15 * 1000;
+const BATCH_SIZE = 50;
+
+let pollTimer: NodeJS.Timeout | null = null;
+// The run in progress, which stopping the scheduler waits for
+let currentRun: Promise<number> | null = null;
+
+const dispatchDueReminders = async (): Promise<number> => {
+  let fired = 0;
+  try {
+    for (;;) {
+      const dueReminders = await findDueReminders(new Date().toISOString(), BATCH_SIZE);
+
+      for (const { reminder, userId, email } of dueReminders) {
+        const task = await findTaskById(userId, reminder.taskId);
+        // Reminders for tasks that are already done are not sent
+        const status = task && !task.completed ? 'fired' : 'skipped';
+        if (!await claimReminder(reminder.id, status) || !task || status === 'skipped') {
+          continue;
+        }
+
+        const channel = getReminderChannel(reminder.channel);
+        try {
+          if (!channel) {
+            throw new Error(`Unknown reminder channel "${reminder.channel}"`);
+          }
+          await channel({ reminder: { ...reminder, status }, task, userId, email });
+          fired++;
+        } catch (error: any) {
+          logger.error('Reminder failed', { reminderId: reminder.id, error });
+          await recordReminderFailure(reminder.id, String(error?.message || error));
+        }
+      }
+
+      if (dueReminders.length < BATCH_SIZE) {
+        break;
+      }
+    }
+  } catch (error) {
+    logger.error('Reminder run failed', { error });
+  }
+
+  return fired;
+};
+
+/**
+ * Dispatches every due reminder. Returns the number fired; calls made while
+ * a previous run is still in progress do nothing.
+ */
+export async function processDueReminders(): Promise<number> {
+  if (currentRun) {
+    return 0;
+  }
+
+  currentRun = dispatchDueReminders();
+  try {
+    return await currentRun;
+  } finally {
+    currentRun = null;
+  }
+}
+
+/**
+ * Starts polling for due reminders, catching up on any that came due while
+ * the server was down
+ */
+export function startReminderScheduler(intervalMs: number = POLL_INTERVAL_MS): void {
+  if (pollTimer) {
+    return;
+  }
+
+  void processDueReminders();
+  pollTimer = setInterval(() => {
+    void processDueReminders();
+  }, intervalMs);
+  pollTimer.unref();
+}
+
+/**
+ * Stops polling and resolves once any run in progress has finished
+ */
+export async function stopReminderScheduler(): Promise<void> {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  await currentRun;
+}
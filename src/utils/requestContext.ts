@@ -0,0 +1,53 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { Request, Response, NextFunction } from 'express';
+import { AuditOrigin } from '../types';
+
+/**
+ * Keeps the current request available to code that is not handed it, such as
+ * the models recording who made a change
+ */
+
+const requestStorage = new AsyncLocalStorage<Request>();
+
+// Incoming X-Request-Id values are kept when they look like an id
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives the request an id, taken from the X-Request-Id header sent by the
+ * client or a proxy or generated, and echoes it in the response
+ */
+export const assignRequestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.header('X-Request-Id');
+  req.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : uuidv4();
+  res.setHeader('X-Request-Id', req.requestId);
+  next();
+};
+
+export const bindRequestContext = (req: Request, res: Response, next: NextFunction) => {
+  requestStorage.run(req, next);
+};
+
+export function getCurrentRequest(): Request | undefined {
+  return requestStorage.getStore();
+}
+
+/**
+ * Describes where the current change comes from. Empty outside a request,
+ * e.g. for changes made by background jobs.
+ */
+export function getRequestOrigin(): AuditOrigin {
+  const req = getCurrentRequest();
+  if (!req) {
+    return {};
+  }
+
+  return {
+    actorId: req.user?.id,
+    apiKeyId: req.user?.apiKeyId,
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    ip: req.ip,
+    userAgent: req.get('user-agent')
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Marker strings wrapped around matched terms in highlights and snippets
+ */
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+/**
+ * Private-use characters FTS5 puts around matches. The text between them is
+ * user content, so it is HTML-escaped before the markers become <mark> tags.
+ */
+export const MATCH_START = '\uE000';
+export const MATCH_END = '\uE001';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, character => HTML_ESCAPES[character]);
+}
+
+/**
+ * Turns FTS5 highlight() or snippet() output into HTML: the text is escaped
+ * and only the match markers become <mark> tags
+ */
+export function formatHighlight(text: string): string {
+  return escapeHtml(text)
+    .split(MATCH_START).join(HIGHLIGHT_START)
+    .split(MATCH_END).join(HIGHLIGHT_END);
+}
+
+/**
+ * Converts a user search string into a safe FTS5 MATCH expression.
+ *
+ * Supported syntax:
+ * - `dentist appointment` - both words must appear (in any order)
+ * - `"dentist appointment"` - exact phrase
+ * - `dent*` - prefix match
+ *
+ * Every term is quoted, so FTS5 operators and column filters typed by the
+ * user are treated as plain text. Returns null when nothing searchable remains.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const terms: string[] = [];
+  const pattern = /"([^"]*)"(\*?)|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const [, phrase, phrasePrefix, word] = match;
+    const raw = phrase !== undefined ? phrase : word;
+    const isPrefix = phrase !== undefined ? phrasePrefix === '*' : word.endsWith('*');
+    const text = raw.replace(/["*]/g, ' ').trim();
+
+    if (text) {
+      terms.push(`"${text}"${isPrefix ? '*' : ''}`);
+    }
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
@@ -0,0 +1,73 @@
+import { Server } from 'http';
+import { logger } from './logger';
+import { closeTaskStreams } from './taskStream';
+
+/**
+ * Graceful shutdown on SIGTERM and SIGINT: the server stops accepting
+ * connections and reports itself not ready, open event streams are ended,
+ * and in-flight requests get up to SHUTDOWN_TIMEOUT_MS (default 10000) to
+ * finish before remaining connections are dropped. `cleanup` then releases
+ * resources such as the database client. A second signal exits immediately.
+ */
+
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10 * 1000;
+
+let shuttingDown = false;
+
+export const isShuttingDown = (): boolean => shuttingDown;
+
+export const getShutdownTimeoutMs = (): number => {
+  const configured = Number(process.env.SHUTDOWN_TIMEOUT_MS ?? DEFAULT_SHUTDOWN_TIMEOUT_MS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_SHUTDOWN_TIMEOUT_MS;
+};
+
+/**
+ * Resolves once every connection has closed, or false after the timeout
+ */
+const drainConnections = (server: Server, timeoutMs: number): Promise<boolean> => {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(false), timeoutMs);
+    timer.unref();
+
+    server.close(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+    // Keep-alive connections with no request in progress would hold the server open
+    server.closeIdleConnections();
+  });
+};
+
+const shutdown = async (server: Server, signal: NodeJS.Signals, cleanup: () => Promise<void>): Promise<void> => {
+  if (shuttingDown) {
+    logger.warn('Shutdown already in progress; exiting immediately', { signal });
+    process.exit(1);
+  }
+  shuttingDown = true;
+
+  const timeoutMs = getShutdownTimeoutMs();
+  logger.info('Shutting down', { signal, timeoutMs });
+
+  closeTaskStreams();
+  if (!await drainConnections(server, timeoutMs)) {
+    logger.warn('Requests still in progress after shutdown timeout; closing their connections');
+    server.closeAllConnections();
+  }
+
+  try {
+    await cleanup();
+    logger.info('Shutdown complete');
+    process.exit(0);
+  } catch (error) {
+    logger.error('Failed to shut down cleanly', { error });
+    process.exit(1);
+  }
+};
+
+export const handleShutdownSignals = (server: Server, cleanup: () => Promise<void>): void => {
+  (['SIGTERM', 'SIGINT'] as NodeJS.Signals[]).forEach(signal => {
+    process.on(signal, () => {
+      void shutdown(server, signal, cleanup);
+    });
+  });
+};
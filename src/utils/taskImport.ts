@@ -0,0 +1,127 @@
+import { createTask, findTaskById, updateTask } from '../models/Task';
+import { findCategoryById } from '../models/Category';
+import { withTransaction } from '../database/init';
+import { publishTaskEvent } from './taskStream';
+import { createTaskSchema } from './validation';
+import { TaskImportRow } from './taskTransfer';
+import { Task } from '../types';
+
+/**
+ * Creates tasks from import rows (CSV, NDJSON or iCalendar) in a single
+ * transaction. Open event streams hear about the new tasks only once the
+ * transaction has committed.
+ */
+
+export interface TaskImportOptions {
+  // Validate every row but keep nothing
+  dryRun?: boolean;
+  // Commit the rows that import cleanly and report the rest, rather than
+  // keeping nothing unless every row imports
+  skipInvalid?: boolean;
+}
+
+export interface TaskImportOutcome {
+  committed: boolean;
+  tasks: Task[];
+  errors: { row: number; reason: string }[];
+}
+
+/**
+ * Validates and creates one imported row. Parents imported from the same
+ * file are looked up by their exported id.
+ */
+const importTaskRow = async (
+  userId: string,
+  row: TaskImportRow,
+  importedIds: Map<string, string>
+): Promise<{ task?: Task; reason?: string }> => {
+  if (row.error || !row.data) {
+    return { reason: row.error || 'Row is empty' };
+  }
+
+  const data = { ...row.data };
+  if (typeof data.parentId === 'string' && importedIds.has(data.parentId)) {
+    data.parentId = importedIds.get(data.parentId);
+  }
+
+  const { error, value } = createTaskSchema.validate(data);
+  if (error) {
+    return { reason: error.details[0].message };
+  }
+
+  if (value.parentId && !(await findTaskById(userId, value.parentId))) {
+    return { reason: 'Parent task not found' };
+  }
+
+  if (value.categoryId && !(await findCategoryById(userId, value.categoryId))) {
+    return { reason: 'Category not found' };
+  }
+
+  try {
+    const created = await createTask(userId, value);
+    const task = row.completed ? await updateTask(userId, created.id, { completed: true }) : created;
+    if (row.sourceId) {
+      importedIds.set(row.sourceId, created.id);
+    }
+    return { task: task || created };
+  } catch (error: any) {
+    if (String(error?.message).includes('SQLITE_CONSTRAINT_FOREIGNKEY')) {
+      return { reason: 'Invalid reference to related resource' };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Puts rows whose parent is another row of the file after that row, so
+ * parents are created first whatever order the file lists them in (exports
+ * list the newest tasks, often subtasks, first). Rows keep their numbers.
+ */
+const orderParentsFirst = (rows: TaskImportRow[]): TaskImportRow[] => {
+  const pending = new Set(rows.map(row => row.sourceId).filter(Boolean));
+  const ordered: TaskImportRow[] = [];
+  let remaining = rows;
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(row => !pending.has(row.data?.parentId as string));
+    // Rows left in a cycle go last and fail on their missing parent
+    const batch = ready.length > 0 ? ready : remaining;
+    const done = new Set(batch);
+    batch.forEach(row => pending.delete(row.sourceId));
+    ordered.push(...batch);
+    remaining = remaining.filter(row => !done.has(row));
+  }
+
+  return ordered;
+};
+
+export const importTasks = async (
+  userId: string,
+  rows: TaskImportRow[],
+  options: TaskImportOptions = {}
+): Promise<TaskImportOutcome> => {
+  const outcome = await withTransaction(async (): Promise<TaskImportOutcome> => {
+    const importedIds = new Map<string, string>();
+    const tasks: Task[] = [];
+    const errors: TaskImportOutcome['errors'] = [];
+
+    for (const row of orderParentsFirst(rows)) {
+      const { task, reason } = await importTaskRow(userId, row, importedIds);
+      if (task) {
+        tasks.push(task);
+      } else {
+        errors.push({ row: row.row, reason: reason! });
+      }
+    }
+    errors.sort((a, b) => a.row - b.row);
+
+    const committed = !options.dryRun && (options.skipInvalid || errors.length === 0);
+    return { committed, tasks, errors };
+  }, result => result.committed);
+
+  if (outcome.committed) {
+    outcome.tasks.forEach(task => publishTaskEvent(userId, 'task.created', { task }));
+  }
+
+  return outcome;
+};
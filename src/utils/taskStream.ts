@@ -0,0 +1,101 @@
+import { EventEmitter } from 'events';
+import { TaskStreamEvent, TaskStreamEventType } from '../types';
+
+/**
+ * In-process publish/subscribe for task changes, feeding the SSE stream.
+ * The most recent events are kept so reconnecting clients can resume from
+ * their Last-Event-ID.
+ */
+
+// Number of events retained for resuming, across all users
+export const STREAM_LOG_SIZE = 1000;
+
+// Event ids are `<epoch>.<sequence>`; the epoch changes on every restart so
+// ids issued by a previous process are recognised as unresumable
+const STREAM_EPOCH = Date.now().toString(36);
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// A symbol cannot collide with the user ids events are emitted under
+const STREAMS_CLOSING_EVENT = Symbol('streamsClosing');
+
+const eventLog: TaskStreamEvent[] = [];
+let sequence = 0;
+
+const parseSequence = (eventId: string): number | null => {
+  const [epoch, value] = eventId.split('.');
+  const parsed = Number(value);
+  return epoch === STREAM_EPOCH && Number.isInteger(parsed) && parsed >= 0 && parsed <= sequence ? parsed : null;
+};
+
+/**
+ * Records a change to one of the user's tasks and pushes it to that user's
+ * open streams
+ */
+export function publishTaskEvent(userId: string, type: TaskStreamEventType, data: unknown): TaskStreamEvent {
+  sequence++;
+  const event: TaskStreamEvent = {
+    id: `${STREAM_EPOCH}.${sequence}`,
+    userId,
+    type,
+    data,
+    createdAt: new Date().toISOString()
+  };
+
+  eventLog.push(event);
+  if (eventLog.length > STREAM_LOG_SIZE) {
+    eventLog.shift();
+  }
+
+  emitter.emit(userId, event);
+  return event;
+}
+
+/**
+ * Calls `listener` for every event published for the user. Returns a
+ * function that removes the listener.
+ */
+export function subscribeToTaskEvents(userId: string, listener: (event: TaskStreamEvent) => void): () => void {
+  emitter.on(userId, listener);
+  return () => {
+    emitter.off(userId, listener);
+  };
+}
+
+/**
+ * The user's events published after `lastEventId`, or null when the client
+ * cannot resume (the id is unknown, from before a restart, or older than the
+ * retained log) and should reload its data instead
+ */
+export function getTaskEventsSince(userId: string, lastEventId: string): TaskStreamEvent[] | null {
+  const lastSequence = parseSequence(lastEventId);
+  if (lastSequence === null) {
+    return null;
+  }
+
+  const oldestSequence = sequence - eventLog.length + 1;
+  if (lastSequence < oldestSequence - 1) {
+    return null;
+  }
+
+  return eventLog.slice(lastSequence - oldestSequence + 1).filter(event => event.userId === userId);
+}
+
+/**
+ * Calls `listener` when open streams are being closed because the server is
+ * shutting down. Returns a function that removes the listener.
+ */
+export function onTaskStreamsClosing(listener: () => void): () => void {
+  emitter.on(STREAMS_CLOSING_EVENT, listener);
+  return () => {
+    emitter.off(STREAMS_CLOSING_EVENT, listener);
+  };
+}
+
+/**
+ * Ends every open stream so clients reconnect, e.g. to another instance
+ */
+export function closeTaskStreams(): void {
+  emitter.emit(STREAMS_CLOSING_EVENT);
+}
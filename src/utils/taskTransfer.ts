@@ -0,0 +1,163 @@
+import { Task } from '../types';
+import { formatCsvRow, parseCsvRecords } from './csv';
+
+/**
+ * Column order used for CSV exports. Imports accept any subset of these
+ * columns in any order; read-only columns such as `createdAt` are ignored.
+ */
+export const TASK_CSV_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'completed',
+  'priority',
+  'dueDate',
+  'categoryId',
+  'parentId',
+  'tags',
+  'recurrence',
+  'createdAt',
+  'updatedAt'
+] as const;
+
+// Tags are stored in a single CSV cell separated by semicolons
+const TAG_SEPARATOR = ';';
+
+export type TaskImportFormat = 'csv' | 'ndjson';
+
+/**
+ * A single row of an import file, mapped onto task fields but not yet
+ * validated. `sourceId` is the row's exported `id`, used to re-link subtasks
+ * to parents imported from the same file.
+ */
+export interface TaskImportRow {
+  row: number;
+  sourceId?: string;
+  completed: boolean;
+  data?: Record<string, unknown>;
+  error?: string;
+}
+
+const IMPORTABLE_FIELDS = ['title', 'description', 'priority', 'dueDate', 'categoryId', 'parentId', 'tags', 'recurrence'];
+
+export function formatTaskCsvHeader(): string {
+  return formatCsvRow([...TASK_CSV_COLUMNS]);
+}
+
+export function formatTaskCsvRow(task: Task): string {
+  return formatCsvRow([
+    task.id,
+    task.title,
+    task.description,
+    task.completed,
+    task.priority,
+    task.dueDate,
+    task.categoryId,
+    task.parentId,
+    task.tags.join(TAG_SEPARATOR),
+    task.recurrence ? JSON.stringify(task.recurrence) : undefined,
+    task.createdAt,
+    task.updatedAt
+  ]);
+}
+
+export function formatTaskNdjsonLine(task: Task): string {
+  return JSON.stringify(task) + '\n';
+}
+
+const parseCompleted = (value: unknown): boolean | null => {
+  if (value === undefined || value === null || value === '' || value === false || value === 0) {
+    return false;
+  }
+  if (value === true || value === 1) {
+    return true;
+  }
+  const text = String(value).trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(text)) {
+    return true;
+  }
+  if (['false', '0', 'no'].includes(text)) {
+    return false;
+  }
+  return null;
+};
+
+const toImportRow = (row: number, source: Record<string, unknown>): TaskImportRow => {
+  const completed = parseCompleted(source.completed);
+  if (completed === null) {
+    return { row, completed: false, error: `Invalid completed value "${source.completed}"` };
+  }
+
+  const data: Record<string, unknown> = {};
+  for (const field of IMPORTABLE_FIELDS) {
+    if (source[field] !== undefined && source[field] !== null) {
+      data[field] = source[field];
+    }
+  }
+
+  return {
+    row,
+    sourceId: typeof source.id === 'string' && source.id ? source.id : undefined,
+    completed,
+    data
+  };
+};
+
+const csvRecordToImportRow = (row: number, record: Record<string, string>): TaskImportRow => {
+  const source: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(record)) {
+    if (value.trim() !== '') {
+      source[column] = value;
+    }
+  }
+
+  if (typeof source.tags === 'string') {
+    source.tags = source.tags.split(TAG_SEPARATOR).map(tag => tag.trim()).filter(Boolean);
+  }
+
+  if (typeof source.recurrence === 'string') {
+    try {
+      source.recurrence = JSON.parse(source.recurrence);
+    } catch {
+      return { row, completed: false, error: 'recurrence must be a JSON object' };
+    }
+  }
+
+  return toImportRow(row, source);
+};
+
+/**
+ * Splits an import file into rows. CSV rows are numbered from 1 after the
+ * header, NDJSON rows by their line in the file; blank lines are skipped.
+ * Throws when the file as a whole cannot be read.
+ */
+export function parseTaskImport(source: string, format: TaskImportFormat): TaskImportRow[] {
+  if (format === 'csv') {
+    return parseCsvRecords(source).map((record, index) => csvRecordToImportRow(index + 1, record));
+  }
+
+  const rows: TaskImportRow[] = [];
+  source.split(/\r?\n/).forEach((text, index) => {
+    if (!text.trim()) {
+      return;
+    }
+
+    const row = index + 1;
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      rows.push({ row, completed: false, error: 'Invalid JSON' });
+      return;
+    }
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      rows.push({ row, completed: false, error: 'Each line must be a JSON object' });
+      return;
+    }
+
+    rows.push(toImportRow(row, value as Record<string, unknown>));
+  });
+
+  return rows;
+}
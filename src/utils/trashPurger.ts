@@ -0,0 +1,84 @@
+import { purgeTasksDeletedBefore } from '../models/Task';
+import { logger } from './logger';
+
+/**
+ * Background loop that permanently deletes tasks which have been in the
+ * trash for longer than the retention period (TRASH_RETENTION_DAYS, default
+ * 30; 0 keeps trashed tasks until they are deleted by hand).
+ */
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+// The purge in progress, which stopping the purger waits for
+let currentPurge: Promise<number> | null = null;
+
+export function getTrashRetentionDays(): number {
+  const configured = Number(process.env.TRASH_RETENTION_DAYS ?? DEFAULT_RETENTION_DAYS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * When a task trashed at `deletedAt` will be purged, or undefined when
+ * retention is disabled
+ */
+export function getPurgeAt(deletedAt: string): string | undefined {
+  const retentionDays = getTrashRetentionDays();
+  if (retentionDays === 0) {
+    return undefined;
+  }
+  return new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+const purgeTasksPastRetention = async (retentionDays: number): Promise<number> => {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  try {
+    return await purgeTasksDeletedBefore(cutoff);
+  } catch (error) {
+    logger.error('Trash purge failed', { error });
+    return 0;
+  }
+};
+
+/**
+ * Purges every task whose retention period has passed. Returns the number
+ * of tasks removed; calls made while a previous purge is still in progress
+ * do nothing.
+ */
+export async function purgeExpiredTasks(): Promise<number> {
+  const retentionDays = getTrashRetentionDays();
+  if (retentionDays === 0 || currentPurge) {
+    return 0;
+  }
+
+  currentPurge = purgeTasksPastRetention(retentionDays);
+  try {
+    return await currentPurge;
+  } finally {
+    currentPurge = null;
+  }
+}
+
+export function startTrashPurger(intervalMs: number = PURGE_INTERVAL_MS): void {
+  if (purgeTimer) {
+    return;
+  }
+
+  void purgeExpiredTasks();
+  purgeTimer = setInterval(() => {
+    void purgeExpiredTasks();
+  }, intervalMs);
+  purgeTimer.unref();
+}
+
+/**
+ * Stops the loop and resolves once any purge in progress has finished
+ */
+export async function stopTrashPurger(): Promise<void> {
+  if (purgeTimer) {
+    clearInterval(purgeTimer);
+    purgeTimer = null;
+  }
+  await currentPurge;
+}
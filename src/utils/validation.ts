@@ -1,11 +1,98 @@
 import Joi from 'joi';
+import { isKnownTimeZone } from './ical';
+import { isAllowedWebhookUrl } from './webhookTargets';
+
+// Auth validation schemas
+// TLDs are not checked so self-hosted domains such as planner.local are accepted
+const emailSchema = Joi.string().email({ tlds: { allow: false } });
+
+export const registerSchema = Joi.object({
+  email: emailSchema.required().max(255),
+  password: Joi.string().required().min(8).max(128),
+  name: Joi.string().min(1).max(100)
+});
+
+export const loginSchema = Joi.object({
+  email: emailSchema.required(),
+  password: Joi.string().required()
+});
+
+export const createApiKeySchema = Joi.object({
+  name: Joi.string().required().min(1).max(100),
+  kind: Joi.string().valid('api', 'feed').default('api'),
+  // Feed tokens are read-only; their scopes may be left out
+  scopes: Joi.when('kind', {
+    is: 'feed',
+    then: Joi.array().items(Joi.string().valid('tasks:read')).min(1).unique().default(['tasks:read']),
+    otherwise: Joi.array()
+      .items(Joi.string().valid('tasks:read', 'tasks:write', 'admin'))
+      .min(1)
+      .unique()
+      .required()
+  })
+});
+
+// Webhook validation schemas
+export const WEBHOOK_EVENTS = ['task.created', 'task.updated', 'task.completed', 'task.deleted', 'task.reminder'];
+
+// Hostnames are checked again on delivery, when they are resolved
+const webhookUrlSchema = Joi.string().uri({ scheme: ['http', 'https'] }).max(2048).custom((value, helpers) => {
+  return isAllowedWebhookUrl(value)
+    ? value
+    : helpers.message({ custom: '"url" must not point to a loopback, private or link-local address' });
+});
+const webhookEventsSchema = Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique();
+const webhookSecretSchema = Joi.string().min(16).max(256);
+
+export const createWebhookSchema = Joi.object({
+  url: webhookUrlSchema.required(),
+  events: webhookEventsSchema.required(),
+  secret: webhookSecretSchema
+});
+
+export const updateWebhookSchema = Joi.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema,
+  active: Joi.boolean(),
+  secret: webhookSecretSchema
+}).min(1);
+
+// Recurrence rule schema (RRULE subset)
+export const recurrenceRuleSchema = Joi.object({
+  frequency: Joi.string().valid('daily', 'weekly', 'monthly', 'yearly').required(),
+  interval: Joi.number().integer().min(1).max(365).default(1),
+  byWeekday: Joi.array()
+    .items(Joi.string().valid('MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'))
+    .min(1)
+    .unique()
+    .when('frequency', {
+      is: Joi.valid('daily', 'weekly'),
+      otherwise: Joi.forbidden()
+    }),
+  until: Joi.string().isoDate(),
+  count: Joi.number().integer().min(1).max(1000)
+}).nand('until', 'count');
+
+const tagNameSchema = Joi.string().trim().min(1).max(50);
+const tagListSchema = Joi.array().items(tagNameSchema).max(20);
 
 // Task validation schemas
+export const AUDITED_TASK_FIELDS = [
+  'title', 'description', 'completed', 'priority', 'dueDate', 'categoryId', 'parentId', 'tags', 'recurrence'
+];
+
 export const createTaskSchema = Joi.object({
   title: Joi.string().required().min(1).max(255),
   description: Joi.string().allow('').max(1000),
   priority: Joi.string().valid('low', 'medium', 'high').default('medium'),
-  dueDate: Joi.string().isoDate().allow(null)
+  dueDate: Joi.string().isoDate().allow(null).when('recurrence', {
+    is: Joi.exist(),
+    then: Joi.required().invalid(null)
+  }),
+  categoryId: Joi.string().uuid().allow(null),
+  parentId: Joi.string().uuid().allow(null),
+  tags: tagListSchema,
+  recurrence: recurrenceRuleSchema
 });
 
 export const updateTaskSchema = Joi.object({
@@ -13,9 +100,86 @@ export const updateTaskSchema = Joi.object({
   description: Joi.string().allow('').max(1000),
   completed: Joi.boolean(),
   priority: Joi.string().valid('low', 'medium', 'high'),
-  dueDate: Joi.string().isoDate().allow(null)
+  dueDate: Joi.string().isoDate().allow(null),
+  categoryId: Joi.string().uuid().allow(null),
+  parentId: Joi.string().uuid().allow(null),
+  tags: tagListSchema,
+  recurrence: recurrenceRuleSchema.allow(null)
+}).min(1);
+
+export const occurrencesQuerySchema = Joi.object({
+  from: Joi.string().isoDate().required(),
+  to: Joi.string().isoDate().required(),
+  limit: Joi.number().integer().min(1).max(500).default(100)
+}).custom((value, helpers) => {
+  if (new Date(value.to) < new Date(value.from)) {
+    return helpers.message({ custom: '"to" must not be before "from"' });
+  }
+  return value;
+});
+
+export const createReminderSchema = Joi.object({
+  remindAt: Joi.string().isoDate(),
+  // Minutes before the task's dueDate
+  offsetMinutes: Joi.number().integer().min(0).max(60 * 24 * 366),
+  channel: Joi.string().default('log')
+}).xor('remindAt', 'offsetMinutes');
+
+export const taskImportQuerySchema = Joi.object({
+  format: Joi.string().valid('csv', 'ndjson'),
+  dryRun: Joi.boolean().default(false)
+});
+
+export const icsImportQuerySchema = Joi.object({
+  // IANA zone for floating times, i.e. local times without a TZID
+  timezone: Joi.string().max(64).custom((value, helpers) => {
+    return isKnownTimeZone(value) ? value : helpers.message({ custom: `Unknown time zone "${value}"` });
+  })
+});
+
+// Category validation schemas
+const hexColorPattern = /^#([0-9a-fA-F]{6}|[0-9a-fA-F]{3})$/;
+
+export const createCategorySchema = Joi.object({
+  name: Joi.string().required().min(1).max(100),
+  color: Joi.string().required().pattern(hexColorPattern),
+  description: Joi.string().allow('').max(500)
+});
+
+export const updateCategorySchema = Joi.object({
+  name: Joi.string().min(1).max(100),
+  color: Joi.string().pattern(hexColorPattern),
+  description: Joi.string().allow('').max(500)
 }).min(1);
 
+// Event validation schemas
+const endAfterStart = (value: any, helpers: Joi.CustomHelpers) => {
+  if (value.startDate && value.endDate && new Date(value.endDate) <= new Date(value.startDate)) {
+    return helpers.message({ custom: '"endDate" must be after "startDate"' });
+  }
+  return value;
+};
+
+export const createEventSchema = Joi.object({
+  title: Joi.string().required().min(1).max(255),
+  description: Joi.string().allow('').max(1000),
+  startDate: Joi.string().isoDate().required(),
+  endDate: Joi.string().isoDate().required(),
+  allDay: Joi.boolean().default(false),
+  location: Joi.string().allow('').max(255),
+  categoryId: Joi.string().uuid().allow(null)
+}).custom(endAfterStart);
+
+export const updateEventSchema = Joi.object({
+  title: Joi.string().min(1).max(255),
+  description: Joi.string().allow('').max(1000),
+  startDate: Joi.string().isoDate(),
+  endDate: Joi.string().isoDate(),
+  allDay: Joi.boolean(),
+  location: Joi.string().allow('').max(255),
+  categoryId: Joi.string().uuid().allow(null)
+}).min(1).custom(endAfterStart);
+
 // Query validation schemas
 export const paginationSchema = Joi.object({
   page: Joi.number().integer().min(1).default(1),
@@ -24,58 +188,139 @@ export const paginationSchema = Joi.object({
   sortOrder: Joi.string().valid('asc', 'desc').default('desc')
 });
 
-export const taskFiltersSchema = paginationSchema.keys({
+const taskFilterKeys = {
   completed: Joi.boolean(),
   priority: Joi.string().valid('low', 'medium', 'high'),
   dueDateFrom: Joi.string().isoDate(),
-  dueDateTo: Joi.string().isoDate()
+  dueDateTo: Joi.string().isoDate(),
+  categoryId: Joi.string().uuid(),
+  parentId: Joi.string().uuid(),
+  topLevel: Joi.boolean(),
+  tags: Joi.array().items(tagNameSchema).single(),
+  tagMatch: Joi.string().valid('any', 'all').default('any'),
+  q: Joi.string().trim().min(1).max(200)
+};
+
+export const taskFiltersSchema = paginationSchema.keys({
+  ...taskFilterKeys,
+  // Switches to keyset pagination; the cursor carries the sort order
+  cursor: Joi.string().max(1000),
+  // Search results are ranked by relevance unless another order is requested
+  sortBy: Joi.string().when('q', {
+    is: Joi.exist(),
+    then: Joi.string().default('relevance'),
+    otherwise: Joi.string().default('createdAt')
+  })
+});
+
+// Bulk task operations select tasks by id or with the same filters as GET /api/tasks
+export const MAX_BULK_TASKS = 1000;
+
+export const bulkTaskSchema = Joi.object({
+  action: Joi.string().valid('complete', 'uncomplete', 'setPriority', 'setDueDate', 'delete').required(),
+  ids: Joi.array().items(Joi.string().uuid()).min(1).max(MAX_BULK_TASKS).unique(),
+  // An empty filter would select every task, so at least one criterion is required
+  filter: Joi.object(taskFilterKeys)
+    .or(...Object.keys(taskFilterKeys).filter(key => key !== 'tagMatch')),
+  priority: Joi.string().valid('low', 'medium', 'high').when('action', {
+    is: 'setPriority',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  dueDate: Joi.string().isoDate().allow(null).when('action', {
+    is: 'setDueDate',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  })
+}).xor('ids', 'filter');
+
+export const webhookDeliveryFiltersSchema = paginationSchema.keys({
+  status: Joi.string().valid('pending', 'succeeded', 'failed'),
+  event: Joi.string().valid(...WEBHOOK_EVENTS)
+});
+
+export const auditFiltersSchema = paginationSchema.keys({
+  taskId: Joi.string().uuid(),
+  action: Joi.string().valid('create', 'update', 'delete', 'restore', 'purge'),
+  field: Joi.string().valid(...AUDITED_TASK_FIELDS),
+  apiKeyId: Joi.string().uuid(),
+  from: Joi.string().isoDate(),
+  to: Joi.string().isoDate()
+});
+
+export const eventFiltersSchema = paginationSchema.keys({
+  sortBy: Joi.string().default('startDate'),
+  sortOrder: Joi.string().valid('asc', 'desc').default('asc'),
+  categoryId: Joi.string().uuid(),
+  startDateFrom: Joi.string().isoDate(),
+  startDateTo: Joi.string().isoDate()
+});
+
+export const eventRangeParamsSchema = Joi.object({
+  start: Joi.string().isoDate().required(),
+  end: Joi.string().isoDate().required()
+}).custom((value, helpers) => {
+  if (new Date(value.end) < new Date(value.start)) {
+    return helpers.message({ custom: '"end" must not be before "start"' });
+  }
+  return value;
+});
+
+export const eventMonthParamsSchema = Joi.object({
+  year: Joi.number().integer().min(1970).max(9999).required(),
+  month: Joi.number().integer().min(1).max(12).required()
+});
+
+// Optional filter for the range, today, week and month views
+export const eventRangeQuerySchema = Joi.object({
+  categoryId: Joi.string().uuid()
+});
+
+export const categoryQuerySchema = Joi.object({
+  sortBy: Joi.string().default('name'),
+  sortOrder: Joi.string().valid('asc', 'desc').default('asc')
 });
 
 // UUID validation schema
 export const uuidSchema = Joi.string().uuid().required();
 
 // Middleware for validation
-export const validate = (schema: Joi.ObjectSchema) => {
-  return (req: any, res: any, next: any) => {
-    const { error, value } = schema.validate(req.body);
-    if (error) {
-      return res.status(400).json({
-        success: false,
-        error: 'Validation error',
-        message: error.details[0].message
-      });
-    }
-    req.body = value;
-    next();
-  };
-};
+export type ValidatedSource = 'body' | 'query' | 'params';
+
+/**
+ * Validation middleware keeps its schema and the part of the request it
+ * checks, so the OpenAPI document can be generated from the routes
+ */
+export interface ValidationMiddleware {
+  (req: any, res: any, next: any): void;
+  source: ValidatedSource;
+  schema: Joi.ObjectSchema;
+}
 
-export const validateQuery = (schema: Joi.ObjectSchema) => {
-  return (req: any, res: any, next: any) => {
-    const { error, value } = schema.validate(req.query);
-    if (error) {
-      return res.status(400).json({
-        success: false,
-        error: 'Query validation error',
-        message: error.details[0].message
-      });
-    }
-    req.query = value;
-    next();
+const createValidator = (source: ValidatedSource, errorLabel: string) => {
+  return (schema: Joi.ObjectSchema): ValidationMiddleware => {
+    const middleware = (req: any, res: any, next: any) => {
+      const { error, value } = schema.validate(req[source]);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: errorLabel,
+          message: error.details[0].message
+        });
+      }
+      req[source] = value;
+      next();
+    };
+    return Object.assign(middleware, { source, schema });
   };
 };
 
-export const validateParams = (schema: Joi.ObjectSchema) => {
-  return (req: any, res: any, next: any) => {
-    const { error, value } = schema.validate(req.params);
-    if (error) {
-      return res.status(400).json({
-        success: false,
-        error: 'Parameter validation error',
-        message: error.details[0].message
-      });
-    }
-    req.params = value;
-    next();
-  };
+export const validate = createValidator('body', 'Validation error');
+
+export const validateQuery = createValidator('query', 'Query validation error');
+
+export const validateParams = createValidator('params', 'Parameter validation error');
+
+export const isValidationMiddleware = (handler: unknown): handler is ValidationMiddleware => {
+  return typeof handler === 'function' && Joi.isSchema((handler as ValidationMiddleware).schema);
 };
@@ -0,0 +1,109 @@
+import { BlockList, isIP, LookupFunction } from 'net';
+import { lookup, LookupAddress } from 'dns';
+
+/**
+ * Keeps webhooks from reaching the server's own network: loopback, private,
+ * link-local (including cloud metadata endpoints such as 169.254.169.254)
+ * and other reserved addresses. URLs are checked when a webhook is saved and
+ * every resolved address again when a delivery connects, so a hostname that
+ * later resolves somewhere internal is still refused. Set
+ * WEBHOOK_ALLOW_PRIVATE_NETWORKS=true to deliver to local receivers during
+ * development.
+ */
+
+const blockedAddresses = new BlockList();
+
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv4'));
+
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// Names that reach the local machine or a metadata service without DNS
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal'];
+
+export const isPrivateNetworkAllowed = (): boolean => process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true';
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet
+ */
+export const isBlockedAddress = (address: string): boolean => {
+  const family = isIP(address);
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked against the IPv4 ranges
+  return family === 0 || blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Whether a webhook URL may be saved: its host must not be a blocked
+ * address or a name for the local machine. Hostnames are resolved again on
+ * every delivery.
+ */
+export const isAllowedWebhookUrl = (url: string): boolean => {
+  if (isPrivateNetworkAllowed()) {
+    return true;
+  }
+
+  const hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (isIP(hostname)) {
+    return !isBlockedAddress(hostname);
+  }
+  return !BLOCKED_HOSTNAMES.includes(hostname) && !hostname.endsWith('.localhost');
+};
+
+export class BlockedWebhookTargetError extends Error {
+  constructor(address: string) {
+    super(`Webhook URL resolves to a private or reserved address (${address})`);
+    this.name = 'BlockedWebhookTargetError';
+  }
+}
+
+/**
+ * DNS lookup for delivery requests that fails when the hostname resolves to
+ * any blocked address, so the connection can only go to a checked address
+ */
+export const lookupWebhookTarget: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+
+    const blocked = isPrivateNetworkAllowed() ? undefined : addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      return callback(new BlockedWebhookTargetError(blocked.address), '', 0);
+    }
+
+    if (options.all) {
+      // The types only describe the single-address form of the callback
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Refuses IP-literal URLs outright; connections to them skip DNS lookup
+ */
+export const assertWebhookAddressAllowed = (hostname: string): void => {
+  const address = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(address) && !isPrivateNetworkAllowed() && isBlockedAddress(address)) {
+    throw new BlockedWebhookTargetError(address);
+  }
+};
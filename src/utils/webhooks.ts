@@ -0,0 +1,162 @@
+import { createHmac } from 'crypto';
+import http from 'http';
+import https from 'https';
+import { findDueDeliveries, recordDeliveryAttempt, DueWebhookDelivery } from '../models/Webhook';
+import { assertWebhookAddressAllowed, lookupWebhookTarget } from './webhookTargets';
+import { logger } from './logger';
+
+/**
+ * Background delivery of queued webhook events. Failed deliveries are
+ * retried with exponential backoff until MAX_DELIVERY_ATTEMPTS is reached.
+ * Receivers' responses are not kept beyond their status code.
+ */
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const POLL_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 20;
+const MAX_ERROR_LENGTH = 500;
+
+let pollTimer: NodeJS.Timeout | null = null;
+// The run in progress, which stopping the worker waits for
+let currentRun: Promise<number> | null = null;
+
+/**
+ * Signs `${timestamp}.${body}` with the webhook secret (HMAC-SHA256, hex).
+ * Receivers should recompute it and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: 30s, 1m, 2m, ...
+ * capped at six hours
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * POSTs the body and resolves with the response status. Redirects are not
+ * followed, and the connection may only go to a public address.
+ */
+const postDelivery = (url: string, headers: Record<string, string>, body: string): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    assertWebhookAddressAllowed(target.hostname);
+
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: lookupWebhookTarget,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    }, response => {
+      // Only the status matters; the body is discarded unread
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+};
+
+const attemptDelivery = async (delivery: DueWebhookDelivery): Promise<void> => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  try {
+    responseStatus = await postDelivery(delivery.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Day-Planner-Webhooks/1.0',
+      'X-Webhook-Id': delivery.webhookId,
+      'X-Webhook-Delivery': delivery.id,
+      'X-Webhook-Event': delivery.event,
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [SIGNATURE_HEADER]: `sha256=${signWebhookPayload(delivery.secret, timestamp, delivery.payload)}`
+    }, delivery.payload);
+
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `HTTP ${responseStatus}`;
+    }
+  } catch (requestError: any) {
+    error = String(requestError?.message || requestError).slice(0, MAX_ERROR_LENGTH);
+  }
+
+  const retry = error !== undefined && attempts < MAX_DELIVERY_ATTEMPTS;
+
+  await recordDeliveryAttempt(delivery.id, {
+    succeeded: error === undefined,
+    responseStatus,
+    error,
+    nextAttemptAt: retry ? new Date(Date.now() + getRetryDelay(attempts)).toISOString() : undefined
+  });
+};
+
+const sendDueDeliveries = async (): Promise<number> => {
+  let attempted = 0;
+  try {
+    for (;;) {
+      const deliveries = await findDueDeliveries(new Date().toISOString(), BATCH_SIZE);
+      for (const delivery of deliveries) {
+        await attemptDelivery(delivery);
+        attempted++;
+      }
+      if (deliveries.length < BATCH_SIZE) {
+        break;
+      }
+    }
+  } catch (error) {
+    logger.error('Webhook delivery run failed', { error });
+  }
+
+  return attempted;
+};
+
+/**
+ * Sends every delivery that is due. Returns the number attempted; calls made
+ * while a previous run is still in progress do nothing.
+ */
+export async function processDueDeliveries(): Promise<number> {
+  if (currentRun) {
+    return 0;
+  }
+
+  currentRun = sendDueDeliveries();
+  try {
+    return await currentRun;
+  } finally {
+    currentRun = null;
+  }
+}
+
+export function startWebhookWorker(intervalMs: number = POLL_INTERVAL_MS): void {
+  if (pollTimer) {
+    return;
+  }
+
+  pollTimer = setInterval(() => {
+    void processDueDeliveries();
+  }, intervalMs);
+  pollTimer.unref();
+}
+
+/**
+ * Stops polling and resolves once any run in progress has finished
+ */
+export async function stopWebhookWorker(): Promise<void> {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  await currentRun;
+}